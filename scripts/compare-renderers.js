@@ -0,0 +1,84 @@
+/**
+ * APEX Photo Studio - Headless Renderer Check
+ * 
+ * Serves compare.html with Vite, loads it in headless Chrome and prints
+ * the GPU vs CPU differences for every comparison case. WebGL2 runs on
+ * SwiftShader, the software rasterizer bundled with Chrome, so no GPU
+ * or display is needed.
+ * 
+ * Exits with status 1 when a case is out of tolerance, WebGL2 is not
+ * available, or the page fails or times out.
+ * 
+ * Usage: npm run compare
+ */
+
+import { createServer } from 'vite';
+import puppeteer from 'puppeteer';
+
+/** Longest wait (ms) for the page to report its results */
+const TIMEOUT = 120_000;
+
+async function main() {
+  const server = await createServer({
+    logLevel: 'warn',
+    server: { port: 0, open: false },
+    // The page imports no packages, so there is nothing to pre-bundle
+    optimizeDeps: { noDiscovery: true },
+  });
+  let browser;
+  
+  try {
+    await server.listen();
+    const [baseUrl] = server.resolvedUrls.local;
+    
+    // chrome-headless-shell needs fewer system libraries than full Chrome
+    browser = await puppeteer.launch({
+      headless: 'shell',
+      args: [
+        '--use-angle=swiftshader',
+        '--enable-unsafe-swiftshader',
+        // Chrome's sandbox refuses to start as root (containers, CI)
+        ...(process.getuid?.() === 0 ? ['--no-sandbox'] : []),
+      ],
+    });
+    
+    const page = await browser.newPage();
+    
+    await page.goto(new URL('compare.html', baseUrl).href);
+    
+    // compare.ts stores the results on the output element once it is
+    // done; an uncaught error on the page ends the wait early
+    const output = await Promise.race([
+      page.waitForSelector('#results[data-results]', { timeout: TIMEOUT }),
+      new Promise((_, reject) => page.on('pageerror', reject)),
+    ]);
+    const results = JSON.parse(await output.evaluate(element => element.dataset.results));
+    
+    if (results.length === 0) {
+      console.error('WebGL2 is not available; nothing was compared.');
+      return 1;
+    }
+    
+    console.table(results);
+    const failed = results.filter(result => !result.passed);
+    console.log(`${results.length - failed.length}/${results.length} cases within tolerance`);
+    
+    if (failed.length > 0) {
+      console.error(`Out of tolerance: ${failed.map(result => result.name).join(', ')}`);
+      return 1;
+    }
+    
+    return 0;
+  } finally {
+    await browser?.close();
+    await server.close();
+  }
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error('Renderer check failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
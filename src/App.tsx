@@ -17,14 +17,16 @@ import { Editor } from '@/components/Editor';
 import { Toolbar } from '@/components/Toolbar';
 import { AdjustmentsPanel } from '@/components/AdjustmentsPanel';
 import { Histogram } from '@/components/Histogram';
+import { Scopes } from '@/components/Scopes';
 import { AnimatedBackground3D } from '@/components/AnimatedBackground3D';
 import { StatsPanel } from '@/components/StatsPanel';
 import { FloatingButton } from '@/components/FloatingButton';
 import { useImageStore } from '@/hooks/useImageStore';
+import { loadLutLibrary } from '@/utils/lutLibrary';
 import { Grid3X3, Eye, SplitSquareVertical, Settings, Keyboard } from 'lucide-react';
 
 function App() {
-  const { ui, setUIState, undo, redo, canUndo, canRedo, image } = useImageStore();
+  const { ui, setUIState, camera, setCameraSettings, undo, redo, canUndo, canRedo, image } = useImageStore();
   
   // Keyboard shortcuts
   useEffect(() => {
@@ -53,8 +55,22 @@ function App() {
           setUIState({ gridType: grids[(idx + 1) % grids.length] });
         } else if (e.key === 'z' || e.key === 'Z') {
           setUIState({ showZebras: !ui.showZebras });
+        } else if (e.key === 'f' || e.key === 'F') {
+          setUIState({ showFalseColor: !ui.showFalseColor });
+        } else if (e.key === 'p' || e.key === 'P') {
+          // Focus peaking while shooting, sharpness map while editing
+          if (ui.mode === 'camera') {
+            setCameraSettings({ focusPeaking: !camera.focusPeaking });
+          } else {
+            setUIState({ showSharpnessMap: !ui.showSharpnessMap });
+          }
         } else if (e.key === 'h' || e.key === 'H') {
           setUIState({ showHistogram: !ui.showHistogram });
+        } else if (e.key === 'w' || e.key === 'W') {
+          setUIState({ showScopes: !ui.showScopes });
+        } else if ((e.key === 'r' || e.key === 'R') && ui.mode === 'editor' && image.original) {
+          // Open crop & straighten (Enter/Esc inside the tool close it)
+          setUIState({ isCropping: true });
         } else if (e.key === '\\') {
           // Toggle comparison
           setUIState({ 
@@ -75,7 +91,17 @@ function App() {
     
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [ui, setUIState, undo, redo, canUndo, canRedo]);
+  }, [ui, setUIState, camera.focusPeaking, setCameraSettings, undo, redo, canUndo, canRedo, image.original]);
+
+  // Restore imported LUTs; without storage the library stays in memory
+  useEffect(() => {
+    loadLutLibrary()
+      .then(saved => {
+        const { luts, setLuts } = useImageStore.getState();
+        setLuts({ ...saved, ...luts });
+      })
+      .catch(() => {});
+  }, []);
 
   // Check if image is loaded
   const imageLoaded = !!(image.processed || image.original);
@@ -131,6 +157,13 @@ function App() {
                 </div>
               )}
               
+              {/* Waveform and vectorscope */}
+              {ui.showScopes && (
+                <div className="p-3 border-b border-[var(--apex-border)]">
+                  <Scopes source={image.processed} selectable />
+                </div>
+              )}
+              
               {/* Adjustments */}
               <div className="flex-1 overflow-hidden">
                 <AdjustmentsPanel />
@@ -163,6 +196,12 @@ function App() {
               <span className="font-mono">G</span><span className="mx-0.5 text-gray-600">Grid</span>
               <span className="mx-1 text-gray-700">·</span>
               <span className="font-mono">Z</span><span className="mx-0.5 text-gray-600">Zebras</span>
+              <span className="mx-1 text-gray-700">·</span>
+              <span className="font-mono">F</span><span className="mx-0.5 text-gray-600">False Color</span>
+              <span className="mx-1 text-gray-700">·</span>
+              <span className="font-mono">P</span><span className="mx-0.5 text-gray-600">Peaking</span>
+              <span className="mx-1 text-gray-700">·</span>
+              <span className="font-mono">W</span><span className="mx-0.5 text-gray-600">Scopes</span>
             </div>
           </div>
           
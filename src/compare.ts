@@ -0,0 +1,67 @@
+/**
+ * APEX Photo Studio - Renderer Comparison Page
+ * 
+ * Entry point of compare.html: renders a synthetic test chart through
+ * the GPU and CPU pipelines for every comparison case and prints the
+ * differences. Needs a browser with WebGL2.
+ * 
+ * npm run compare loads the page in headless Chrome
+ * (scripts/compare-renderers.js), which reads the results from the
+ * output element's data-results attribute; npm run compare:browser
+ * opens it for a look.
+ */
+
+import { runRendererComparison } from '@/engine/rendererComparison';
+
+/**
+ * Hue sweep across, dark to bright down, with a gray ramp along the
+ * bottom so both saturated colors and neutrals are covered
+ */
+function createTestChart(width: number, height: number): ImageData {
+  const image = new ImageData(width, height);
+  const { data } = image;
+  const rampHeight = Math.round(height / 8);
+  
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const t = x / (width - 1);
+      
+      if (y >= height - rampHeight) {
+        data[i] = data[i + 1] = data[i + 2] = t * 255;
+      } else {
+        const value = 1 - y / (height - rampHeight);
+        const hue = t * 6;
+        const channel = (offset: number) =>
+          value * 255 * Math.min(1, Math.max(0, Math.abs(((hue + offset) % 6) - 3) - 1));
+        data[i] = channel(0);
+        data[i + 1] = channel(4);
+        data[i + 2] = channel(2);
+      }
+      data[i + 3] = 255;
+    }
+  }
+  
+  return image;
+}
+
+const output = document.getElementById('results')!;
+const results = runRendererComparison(createTestChart(512, 384));
+output.dataset.results = JSON.stringify(results);
+
+if (results.length === 0) {
+  output.textContent = 'WebGL2 is not available; nothing was compared.';
+} else {
+  console.table(results);
+  const failed = results.filter(result => !result.passed).length;
+  output.textContent = [
+    `${results.length - failed}/${results.length} cases within tolerance`,
+    '',
+    ...results.map(result =>
+      `${result.passed ? 'PASS' : 'FAIL'}  ${result.name.padEnd(32)}` +
+      `max ${String(result.maxDifference).padStart(3)}  ` +
+      `mean ${result.meanDifference.toFixed(3)}  ` +
+      `mismatched ${result.mismatchedPixels}`
+    ),
+  ].join('\n');
+}
@@ -9,12 +9,22 @@
  */
 
 import { useState, useCallback, useRef } from 'react';
-import { ChevronDown, RotateCcw, Sun, Palette, Sparkles } from 'lucide-react';
+import { ChevronDown, RotateCcw, Sun, Palette, Sparkles, Crop, Layers, Bandage, Images, Blend, Droplets, Contrast, SlidersHorizontal, Aperture } from 'lucide-react';
 import { useImageStore } from '@/hooks/useImageStore';
+import { DEFAULT_BLACK_AND_WHITE, DEFAULT_CALIBRATION, DEFAULT_CHANNEL_MIXER, DEFAULT_COLOR_GRADING } from '@/types';
 import { HSLPanel } from './HSLPanel';
 import { ToneCurveEditor } from './ToneCurveEditor';
 import { EffectsPanel } from './EffectsPanel';
 import { LensCorrectionPanel } from './LensCorrectionPanel';
+import { TransformPanel } from './TransformPanel';
+import { MaskPanel } from './MaskPanel';
+import { RetouchPanel } from './RetouchPanel';
+import { LayersPanel } from './LayersPanel';
+import { LutPanel } from './LutPanel';
+import { ColorGradingPanel } from './ColorGradingPanel';
+import { BlackAndWhitePanel } from './BlackAndWhitePanel';
+import { ChannelMixerPanel } from './ChannelMixerPanel';
+import { CalibrationPanel } from './CalibrationPanel';
 
 interface SliderProps {
   label: string;
@@ -166,10 +176,12 @@ export function AdjustmentsPanel() {
     basic: true,
     color: true,
     detail: false,
+    blackAndWhite: true,
   });
   
   const debounceRef = useRef<NodeJS.Timeout | undefined>(undefined);
   const { adjustments, setAdjustments, pushHistory, image } = useImageStore();
+  const isMonochrome = adjustments.blackAndWhite.enabled;
   
   const toggleSection = (section: string) => {
     setOpenSections(prev => ({ ...prev, [section]: !prev[section] }));
@@ -215,6 +227,17 @@ export function AdjustmentsPanel() {
     });
   };
   
+  // Color / B&W treatment; the mix and toning are kept while switched off
+  const setMonochrome = (enabled: boolean) => {
+    if (enabled === isMonochrome) return;
+    setAdjustments({ blackAndWhite: { ...adjustments.blackAndWhite, enabled } });
+    pushHistory();
+  };
+  
+  const resetBlackAndWhite = () => {
+    setAdjustments({ blackAndWhite: { ...DEFAULT_BLACK_AND_WHITE, enabled: true } });
+  };
+  
   if (!image.original) {
     return (
       <div className="h-full flex flex-col items-center justify-center text-center p-6 animate-fade-in-up">
@@ -230,6 +253,23 @@ export function AdjustmentsPanel() {
   
   return (
     <div className="h-full overflow-y-auto animate-slide-in-right">
+      {/* Treatment */}
+      <div className="flex gap-1 p-3 border-b border-[var(--apex-border)]">
+        {([['Color', false], ['B&W', true]] as const).map(([label, monochrome]) => (
+          <button
+            key={label}
+            onClick={() => setMonochrome(monochrome)}
+            className={`flex-1 py-1.5 rounded text-xs font-medium transition-all ${
+              isMonochrome === monochrome
+                ? 'bg-[var(--apex-accent-subtle)] text-[var(--apex-accent)]'
+                : 'text-[var(--apex-text-muted)] hover:text-[var(--apex-text-primary)] hover:bg-[var(--apex-bg-hover)]'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      
       {/* Basic Adjustments */}
       <Section 
         title="Basic" 
@@ -288,6 +328,22 @@ export function AdjustmentsPanel() {
           onChange={v => updateAdjustment('basic', 'blacks', v)}
           onChangeEnd={handleChangeEnd}
         />
+        <label
+          className="flex items-center gap-2 mt-2 cursor-pointer"
+          title="Process in 32-bit linear light to keep highlight detail beyond white"
+        >
+          <input
+            type="checkbox"
+            checked={adjustments.processingMode === 'linear'}
+            onChange={e => {
+              setAdjustments({ processingMode: e.target.checked ? 'linear' : 'gamma' });
+              handleChangeEnd();
+            }}
+            className="w-3.5 h-3.5 rounded border-[var(--apex-border)] bg-[var(--apex-bg-dark)] 
+                       checked:bg-[var(--apex-accent)] checked:border-transparent cursor-pointer"
+          />
+          <span className="text-[10px] text-[var(--apex-text-muted)]">Linear light (32-bit float)</span>
+        </label>
       </Section>
       
       {/* Color Adjustments */}
@@ -316,22 +372,26 @@ export function AdjustmentsPanel() {
           onChange={v => updateAdjustment('color', 'tint', v)}
           onChangeEnd={handleChangeEnd}
         />
-        <Slider
-          label="Vibrance"
-          value={adjustments.color.vibrance}
-          min={-100}
-          max={100}
-          onChange={v => updateAdjustment('color', 'vibrance', v)}
-          onChangeEnd={handleChangeEnd}
-        />
-        <Slider
-          label="Saturation"
-          value={adjustments.color.saturation}
-          min={-100}
-          max={100}
-          onChange={v => updateAdjustment('color', 'saturation', v)}
-          onChangeEnd={handleChangeEnd}
-        />
+        {!isMonochrome && (
+          <>
+            <Slider
+              label="Vibrance"
+              value={adjustments.color.vibrance}
+              min={-100}
+              max={100}
+              onChange={v => updateAdjustment('color', 'vibrance', v)}
+              onChangeEnd={handleChangeEnd}
+            />
+            <Slider
+              label="Saturation"
+              value={adjustments.color.saturation}
+              min={-100}
+              max={100}
+              onChange={v => updateAdjustment('color', 'saturation', v)}
+              onChangeEnd={handleChangeEnd}
+            />
+          </>
+        )}
       </Section>
       
       {/* Detail Adjustments */}
@@ -358,6 +418,16 @@ export function AdjustmentsPanel() {
           onChange={v => updateAdjustment('detail', 'sharpness', v)}
           onChangeEnd={handleChangeEnd}
         />
+        <Slider
+          label="Radius"
+          value={adjustments.detail.sharpnessRadius}
+          min={0.5}
+          max={3}
+          step={0.1}
+          unit=" px"
+          onChange={v => updateAdjustment('detail', 'sharpnessRadius', v)}
+          onChangeEnd={handleChangeEnd}
+        />
         <Slider
           label="Noise Reduction"
           value={adjustments.detail.noiseReduction}
@@ -368,14 +438,37 @@ export function AdjustmentsPanel() {
         />
       </Section>
       
-      {/* HSL/Color Panel */}
+      {/* HSL/Color Panel, replaced by the gray mix in B&W */}
+      {isMonochrome ? (
+        <Section 
+          title="Black & White" 
+          icon={<Contrast className="w-4 h-4" />}
+          isOpen={openSections.blackAndWhite}
+          onToggle={() => toggleSection('blackAndWhite')}
+          onReset={resetBlackAndWhite}
+        >
+          <BlackAndWhitePanel />
+        </Section>
+      ) : (
+        <Section 
+          title="HSL / Color" 
+          icon={<Palette className="w-4 h-4" />}
+          isOpen={openSections.hsl ?? false}
+          onToggle={() => toggleSection('hsl')}
+        >
+          <HSLPanel />
+        </Section>
+      )}
+      
+      {/* RGB channel mixer */}
       <Section 
-        title="HSL / Color" 
-        icon={<Palette className="w-4 h-4" />}
-        isOpen={openSections.hsl ?? false}
-        onToggle={() => toggleSection('hsl')}
+        title="Channel Mixer" 
+        icon={<SlidersHorizontal className="w-4 h-4" />}
+        isOpen={openSections.channelMixer ?? false}
+        onToggle={() => toggleSection('channelMixer')}
+        onReset={() => setAdjustments({ channelMixer: DEFAULT_CHANNEL_MIXER })}
       >
-        <HSLPanel />
+        <ChannelMixerPanel />
       </Section>
       
       {/* Tone Curve */}
@@ -388,6 +481,58 @@ export function AdjustmentsPanel() {
         <ToneCurveEditor />
       </Section>
       
+      {/* Three-way color grading */}
+      <Section 
+        title="Color Grading" 
+        icon={<Droplets className="w-4 h-4" />}
+        isOpen={openSections.colorGrading ?? false}
+        onToggle={() => toggleSection('colorGrading')}
+        onReset={() => setAdjustments({ colorGrading: DEFAULT_COLOR_GRADING })}
+      >
+        <ColorGradingPanel />
+      </Section>
+      
+      {/* Color look-up tables */}
+      <Section 
+        title="LUT" 
+        icon={<Blend className="w-4 h-4" />}
+        isOpen={openSections.lut ?? false}
+        onToggle={() => toggleSection('lut')}
+        onReset={() => setAdjustments({ lut: { id: null, amount: 100 } })}
+      >
+        <LutPanel />
+      </Section>
+      
+      {/* Local adjustment masks */}
+      <Section 
+        title="Masks" 
+        icon={<Layers className="w-4 h-4" />}
+        isOpen={openSections.masks ?? false}
+        onToggle={() => toggleSection('masks')}
+      >
+        <MaskPanel />
+      </Section>
+      
+      {/* Spot removal */}
+      <Section 
+        title="Retouch" 
+        icon={<Bandage className="w-4 h-4" />}
+        isOpen={openSections.retouch ?? false}
+        onToggle={() => toggleSection('retouch')}
+      >
+        <RetouchPanel />
+      </Section>
+      
+      {/* Layer stack */}
+      <Section 
+        title="Layers" 
+        icon={<Images className="w-4 h-4" />}
+        isOpen={openSections.layers ?? false}
+        onToggle={() => toggleSection('layers')}
+      >
+        <LayersPanel />
+      </Section>
+      
       {/* Effects */}
       <Section 
         title="Effects" 
@@ -407,6 +552,27 @@ export function AdjustmentsPanel() {
       >
         <LensCorrectionPanel />
       </Section>
+      
+      {/* Camera calibration */}
+      <Section 
+        title="Calibration" 
+        icon={<Aperture className="w-4 h-4" />}
+        isOpen={openSections.calibration ?? false}
+        onToggle={() => toggleSection('calibration')}
+        onReset={() => setAdjustments({ calibration: DEFAULT_CALIBRATION })}
+      >
+        <CalibrationPanel />
+      </Section>
+      
+      {/* Transform */}
+      <Section 
+        title="Transform" 
+        icon={<Crop className="w-4 h-4" />}
+        isOpen={openSections.transform ?? false}
+        onToggle={() => toggleSection('transform')}
+      >
+        <TransformPanel />
+      </Section>
     </div>
   );
 }
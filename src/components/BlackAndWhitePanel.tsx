@@ -0,0 +1,191 @@
+/**
+ * APEX Photo Studio - Black & White Panel Component
+ * 
+ * Monochrome conversion controls:
+ * - Per-hue mix over the eight HSL color ranges
+ * - Auto mix derived from the image
+ * - Toning (hue and saturation of the gray result)
+ * 
+ * The conversion itself is switched on and off from AdjustmentsPanel.
+ */
+
+import { useCallback, useRef } from 'react';
+import { RotateCcw, Wand2 } from 'lucide-react';
+import { useImageStore } from '@/hooks/useImageStore';
+import { getAutoBlackAndWhiteMix } from '@/engine/adjustments';
+import { DEFAULT_BLACK_AND_WHITE, type HSLChannelName } from '@/types';
+
+const MIX_CHANNELS: { key: HSLChannelName; label: string; color: string }[] = [
+  { key: 'red', label: 'Red', color: '#ef4444' },
+  { key: 'orange', label: 'Orange', color: '#f97316' },
+  { key: 'yellow', label: 'Yellow', color: '#eab308' },
+  { key: 'green', label: 'Green', color: '#22c55e' },
+  { key: 'cyan', label: 'Cyan', color: '#06b6d4' },
+  { key: 'blue', label: 'Blue', color: '#3b82f6' },
+  { key: 'purple', label: 'Purple', color: '#a855f7' },
+  { key: 'magenta', label: 'Magenta', color: '#ec4899' },
+];
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  unit?: string;
+  /** Swatch shown next to the label */
+  color?: string;
+  onChange: (value: number) => void;
+  onChangeEnd?: () => void;
+}
+
+function Slider({ label, value, min, max, unit = '', color, onChange, onChangeEnd }: SliderProps) {
+  const percentage = ((value - min) / (max - min)) * 100;
+  const isNeutral = value === 0;
+  const centerPercent = min < 0 ? ((0 - min) / (max - min)) * 100 : 0;
+  
+  return (
+    <div className="mb-3 group">
+      <div className="flex justify-between items-center mb-1.5">
+        <span className="text-[10px] text-[var(--apex-text-muted)] font-medium flex items-center gap-1.5">
+          {color && <span className="w-2 h-2 rounded-full" style={{ background: color }} />}
+          {label}
+        </span>
+        <span className={`text-[10px] font-mono tabular-nums px-1 py-0.5 rounded transition-all ${
+          isNeutral
+            ? 'text-[var(--apex-text-dim)]'
+            : 'text-white bg-white/10'
+        }`}>
+          {min < 0 && value > 0 ? '+' : ''}{value}{unit}
+        </span>
+      </div>
+      
+      <div className="relative h-1.5">
+        <div className="absolute inset-0 rounded-full bg-[var(--apex-bg-dark)] border border-[var(--apex-border)]" />
+        
+        <div
+          className="absolute h-full rounded-full transition-all duration-75"
+          style={{
+            left: `${Math.min(percentage, centerPercent)}%`,
+            width: `${Math.abs(percentage - centerPercent)}%`,
+            background: color ?? 'var(--apex-accent)',
+          }}
+        />
+        
+        <input
+          type="range"
+          min={min}
+          max={max}
+          value={value}
+          onChange={e => onChange(parseFloat(e.target.value))}
+          onMouseUp={() => onChangeEnd?.()}
+          onTouchEnd={() => onChangeEnd?.()}
+          className="absolute inset-0 w-full opacity-0 cursor-pointer"
+        />
+        
+        <div
+          className="absolute w-3 h-3 -translate-y-1/2 top-1/2 -translate-x-1/2 pointer-events-none"
+          style={{ left: `${percentage}%` }}
+        >
+          <div className="w-full h-full rounded-full bg-white border-2 border-[var(--apex-accent)] shadow-sm" />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function BlackAndWhitePanel() {
+  const { image, adjustments, setAdjustments, pushHistory } = useImageStore();
+  const debounceRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  const { blackAndWhite } = adjustments;
+  const toningColor = `hsl(${blackAndWhite.toningHue}, ${blackAndWhite.toningSaturation / 2}%, 50%)`;
+  
+  const handleChangeEnd = useCallback(() => {
+    clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(() => {
+      pushHistory();
+    }, 100);
+  }, [pushHistory]);
+  
+  const updateMix = useCallback((channel: HSLChannelName, value: number) => {
+    setAdjustments({
+      blackAndWhite: { ...blackAndWhite, mix: { ...blackAndWhite.mix, [channel]: value } },
+    });
+  }, [blackAndWhite, setAdjustments]);
+  
+  const autoMix = useCallback(() => {
+    const source = image.proxy ?? image.original;
+    if (!source) return;
+    setAdjustments({ blackAndWhite: { ...blackAndWhite, mix: getAutoBlackAndWhiteMix(source) } });
+    pushHistory();
+  }, [image.proxy, image.original, blackAndWhite, setAdjustments, pushHistory]);
+  
+  const resetMix = useCallback(() => {
+    setAdjustments({ blackAndWhite: { ...blackAndWhite, mix: { ...DEFAULT_BLACK_AND_WHITE.mix } } });
+    pushHistory();
+  }, [blackAndWhite, setAdjustments, pushHistory]);
+  
+  return (
+    <div className="p-3">
+      <div className="flex gap-1.5 mb-3">
+        <button
+          onClick={autoMix}
+          className="flex-1 flex items-center justify-center gap-1.5 py-1.5 text-xs rounded-md border transition-all
+                     text-[var(--apex-text-muted)] border-[var(--apex-border)]
+                     hover:text-[var(--apex-text-primary)] hover:bg-[var(--apex-bg-hover)]"
+          title="Set the mix from the colors in the image"
+        >
+          <Wand2 className="w-3.5 h-3.5" />
+          Auto
+        </button>
+        <button
+          onClick={resetMix}
+          className="flex-1 flex items-center justify-center gap-1.5 py-1.5 text-xs rounded-md border transition-all
+                     text-[var(--apex-text-muted)] border-[var(--apex-border)]
+                     hover:text-[var(--apex-text-primary)] hover:bg-[var(--apex-bg-hover)]"
+          title="Plain luminance conversion"
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+          Reset mix
+        </button>
+      </div>
+      
+      {MIX_CHANNELS.map(({ key, label, color }) => (
+        <Slider
+          key={key}
+          label={label}
+          value={blackAndWhite.mix[key]}
+          min={-100}
+          max={100}
+          color={color}
+          onChange={v => updateMix(key, v)}
+          onChangeEnd={handleChangeEnd}
+        />
+      ))}
+      
+      {/* Toning */}
+      <div className="flex items-center gap-1.5 mt-4 mb-2">
+        <span className="text-[10px] font-semibold uppercase tracking-wider text-[var(--apex-text-dim)]">
+          Toning
+        </span>
+        <span className="w-2.5 h-2.5 rounded-full border border-white/20" style={{ background: toningColor }} />
+      </div>
+      <Slider
+        label="Hue"
+        value={blackAndWhite.toningHue}
+        min={0}
+        max={360}
+        unit="°"
+        onChange={v => setAdjustments({ blackAndWhite: { ...blackAndWhite, toningHue: v } })}
+        onChangeEnd={handleChangeEnd}
+      />
+      <Slider
+        label="Saturation"
+        value={blackAndWhite.toningSaturation}
+        min={0}
+        max={100}
+        onChange={v => setAdjustments({ blackAndWhite: { ...blackAndWhite, toningSaturation: v } })}
+        onChangeEnd={handleChangeEnd}
+      />
+    </div>
+  );
+}
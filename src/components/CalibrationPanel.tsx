@@ -0,0 +1,135 @@
+/**
+ * APEX Photo Studio - Calibration Panel Component
+ * 
+ * Camera calibration:
+ * - Hue and saturation of the red, green and blue primaries
+ * - Corrects how a sensor renders color before any other adjustment
+ */
+
+import { useCallback, useRef } from 'react';
+import { useImageStore } from '@/hooks/useImageStore';
+import type { CalibrationPrimary, RGBChannelName } from '@/types';
+
+/** Hue track colors: where each primary turns for negative and positive hue */
+const PRIMARIES: { key: RGBChannelName; label: string; color: string; hueTrack: string }[] = [
+  { key: 'red', label: 'Red Primary', color: '#ef4444', hueTrack: 'linear-gradient(to right, #ec4899, #ef4444, #f97316)' },
+  { key: 'green', label: 'Green Primary', color: '#22c55e', hueTrack: 'linear-gradient(to right, #eab308, #22c55e, #06b6d4)' },
+  { key: 'blue', label: 'Blue Primary', color: '#3b82f6', hueTrack: 'linear-gradient(to right, #06b6d4, #3b82f6, #a855f7)' },
+];
+
+interface SliderProps {
+  label: string;
+  value: number;
+  /** Track background; plain track when omitted */
+  track?: string;
+  onChange: (value: number) => void;
+  onChangeEnd?: () => void;
+}
+
+function Slider({ label, value, track, onChange, onChangeEnd }: SliderProps) {
+  const percentage = ((value + 100) / 200) * 100;
+  const isNeutral = value === 0;
+  
+  return (
+    <div className="mb-3 group">
+      <div className="flex justify-between items-center mb-1.5">
+        <span className="text-[10px] text-[var(--apex-text-muted)] font-medium">
+          {label}
+        </span>
+        <span className={`text-[10px] font-mono tabular-nums px-1 py-0.5 rounded transition-all ${
+          isNeutral
+            ? 'text-[var(--apex-text-dim)]'
+            : 'text-white bg-white/10'
+        }`}>
+          {value > 0 ? '+' : ''}{value}
+        </span>
+      </div>
+      
+      <div className="relative h-1.5">
+        <div
+          className="absolute inset-0 rounded-full border border-[var(--apex-border)]"
+          style={{ background: track ?? 'var(--apex-bg-dark)' }}
+        />
+        
+        {!track && (
+          <div
+            className="absolute h-full rounded-full bg-[var(--apex-accent)] transition-all duration-75"
+            style={{
+              left: `${Math.min(percentage, 50)}%`,
+              width: `${Math.abs(percentage - 50)}%`,
+            }}
+          />
+        )}
+        
+        <input
+          type="range"
+          min={-100}
+          max={100}
+          value={value}
+          onChange={e => onChange(parseFloat(e.target.value))}
+          onMouseUp={() => onChangeEnd?.()}
+          onTouchEnd={() => onChangeEnd?.()}
+          className="absolute inset-0 w-full opacity-0 cursor-pointer"
+        />
+        
+        <div
+          className="absolute w-3 h-3 -translate-y-1/2 top-1/2 -translate-x-1/2 pointer-events-none"
+          style={{ left: `${percentage}%` }}
+        >
+          <div className="w-full h-full rounded-full bg-white border-2 border-[var(--apex-accent)] shadow-sm" />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function CalibrationPanel() {
+  const { adjustments, setAdjustments, pushHistory } = useImageStore();
+  const debounceRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  const { calibration } = adjustments;
+  
+  const handleChangeEnd = useCallback(() => {
+    clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(() => {
+      pushHistory();
+    }, 100);
+  }, [pushHistory]);
+  
+  const updatePrimary = useCallback((
+    primary: RGBChannelName,
+    key: keyof CalibrationPrimary,
+    value: number
+  ) => {
+    setAdjustments({
+      calibration: { ...calibration, [primary]: { ...calibration[primary], [key]: value } },
+    });
+  }, [calibration, setAdjustments]);
+  
+  return (
+    <div className="p-3">
+      {PRIMARIES.map(({ key, label, color, hueTrack }) => (
+        <div key={key} className="mb-2">
+          <div className="flex items-center gap-1.5 mb-2">
+            <span className="w-2 h-2 rounded-full" style={{ background: color }} />
+            <span className="text-[10px] font-semibold uppercase tracking-wider text-[var(--apex-text-dim)]">
+              {label}
+            </span>
+          </div>
+          <Slider
+            label="Hue"
+            value={calibration[key].hue}
+            track={hueTrack}
+            onChange={v => updatePrimary(key, 'hue', v)}
+            onChangeEnd={handleChangeEnd}
+          />
+          <Slider
+            label="Saturation"
+            value={calibration[key].saturation}
+            onChange={v => updatePrimary(key, 'saturation', v)}
+            onChangeEnd={handleChangeEnd}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
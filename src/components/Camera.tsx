@@ -6,30 +6,49 @@
  * - Resolution selection
  * - Live preview with vignette
  * - Timer with animated countdown
+ * - Waveform scopes and false color on sampled live frames
+ * - Focus peaking with selectable color and sensitivity
  * - Glassmorphism controls
  */
 
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { Camera as CameraIcon, Settings, Timer, RotateCcw, Aperture, X, Video, VideoOff } from 'lucide-react';
+import { Camera as CameraIcon, Settings, Timer, RotateCcw, Aperture, X, Video, VideoOff, Activity, Palette, Focus } from 'lucide-react';
 import { useImageStore } from '@/hooks/useImageStore';
+import { Scopes } from './Scopes';
+import { FalseColorOverlay } from './FalseColorOverlay';
+import { FalseColorLegend } from './FalseColorLegend';
+import { FocusPeakingOverlay } from './FocusPeakingOverlay';
+import { FOCUS_PEAKING_COLORS } from '@/engine/focus';
+import type { FocusPeakingColor } from '@/types';
 
 interface CameraDevice {
   deviceId: string;
   label: string;
 }
 
+/** Width of the downscaled frames sampled for the scopes */
+const SCOPE_FRAME_WIDTH = 320;
+
+/** Frame width while false color covers the preview (needs more detail) */
+const FALSE_COLOR_FRAME_WIDTH = 640;
+
+/** Milliseconds between sampled frames (about 8 per second) */
+const SCOPE_FRAME_INTERVAL = 125;
+
 export function Camera() {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const scopeCanvasRef = useRef<HTMLCanvasElement | null>(null);
   
   const [devices, setDevices] = useState<CameraDevice[]>([]);
   const [isStreaming, setIsStreaming] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [countdown, setCountdown] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [liveFrame, setLiveFrame] = useState<ImageData | null>(null);
   
-  const { camera, setCameraSettings, setOriginalImage, setUIState } = useImageStore();
+  const { camera, ui, setCameraSettings, setOriginalImage, setUIState } = useImageStore();
   
   // Helper to get specific error messages
   const getCameraErrorMessage = (err: unknown): string => {
@@ -111,6 +130,33 @@ export function Camera() {
     };
   }, [camera.deviceId, camera.resolution]);
   
+  // Sample downscaled live frames for the scopes and false color while shown
+  useEffect(() => {
+    if ((!ui.showScopes && !ui.showFalseColor) || !isStreaming) return;
+    
+    const frameWidth = ui.showFalseColor ? FALSE_COLOR_FRAME_WIDTH : SCOPE_FRAME_WIDTH;
+    
+    const sampleFrame = () => {
+      const video = videoRef.current;
+      if (!video || video.videoWidth === 0) return;
+      
+      const canvas = scopeCanvasRef.current ?? document.createElement('canvas');
+      scopeCanvasRef.current = canvas;
+      canvas.width = frameWidth;
+      canvas.height = Math.max(1, Math.round((frameWidth * video.videoHeight) / video.videoWidth));
+      
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return;
+      
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      setLiveFrame(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    };
+    
+    sampleFrame();
+    const interval = setInterval(sampleFrame, SCOPE_FRAME_INTERVAL);
+    return () => clearInterval(interval);
+  }, [ui.showScopes, ui.showFalseColor, isStreaming]);
+  
   const getResolutionConstraints = useCallback(() => {
     switch (camera.resolution) {
       case '4k':
@@ -239,6 +285,12 @@ export function Camera() {
                 muted
               />
               
+              {/* False Color */}
+              {ui.showFalseColor && isStreaming && <FalseColorOverlay source={liveFrame} />}
+              
+              {/* Focus Peaking */}
+              {camera.focusPeaking && isStreaming && <FocusPeakingOverlay videoRef={videoRef} />}
+              
               {/* Stream Status Indicator */}
               <div className="absolute top-4 left-4 flex items-center gap-2">
                 <div className={`w-2.5 h-2.5 rounded-full ${isStreaming ? 'bg-[var(--apex-green)] animate-pulse' : 'bg-[var(--apex-red)]'}`} />
@@ -255,6 +307,20 @@ export function Camera() {
               )}
             </div>
             
+            {/* Live Scopes */}
+            {ui.showScopes && (
+              <div className="absolute bottom-4 left-4 w-72 animate-fade-in-up">
+                <Scopes source={isStreaming ? liveFrame : null} />
+              </div>
+            )}
+            
+            {/* False Color Key */}
+            {ui.showFalseColor && (
+              <div className="absolute top-14 right-4 w-56 animate-fade-in-up">
+                <FalseColorLegend />
+              </div>
+            )}
+            
             {/* Countdown Overlay */}
             {countdown !== null && (
               <div className="absolute inset-0 flex items-center justify-center bg-black/60 backdrop-blur-sm">
@@ -289,6 +355,45 @@ export function Camera() {
             <Settings className="w-5 h-5" />
           </button>
           
+          {/* Scopes Toggle */}
+          <button
+            onClick={() => setUIState({ showScopes: !ui.showScopes })}
+            className={`p-3 rounded-xl transition-all duration-200 ${
+              ui.showScopes 
+                ? 'bg-[var(--apex-accent)] text-white shadow-lg shadow-[var(--apex-accent-glow)]' 
+                : 'bg-[var(--apex-bg-hover)] text-[var(--apex-text-muted)] hover:bg-[var(--apex-bg-elevated)] hover:text-[var(--apex-text-primary)]'
+            }`}
+            title="Waveform Scopes [W]"
+          >
+            <Activity className="w-5 h-5" />
+          </button>
+          
+          {/* False Color Toggle */}
+          <button
+            onClick={() => setUIState({ showFalseColor: !ui.showFalseColor })}
+            className={`p-3 rounded-xl transition-all duration-200 ${
+              ui.showFalseColor 
+                ? 'bg-[var(--apex-accent)] text-white shadow-lg shadow-[var(--apex-accent-glow)]' 
+                : 'bg-[var(--apex-bg-hover)] text-[var(--apex-text-muted)] hover:bg-[var(--apex-bg-elevated)] hover:text-[var(--apex-text-primary)]'
+            }`}
+            title="False Color [F]"
+          >
+            <Palette className="w-5 h-5" />
+          </button>
+          
+          {/* Focus Peaking Toggle */}
+          <button
+            onClick={() => setCameraSettings({ focusPeaking: !camera.focusPeaking })}
+            className={`p-3 rounded-xl transition-all duration-200 ${
+              camera.focusPeaking 
+                ? 'bg-[var(--apex-accent)] text-white shadow-lg shadow-[var(--apex-accent-glow)]' 
+                : 'bg-[var(--apex-bg-hover)] text-[var(--apex-text-muted)] hover:bg-[var(--apex-bg-elevated)] hover:text-[var(--apex-text-primary)]'
+            }`}
+            title="Focus Peaking [P]"
+          >
+            <Focus className="w-5 h-5" />
+          </button>
+          
           {/* Timer Selection */}
           <div className="flex items-center gap-1 p-1 rounded-xl bg-[var(--apex-bg-dark)] border border-[var(--apex-border)]">
             <Timer className="w-4 h-4 text-[var(--apex-text-muted)] ml-2" />
@@ -399,6 +504,43 @@ export function Camera() {
                   ))}
                 </select>
               </div>
+              
+              {/* Focus Peaking */}
+              <div className="sm:col-span-2">
+                <label className="block text-xs text-[var(--apex-text-muted)] mb-2 font-medium">
+                  <Focus className="inline w-3 h-3 mr-1" />
+                  Focus Peaking
+                </label>
+                <div className="flex items-center gap-4">
+                  <div className="flex gap-1.5">
+                    {(Object.keys(FOCUS_PEAKING_COLORS) as FocusPeakingColor[]).map(color => (
+                      <button
+                        key={color}
+                        onClick={() => setCameraSettings({ focusPeakingColor: color })}
+                        className={`w-5 h-5 rounded-full border-2 transition-all ${
+                          camera.focusPeakingColor === color
+                            ? 'border-white scale-110'
+                            : 'border-transparent opacity-70 hover:opacity-100'
+                        }`}
+                        style={{ background: `rgb(${FOCUS_PEAKING_COLORS[color].join(', ')})` }}
+                        title={color[0].toUpperCase() + color.slice(1)}
+                      />
+                    ))}
+                  </div>
+                  <span className="text-xs text-[var(--apex-text-dim)]">Sensitivity</span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={camera.focusPeakingSensitivity}
+                    onChange={e => setCameraSettings({ focusPeakingSensitivity: parseInt(e.target.value) })}
+                    className="flex-1 cursor-pointer"
+                  />
+                  <span className="w-6 text-right text-xs font-mono tabular-nums text-[var(--apex-text-muted)]">
+                    {camera.focusPeakingSensitivity}
+                  </span>
+                </div>
+              </div>
             </div>
           </div>
         )}
@@ -0,0 +1,197 @@
+/**
+ * APEX Photo Studio - Channel Mixer Panel Component
+ * 
+ * RGB channel mixer:
+ * - Each output channel as a weighted sum of the red, green and blue inputs
+ * - Constant offset per output
+ * - Monochrome mode (one gray output from the red row)
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import { useImageStore } from '@/hooks/useImageStore';
+import type { ChannelMixerOutput, RGBChannelName } from '@/types';
+
+const CHANNELS: { key: RGBChannelName; label: string; color: string }[] = [
+  { key: 'red', label: 'Red', color: '#ef4444' },
+  { key: 'green', label: 'Green', color: '#22c55e' },
+  { key: 'blue', label: 'Blue', color: '#3b82f6' },
+];
+
+/** Starting gray mix when monochrome is switched on over an untouched red row */
+const MONOCHROME_MIX: ChannelMixerOutput = { red: 40, green: 40, blue: 20, constant: 0 };
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  /** Value that means "no change"; the fill starts here */
+  neutral?: number;
+  color?: string;
+  onChange: (value: number) => void;
+  onChangeEnd?: () => void;
+}
+
+function Slider({ label, value, min, max, neutral = 0, color, onChange, onChangeEnd }: SliderProps) {
+  const percentage = ((value - min) / (max - min)) * 100;
+  const isNeutral = value === neutral;
+  const centerPercent = ((neutral - min) / (max - min)) * 100;
+  
+  return (
+    <div className="mb-3 group">
+      <div className="flex justify-between items-center mb-1.5">
+        <span className="text-[10px] text-[var(--apex-text-muted)] font-medium flex items-center gap-1.5">
+          {color && <span className="w-2 h-2 rounded-full" style={{ background: color }} />}
+          {label}
+        </span>
+        <span className={`text-[10px] font-mono tabular-nums px-1 py-0.5 rounded transition-all ${
+          isNeutral
+            ? 'text-[var(--apex-text-dim)]'
+            : 'text-white bg-white/10'
+        }`}>
+          {value > 0 && min < 0 ? '+' : ''}{value}%
+        </span>
+      </div>
+      
+      <div className="relative h-1.5">
+        <div className="absolute inset-0 rounded-full bg-[var(--apex-bg-dark)] border border-[var(--apex-border)]" />
+        
+        <div
+          className="absolute h-full rounded-full transition-all duration-75"
+          style={{
+            left: `${Math.min(percentage, centerPercent)}%`,
+            width: `${Math.abs(percentage - centerPercent)}%`,
+            background: color ?? 'var(--apex-accent)',
+          }}
+        />
+        
+        <input
+          type="range"
+          min={min}
+          max={max}
+          value={value}
+          onChange={e => onChange(parseFloat(e.target.value))}
+          onMouseUp={() => onChangeEnd?.()}
+          onTouchEnd={() => onChangeEnd?.()}
+          className="absolute inset-0 w-full opacity-0 cursor-pointer"
+        />
+        
+        <div
+          className="absolute w-3 h-3 -translate-y-1/2 top-1/2 -translate-x-1/2 pointer-events-none"
+          style={{ left: `${percentage}%` }}
+        >
+          <div className="w-full h-full rounded-full bg-white border-2 border-[var(--apex-accent)] shadow-sm" />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ChannelMixerPanel() {
+  const { adjustments, setAdjustments, pushHistory } = useImageStore();
+  const debounceRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  const [activeOutput, setActiveOutput] = useState<RGBChannelName>('red');
+  const { channelMixer } = adjustments;
+  
+  // In monochrome the red row is the gray output
+  const output = channelMixer.monochrome ? 'red' : activeOutput;
+  const row = channelMixer[output];
+  const total = row.red + row.green + row.blue;
+  
+  const handleChangeEnd = useCallback(() => {
+    clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(() => {
+      pushHistory();
+    }, 100);
+  }, [pushHistory]);
+  
+  const updateRow = useCallback((key: keyof ChannelMixerOutput, value: number) => {
+    setAdjustments({
+      channelMixer: { ...channelMixer, [output]: { ...channelMixer[output], [key]: value } },
+    });
+  }, [channelMixer, output, setAdjustments]);
+  
+  const setMonochrome = useCallback((monochrome: boolean) => {
+    const { red } = channelMixer;
+    const untouched = red.red === 100 && red.green === 0 && red.blue === 0 && red.constant === 0;
+    setAdjustments({
+      channelMixer: {
+        ...channelMixer,
+        monochrome,
+        red: monochrome && untouched ? { ...MONOCHROME_MIX } : red,
+      },
+    });
+    pushHistory();
+  }, [channelMixer, setAdjustments, pushHistory]);
+  
+  return (
+    <div className="p-3">
+      {/* Output selector */}
+      <div className="flex gap-1 mb-3">
+        {channelMixer.monochrome ? (
+          <div className="flex-1 py-1 rounded text-[10px] text-center bg-[var(--apex-accent-subtle)] text-[var(--apex-accent)]">
+            Gray
+          </div>
+        ) : (
+          CHANNELS.map(({ key, label, color }) => (
+            <button
+              key={key}
+              onClick={() => setActiveOutput(key)}
+              className={`flex-1 flex items-center justify-center gap-1 py-1 rounded text-[10px] transition-all ${
+                key === activeOutput
+                  ? 'bg-[var(--apex-accent-subtle)] text-[var(--apex-accent)]'
+                  : 'text-[var(--apex-text-muted)] hover:text-[var(--apex-text-primary)] hover:bg-[var(--apex-bg-hover)]'
+              }`}
+            >
+              <span className="w-2 h-2 rounded-full" style={{ background: color }} />
+              {label}
+            </button>
+          ))
+        )}
+      </div>
+      
+      {CHANNELS.map(({ key, label, color }) => (
+        <Slider
+          key={key}
+          label={label}
+          value={row[key]}
+          min={-200}
+          max={200}
+          neutral={key === output ? 100 : 0}
+          color={color}
+          onChange={v => updateRow(key, v)}
+          onChangeEnd={handleChangeEnd}
+        />
+      ))}
+      <Slider
+        label="Constant"
+        value={row.constant}
+        min={-100}
+        max={100}
+        onChange={v => updateRow('constant', v)}
+        onChangeEnd={handleChangeEnd}
+      />
+      
+      {/* Weights away from 100% brighten or darken the output overall */}
+      <div className="flex justify-between text-[10px] mb-3">
+        <span className="text-[var(--apex-text-dim)]">Total</span>
+        <span className={`font-mono tabular-nums ${
+          total === 100 ? 'text-[var(--apex-text-dim)]' : 'text-[var(--apex-amber)]'
+        }`}>
+          {total}%
+        </span>
+      </div>
+      
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={channelMixer.monochrome}
+          onChange={e => setMonochrome(e.target.checked)}
+          className="w-3.5 h-3.5 rounded border-[var(--apex-border)] bg-[var(--apex-bg-dark)]
+                     checked:bg-[var(--apex-accent)] checked:border-transparent cursor-pointer"
+        />
+        <span className="text-[10px] text-[var(--apex-text-muted)]">Monochrome</span>
+      </label>
+    </div>
+  );
+}
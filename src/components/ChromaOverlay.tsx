@@ -0,0 +1,74 @@
+/**
+ * APEX Photo Studio - Chroma Overlay Component
+ * 
+ * Vectorscope pixel highlighting:
+ * - Dims everything outside the chroma region picked on the vectorscope
+ * - Tints skin-tone pixels when the skin overlay is on
+ * - Shown only while the vectorscope is open
+ */
+
+import { useEffect, useRef } from 'react';
+import { useImageStore } from '@/hooks/useImageStore';
+import { createChromaSelectionMask, createSkinToneMask } from '@/engine/scopes';
+
+/** Darkening of pixels outside the chroma selection (0-255) */
+const DIM_ALPHA = 170;
+
+/** Opacity of the skin-tone tint (0-255) */
+const SKIN_TINT_ALPHA = 140;
+
+export function ChromaOverlay() {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { image, ui } = useImageStore();
+  const { chromaSelection, showSkinTones } = ui;
+  const { processed } = image;
+  const isVisible = ui.showScopes
+    && ui.scopeMode === 'vectorscope'
+    && (!!chromaSelection || showSkinTones)
+    && !!processed;
+  
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !isVisible || !processed) return;
+    
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    
+    canvas.width = processed.width;
+    canvas.height = processed.height;
+    
+    const selectionMask = chromaSelection ? createChromaSelectionMask(processed, chromaSelection) : null;
+    const skinMask = showSkinTones ? createSkinToneMask(processed) : null;
+    
+    const outputData = ctx.createImageData(processed.width, processed.height);
+    const out = outputData.data;
+    const pixelCount = processed.width * processed.height;
+    
+    for (let i = 0; i < pixelCount; i++) {
+      const idx = i * 4;
+      
+      if (selectionMask && selectionMask[i] === 0) {
+        // Outside the selection - dim
+        out[idx + 3] = DIM_ALPHA;
+      } else if (skinMask && skinMask[i] === 1) {
+        // Skin tone - magenta tint, clear of any skin hue
+        out[idx] = 255;
+        out[idx + 1] = 0;
+        out[idx + 2] = 200;
+        out[idx + 3] = SKIN_TINT_ALPHA;
+      }
+    }
+    
+    ctx.putImageData(outputData, 0, 0);
+  }, [processed, isVisible, chromaSelection, showSkinTones]);
+  
+  if (!isVisible) return null;
+  
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-0 pointer-events-none"
+      style={{ width: '100%', height: '100%' }}
+    />
+  );
+}
@@ -0,0 +1,177 @@
+/**
+ * APEX Photo Studio - Color Grading Panel Component
+ * 
+ * Three-way color grading:
+ * - Shadows, midtones, highlights and global wheels (one shown at a time)
+ * - Hue and saturation on the wheel, luminance on a slider
+ * - Blending (overlap of the tonal ranges) and balance (split point)
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import { useImageStore } from '@/hooks/useImageStore';
+import { ColorWheel } from './ColorWheel';
+import type { GradingRange, GradingWheel } from '@/types';
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  /** Value that means "no change"; the fill starts here */
+  neutral?: number;
+  onChange: (value: number) => void;
+  onChangeEnd?: () => void;
+}
+
+function Slider({ label, value, min, max, neutral = 0, onChange, onChangeEnd }: SliderProps) {
+  const percentage = ((value - min) / (max - min)) * 100;
+  const isNeutral = value === neutral;
+  const centerPercent = ((neutral - min) / (max - min)) * 100;
+  
+  return (
+    <div className="mb-3 group">
+      <div className="flex justify-between items-center mb-1.5">
+        <span className="text-[10px] text-[var(--apex-text-muted)] font-medium">
+          {label}
+        </span>
+        <span className={`text-[10px] font-mono tabular-nums px-1 py-0.5 rounded transition-all ${
+          isNeutral
+            ? 'text-[var(--apex-text-dim)]'
+            : 'text-white bg-white/10'
+        }`}>
+          {neutral === 0 && value > 0 ? '+' : ''}{value}
+        </span>
+      </div>
+      
+      <div className="relative h-1.5">
+        <div className="absolute inset-0 rounded-full bg-[var(--apex-bg-dark)] border border-[var(--apex-border)]" />
+        
+        <div
+          className="absolute h-full rounded-full bg-[var(--apex-accent)] transition-all duration-75"
+          style={{
+            left: `${Math.min(percentage, centerPercent)}%`,
+            width: `${Math.abs(percentage - centerPercent)}%`,
+          }}
+        />
+        
+        <input
+          type="range"
+          min={min}
+          max={max}
+          value={value}
+          onChange={e => onChange(parseFloat(e.target.value))}
+          onMouseUp={() => onChangeEnd?.()}
+          onTouchEnd={() => onChangeEnd?.()}
+          className="absolute inset-0 w-full opacity-0 cursor-pointer"
+        />
+        
+        <div
+          className="absolute w-3 h-3 -translate-y-1/2 top-1/2 -translate-x-1/2 pointer-events-none"
+          style={{ left: `${percentage}%` }}
+        >
+          <div className="w-full h-full rounded-full bg-white border-2 border-[var(--apex-accent)] shadow-sm" />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const RANGES: { range: GradingRange; label: string }[] = [
+  { range: 'shadows', label: 'Shadows' },
+  { range: 'midtones', label: 'Midtones' },
+  { range: 'highlights', label: 'Highlights' },
+  { range: 'global', label: 'Global' },
+];
+
+export function ColorGradingPanel() {
+  const { adjustments, setAdjustments, pushHistory } = useImageStore();
+  const debounceRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  const [activeRange, setActiveRange] = useState<GradingRange>('shadows');
+  const { colorGrading } = adjustments;
+  const wheel = colorGrading[activeRange];
+  
+  const handleChangeEnd = useCallback(() => {
+    clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(() => {
+      pushHistory();
+    }, 100);
+  }, [pushHistory]);
+  
+  const updateWheel = useCallback((range: GradingRange, value: GradingWheel) => {
+    setAdjustments({ colorGrading: { ...colorGrading, [range]: value } });
+  }, [colorGrading, setAdjustments]);
+  
+  const updateGrading = useCallback((key: 'blending' | 'balance', value: number) => {
+    setAdjustments({ colorGrading: { ...colorGrading, [key]: value } });
+  }, [colorGrading, setAdjustments]);
+  
+  return (
+    <div className="p-3">
+      {/* Wheel selector; the dot shows each wheel's tint */}
+      <div className="flex gap-1 mb-3">
+        {RANGES.map(({ range, label }) => {
+          const { hue, saturation, luminance } = colorGrading[range];
+          const isActive = range === activeRange;
+          return (
+            <button
+              key={range}
+              onClick={() => setActiveRange(range)}
+              className={`flex-1 flex items-center justify-center gap-1 py-1 rounded text-[10px] transition-all ${
+                isActive
+                  ? 'bg-[var(--apex-accent-subtle)] text-[var(--apex-accent)]'
+                  : 'text-[var(--apex-text-muted)] hover:text-[var(--apex-text-primary)] hover:bg-[var(--apex-bg-hover)]'
+              }`}
+            >
+              <span
+                className="w-2 h-2 rounded-full border border-white/20"
+                style={{ background: `hsl(${hue}, ${saturation}%, ${50 + luminance / 4}%)` }}
+              />
+              {label}
+            </button>
+          );
+        })}
+      </div>
+      
+      <div className="flex flex-col items-center mb-3">
+        <ColorWheel
+          wheel={wheel}
+          size={136}
+          onChange={value => updateWheel(activeRange, value)}
+          onChangeEnd={handleChangeEnd}
+        />
+        <span className="mt-2 text-[10px] font-mono text-[var(--apex-text-dim)]">
+          {wheel.hue}° / {wheel.saturation}%
+        </span>
+      </div>
+      
+      <Slider
+        label="Luminance"
+        value={wheel.luminance}
+        min={-100}
+        max={100}
+        onChange={v => updateWheel(activeRange, { ...wheel, luminance: v })}
+        onChangeEnd={handleChangeEnd}
+      />
+      
+      <div className="mt-4">
+        <Slider
+          label="Blending"
+          value={colorGrading.blending}
+          min={0}
+          max={100}
+          neutral={50}
+          onChange={v => updateGrading('blending', v)}
+          onChangeEnd={handleChangeEnd}
+        />
+        <Slider
+          label="Balance"
+          value={colorGrading.balance}
+          min={-100}
+          max={100}
+          onChange={v => updateGrading('balance', v)}
+          onChangeEnd={handleChangeEnd}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * APEX Photo Studio - Color Wheel Component
+ * 
+ * Interactive hue / saturation picker for color grading:
+ * - Angle picks the hue (red to the right, counter-clockwise like a vectorscope)
+ * - Distance from the center picks the saturation
+ * - Drag anywhere on the wheel; double-click to reset to neutral
+ */
+
+import { useCallback, useRef } from 'react';
+import type { GradingWheel } from '@/types';
+
+interface ColorWheelProps {
+  wheel: GradingWheel;
+  /** Diameter in pixels */
+  size: number;
+  onChange: (wheel: GradingWheel) => void;
+  onChangeEnd?: () => void;
+}
+
+// Clockwise from the right: hue decreases, so hue grows counter-clockwise
+const HUE_RING = 'conic-gradient(from 90deg, #ff0000, #ff00ff, #0000ff, #00ffff, #00ff00, #ffff00, #ff0000)';
+
+export function ColorWheel({ wheel, size, onChange, onChangeEnd }: ColorWheelProps) {
+  const wheelRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef(false);
+  const radius = size / 2;
+  
+  // Pointer position to hue and saturation
+  const pick = useCallback((e: React.PointerEvent) => {
+    const bounds = wheelRef.current!.getBoundingClientRect();
+    const dx = e.clientX - (bounds.left + bounds.width / 2);
+    const dy = e.clientY - (bounds.top + bounds.height / 2);
+    const hue = (Math.atan2(-dy, dx) * 180 / Math.PI + 360) % 360;
+    const saturation = Math.min(1, Math.hypot(dx, dy) / (bounds.width / 2)) * 100;
+    onChange({ ...wheel, hue: Math.round(hue), saturation: Math.round(saturation) });
+  }, [wheel, onChange]);
+  
+  const handlePointerDown = useCallback((e: React.PointerEvent) => {
+    wheelRef.current?.setPointerCapture(e.pointerId);
+    draggingRef.current = true;
+    pick(e);
+  }, [pick]);
+  
+  const handlePointerMove = useCallback((e: React.PointerEvent) => {
+    if (draggingRef.current) pick(e);
+  }, [pick]);
+  
+  const handlePointerUp = useCallback(() => {
+    if (!draggingRef.current) return;
+    draggingRef.current = false;
+    onChangeEnd?.();
+  }, [onChangeEnd]);
+  
+  const angle = (wheel.hue * Math.PI) / 180;
+  const distance = (wheel.saturation / 100) * radius;
+  const puckX = radius + Math.cos(angle) * distance;
+  const puckY = radius - Math.sin(angle) * distance;
+  
+  return (
+    <div
+      ref={wheelRef}
+      className="relative rounded-full cursor-crosshair touch-none select-none border border-[var(--apex-border)]"
+      style={{ width: size, height: size, background: HUE_RING }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => {
+        onChange({ ...wheel, hue: 0, saturation: 0 });
+        onChangeEnd?.();
+      }}
+      title="Drag to tint; double-click to reset"
+    >
+      {/* Saturation falls off towards the gray center */}
+      <div
+        className="absolute inset-0 rounded-full pointer-events-none"
+        style={{ background: 'radial-gradient(circle closest-side, #808080, rgba(128, 128, 128, 0))' }}
+      />
+      
+      {/* Center crosshair */}
+      <div className="absolute left-1/2 top-1/2 w-2 h-px -translate-x-1/2 bg-white/40 pointer-events-none" />
+      <div className="absolute left-1/2 top-1/2 w-px h-2 -translate-y-1/2 bg-white/40 pointer-events-none" />
+      
+      <div
+        className="absolute w-3.5 h-3.5 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow pointer-events-none"
+        style={{
+          left: puckX,
+          top: puckY,
+          background: `hsl(${wheel.hue}, ${wheel.saturation}%, 50%)`,
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,405 @@
+/**
+ * APEX Photo Studio - Crop & Straighten Tool
+ * 
+ * Interactive crop editing on the Editor canvas:
+ * - Draggable crop box with edge and corner handles
+ * - Aspect ratio presets (free, original, 1:1, 4:5, 3:2, 16:9)
+ * - Straighten ruler: draw along a horizon to level the image
+ * - Composition grid inside the crop box while dragging
+ * 
+ * Edits stay local until Done, which commits them as one history entry.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Check, X, Ruler, RotateCcw, RectangleHorizontal, RectangleVertical } from 'lucide-react';
+import { useImageStore } from '@/hooks/useImageStore';
+import { GridOverlay } from './GridOverlay';
+import {
+  adjustCrop,
+  fitCropToAspect,
+  getStraightenCorrection,
+  normalizeRotation,
+  toNormalizedAspect,
+  type CropHandle,
+  type CropRect,
+} from '@/engine/transforms';
+
+type AspectPreset = 'free' | 'original' | '1:1' | '4:5' | '3:2' | '16:9';
+
+const ASPECT_PRESETS: { id: AspectPreset; label: string; ratio: number | null }[] = [
+  { id: 'free', label: 'Free', ratio: null },
+  { id: 'original', label: 'Original', ratio: null },
+  { id: '1:1', label: '1:1', ratio: 1 },
+  { id: '4:5', label: '4:5', ratio: 4 / 5 },
+  { id: '3:2', label: '3:2', ratio: 3 / 2 },
+  { id: '16:9', label: '16:9', ratio: 16 / 9 },
+];
+
+const HANDLES: { handle: CropHandle; left: string; top: string; cursor: string }[] = [
+  { handle: 'nw', left: '0%', top: '0%', cursor: 'nwse-resize' },
+  { handle: 'n', left: '50%', top: '0%', cursor: 'ns-resize' },
+  { handle: 'ne', left: '100%', top: '0%', cursor: 'nesw-resize' },
+  { handle: 'e', left: '100%', top: '50%', cursor: 'ew-resize' },
+  { handle: 'se', left: '100%', top: '100%', cursor: 'nwse-resize' },
+  { handle: 's', left: '50%', top: '100%', cursor: 'ns-resize' },
+  { handle: 'sw', left: '0%', top: '100%', cursor: 'nesw-resize' },
+  { handle: 'w', left: '0%', top: '50%', cursor: 'ew-resize' },
+];
+
+/**
+ * Preset matching a stored ratio in either orientation
+ */
+function findPreset(ratio: number | null): AspectPreset {
+  if (ratio === null) return 'free';
+  const match = ASPECT_PRESETS.find(p =>
+    p.ratio !== null && (Math.abs(p.ratio - ratio) < 1e-3 || Math.abs(1 / p.ratio - ratio) < 1e-3)
+  );
+  return match?.id ?? 'original';
+}
+
+/** Shortest ruler line (in frame pixels) that counts as a straighten gesture */
+const MIN_RULER_LENGTH = 10;
+
+interface DragState {
+  handle: CropHandle;
+  startX: number;
+  startY: number;
+  startRect: CropRect;
+}
+
+interface RulerLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+interface CropToolProps {
+  /** Displayed (uncropped) frame width in pixels */
+  frameWidth: number;
+  /** Displayed (uncropped) frame height in pixels */
+  frameHeight: number;
+  /** Element the tool bar is rendered into (outside the zoomed canvas) */
+  toolbarContainer: HTMLElement | null;
+}
+
+export function CropTool({ frameWidth, frameHeight, toolbarContainer }: CropToolProps) {
+  const { image, adjustments, ui, setAdjustments, setUIState, pushHistory } = useImageStore();
+  const overlayRef = useRef<HTMLDivElement>(null);
+  
+  // Transform when the tool opened, restored on cancel
+  const [initialTransform] = useState(() => adjustments.transform);
+  const [rect, setRect] = useState<CropRect>(() => {
+    const { x, y, width, height } = adjustments.transform.crop;
+    return { x, y, width, height };
+  });
+  const [aspectRatio, setAspectRatio] = useState<number | null>(
+    () => adjustments.transform.crop.aspectRatio
+  );
+  const [preset, setPreset] = useState<AspectPreset>(
+    () => findPreset(adjustments.transform.crop.aspectRatio)
+  );
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [isStraightening, setIsStraightening] = useState(false);
+  const [ruler, setRuler] = useState<RulerLine | null>(null);
+  
+  const normalizedAspect = aspectRatio === null
+    ? null
+    : toNormalizedAspect(aspectRatio, frameWidth, frameHeight);
+  
+  // Pointer position in normalized frame coordinates
+  const toFrame = useCallback((e: React.PointerEvent) => {
+    const bounds = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: (e.clientX - bounds.left) / bounds.width,
+      y: (e.clientY - bounds.top) / bounds.height,
+    };
+  }, []);
+  
+  // ==========================================================================
+  // Aspect ratio
+  // ==========================================================================
+  
+  const applyAspect = useCallback((ratio: number | null) => {
+    setAspectRatio(ratio);
+    if (ratio !== null) {
+      setRect(current => fitCropToAspect(current, toNormalizedAspect(ratio, frameWidth, frameHeight)));
+    }
+  }, [frameWidth, frameHeight]);
+  
+  const selectPreset = useCallback((id: AspectPreset) => {
+    setPreset(id);
+    
+    if (id === 'original') {
+      // Quarter turns swap the original's orientation
+      const original = image.original;
+      if (!original) return;
+      const quarterTurn = Math.abs(Math.abs(adjustments.transform.rotation) - 90) < 45;
+      applyAspect(quarterTurn
+        ? original.height / original.width
+        : original.width / original.height);
+      return;
+    }
+    
+    const ratio = ASPECT_PRESETS.find(p => p.id === id)?.ratio ?? null;
+    
+    // Keep the current box orientation when picking a ratio
+    const isPortrait = rect.width * frameWidth < rect.height * frameHeight;
+    const oriented = ratio !== null && ratio !== 1 && isPortrait !== ratio < 1 ? 1 / ratio : ratio;
+    applyAspect(oriented);
+  }, [image.original, adjustments.transform.rotation, rect, frameWidth, frameHeight, applyAspect]);
+  
+  const swapOrientation = useCallback(() => {
+    if (aspectRatio === null || aspectRatio === 1) return;
+    applyAspect(1 / aspectRatio);
+  }, [aspectRatio, applyAspect]);
+  
+  // ==========================================================================
+  // Pointer interaction
+  // ==========================================================================
+  
+  const startDrag = useCallback((handle: CropHandle) => (e: React.PointerEvent) => {
+    if (isStraightening) return;
+    e.stopPropagation();
+    overlayRef.current?.setPointerCapture(e.pointerId);
+    const { x, y } = toFrame(e);
+    setDrag({ handle, startX: x, startY: y, startRect: rect });
+  }, [isStraightening, rect, toFrame]);
+  
+  const handlePointerDown = useCallback((e: React.PointerEvent) => {
+    if (!isStraightening) return;
+    overlayRef.current?.setPointerCapture(e.pointerId);
+    const { x, y } = toFrame(e);
+    setRuler({ x1: x, y1: y, x2: x, y2: y });
+  }, [isStraightening, toFrame]);
+  
+  const handlePointerMove = useCallback((e: React.PointerEvent) => {
+    const { x, y } = toFrame(e);
+    
+    if (ruler) {
+      setRuler({ ...ruler, x2: x, y2: y });
+    } else if (drag) {
+      setRect(adjustCrop(
+        drag.startRect,
+        drag.handle,
+        x - drag.startX,
+        y - drag.startY,
+        normalizedAspect
+      ));
+    }
+  }, [ruler, drag, normalizedAspect, toFrame]);
+  
+  const handlePointerUp = useCallback(() => {
+    if (ruler) {
+      const dx = (ruler.x2 - ruler.x1) * frameWidth;
+      const dy = (ruler.y2 - ruler.y1) * frameHeight;
+      
+      if (Math.hypot(dx, dy) >= MIN_RULER_LENGTH) {
+        // Rotation previews live; it is committed together with the crop
+        const { transform } = adjustments;
+        setAdjustments({
+          transform: {
+            ...transform,
+            rotation: normalizeRotation(transform.rotation + getStraightenCorrection(dx, dy, transform)),
+          },
+        });
+        setIsStraightening(false);
+      }
+      setRuler(null);
+    }
+    setDrag(null);
+  }, [ruler, frameWidth, frameHeight, adjustments, setAdjustments]);
+  
+  // ==========================================================================
+  // Commit / cancel
+  // ==========================================================================
+  
+  const commit = useCallback(() => {
+    setAdjustments({
+      transform: {
+        ...adjustments.transform,
+        crop: { ...rect, aspectRatio },
+      },
+    });
+    pushHistory();
+    setUIState({ isCropping: false });
+  }, [adjustments.transform, rect, aspectRatio, setAdjustments, pushHistory, setUIState]);
+  
+  const cancel = useCallback(() => {
+    setAdjustments({ transform: initialTransform });
+    setUIState({ isCropping: false });
+  }, [initialTransform, setAdjustments, setUIState]);
+  
+  const reset = useCallback(() => {
+    setRect({ x: 0, y: 0, width: 1, height: 1 });
+    setAspectRatio(null);
+    setPreset('free');
+    setAdjustments({ transform: { ...adjustments.transform, rotation: 0 } });
+  }, [adjustments.transform, setAdjustments]);
+  
+  // Enter commits, Escape cancels
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        commit();
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        cancel();
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [commit, cancel]);
+  
+  // Handles keep their on-screen size regardless of zoom
+  const handleSize = 12 / ui.zoom;
+  const gridType = ui.gridType === 'none' ? 'thirds' : ui.gridType;
+  const isLocked = aspectRatio !== null;
+  
+  const toolbar = (
+    <div
+      className="absolute top-4 left-1/2 -translate-x-1/2 z-30 glass rounded-lg px-2 py-1.5 flex items-center gap-1 animate-fade-in-up"
+      onMouseDown={e => e.stopPropagation()}
+    >
+      {ASPECT_PRESETS.map(({ id, label }) => (
+        <button
+          key={id}
+          onClick={() => selectPreset(id)}
+          className={`px-2 py-1 text-xs rounded-md transition-all ${
+            preset === id
+              ? 'bg-[var(--apex-accent-subtle)] text-[var(--apex-accent)]'
+              : 'text-[var(--apex-text-muted)] hover:text-[var(--apex-text-primary)] hover:bg-[var(--apex-bg-hover)]'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+      
+      <button
+        onClick={swapOrientation}
+        disabled={!isLocked || aspectRatio === 1}
+        className="btn-icon disabled:opacity-30 disabled:cursor-not-allowed"
+        title="Swap orientation"
+      >
+        {aspectRatio !== null && aspectRatio < 1
+          ? <RectangleVertical className="w-4 h-4" />
+          : <RectangleHorizontal className="w-4 h-4" />}
+      </button>
+      
+      <div className="w-px h-5 bg-[var(--apex-border)] mx-1" />
+      
+      <button
+        onClick={() => setIsStraightening(!isStraightening)}
+        className={`btn-icon ${isStraightening ? 'btn-icon-active' : ''}`}
+        title="Straighten: draw along a horizon"
+      >
+        <Ruler className="w-4 h-4" />
+      </button>
+      <span className="text-xs font-mono tabular-nums text-[var(--apex-text-secondary)] w-12 text-center">
+        {adjustments.transform.rotation.toFixed(1)}°
+      </span>
+      <button onClick={reset} className="btn-icon" title="Reset crop & angle">
+        <RotateCcw className="w-4 h-4" />
+      </button>
+      
+      <div className="w-px h-5 bg-[var(--apex-border)] mx-1" />
+      
+      <button onClick={cancel} className="btn-icon" title="Cancel (Esc)">
+        <X className="w-4 h-4" />
+      </button>
+      <button onClick={commit} className="btn-icon btn-icon-active" title="Done (Enter)">
+        <Check className="w-4 h-4" />
+      </button>
+    </div>
+  );
+  
+  return (
+    <>
+      <div
+        ref={overlayRef}
+        className="absolute inset-0 z-20 touch-none"
+        style={{ cursor: isStraightening ? 'crosshair' : 'default' }}
+        onMouseDown={e => e.stopPropagation()}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {/* Dim everything outside the crop box */}
+        <svg
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          viewBox="0 0 1 1"
+          preserveAspectRatio="none"
+        >
+          <path
+            fillRule="evenodd"
+            fill="rgba(0, 0, 0, 0.55)"
+            d={`M0 0H1V1H0Z M${rect.x} ${rect.y}V${rect.y + rect.height}H${rect.x + rect.width}V${rect.y}Z`}
+          />
+        </svg>
+        
+        {/* Crop box */}
+        <div
+          className="absolute border border-white/90"
+          style={{
+            left: `${rect.x * 100}%`,
+            top: `${rect.y * 100}%`,
+            width: `${rect.width * 100}%`,
+            height: `${rect.height * 100}%`,
+            cursor: isStraightening ? 'crosshair' : 'move',
+            boxShadow: '0 0 0 1px rgba(0, 0, 0, 0.3)',
+          }}
+          onPointerDown={startDrag('move')}
+        >
+          {drag && (
+            <GridOverlay
+              width={rect.width * frameWidth}
+              height={rect.height * frameHeight}
+              type={gridType}
+            />
+          )}
+          
+          {!isStraightening && HANDLES.map(({ handle, left, top, cursor }) => (
+            <div
+              key={handle}
+              className="absolute bg-white rounded-sm shadow"
+              style={{
+                left,
+                top,
+                width: handleSize,
+                height: handleSize,
+                transform: 'translate(-50%, -50%)',
+                cursor,
+              }}
+              onPointerDown={startDrag(handle)}
+            />
+          ))}
+        </div>
+        
+        {/* Straighten ruler */}
+        {ruler && (
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            viewBox="0 0 1 1"
+            preserveAspectRatio="none"
+          >
+            <line
+              x1={ruler.x1}
+              y1={ruler.y1}
+              x2={ruler.x2}
+              y2={ruler.y2}
+              stroke="var(--apex-accent)"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+        )}
+      </div>
+      
+      {toolbarContainer && createPortal(toolbar, toolbarContainer)}
+    </>
+  );
+}
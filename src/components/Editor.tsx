@@ -4,45 +4,74 @@
  * Main image editing workspace with:
  * - Image preview canvas with premium shadow
  * - Zoom and pan with custom cursors
- * - Before/after comparison
- * - Grid and zebra overlays
- * - Real-time processing
+ * - Before/after comparison (in the edit's crop and rotation)
+ * - Grid, zebra and false color overlays
+ * - Sharpness map for checking focus
+ * - Crop & straighten tool
+ * - Gradient mask handles and brush painting
+ * - Mask coverage overlay
+ * - Real-time processing (off the main thread)
+ * - Preview proxy while editing, refined to full resolution on pause
  */
 
-import { useEffect, useRef, useCallback, useState } from 'react';
+import { useEffect, useRef, useCallback, useState, useMemo } from 'react';
 import { useImageStore } from '@/hooks/useImageStore';
-import { processImage } from '@/engine/imageProcessing';
+import { useImageProcessor } from '@/hooks/useImageProcessor';
+import { applyTransforms } from '@/engine/transforms';
 import { GridOverlay } from './GridOverlay';
 import { ZebraOverlay } from './ZebraOverlay';
+import { ChromaOverlay } from './ChromaOverlay';
+import { FalseColorOverlay } from './FalseColorOverlay';
+import { FalseColorLegend } from './FalseColorLegend';
+import { SharpnessMapOverlay } from './SharpnessMapOverlay';
+import { CropTool } from './CropTool';
+import { MaskOverlay } from './MaskOverlay';
+import { MaskCoverageOverlay } from './MaskCoverageOverlay';
+import { SpotOverlay } from './SpotOverlay';
 import { ImagePlus, Upload } from 'lucide-react';
 
 export function Editor() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const containerRef = useRef<HTMLDivElement>(null);
-  const processingRef = useRef(false);
+  const [container, setContainer] = useState<HTMLDivElement | null>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
   const [isDragging, setIsDragging] = useState(false);
   const dragStartRef = useRef({ x: 0, y: 0 });
   
   const { 
-    image, setProcessedImage, 
-    adjustments, 
+    image, 
+    adjustments,
     ui, setUIState 
   } = useImageStore();
   
-  // Process image when adjustments change
+  // Process image in a worker when adjustments change.
+  // The crop tool needs the whole frame around its crop box.
+  const renderError = useImageProcessor({ fullFrame: ui.isCropping });
+  
+  // Report the viewport so the store can size the preview proxy
   useEffect(() => {
-    if (!image.original || processingRef.current) return;
-    
-    processingRef.current = true;
+    if (!container) return;
     
-    // Use requestAnimationFrame for smoother updates
-    requestAnimationFrame(() => {
-      const processed = processImage(image.original!, adjustments);
-      setProcessedImage(processed);
-      processingRef.current = false;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setUIState({ viewportSize: { width: Math.round(width), height: Math.round(height) } });
     });
-  }, [adjustments, image.original, setProcessedImage]);
+    observer.observe(container);
+    
+    return () => observer.disconnect();
+  }, [container, setUIState]);
+  
+  // "Before" view shares the edit's geometry so both halves line up.
+  // It is built from the same buffer (proxy or original) as the shown render.
+  // Keyed by value: setAdjustments rebuilds the transform object on every change.
+  const isComparing = ui.comparisonMode === 'split-vertical' && !ui.isCropping;
+  const transformKey = JSON.stringify(adjustments.transform);
+  const beforeSource = image.processedScale === 1
+    ? image.original
+    : image.processedScale === image.proxyScale ? image.proxy : null;
+  const beforeImage = useMemo(() => {
+    if (!isComparing || !beforeSource) return null;
+    return applyTransforms(beforeSource, JSON.parse(transformKey));
+  }, [isComparing, beforeSource, transformKey]);
   
   // Render processed image to canvas
   useEffect(() => {
@@ -56,11 +85,15 @@ export function Editor() {
     canvas.height = image.processed.height;
     
     // Draw based on comparison mode
-    if (ui.comparisonMode === 'split-vertical' && image.original) {
+    if (
+      isComparing && beforeImage &&
+      beforeImage.width === image.processed.width &&
+      beforeImage.height === image.processed.height
+    ) {
       const splitX = Math.round(image.processed.width * ui.comparisonPosition);
       
       // Draw original on left
-      ctx.putImageData(image.original, 0, 0);
+      ctx.putImageData(beforeImage, 0, 0);
       
       // Draw processed on right
       ctx.save();
@@ -81,11 +114,12 @@ export function Editor() {
       ctx.putImageData(image.processed, 0, 0);
     }
     
+    // Lay out at full-resolution size whichever buffer is shown
     setDimensions({
-      width: image.processed.width,
-      height: image.processed.height,
+      width: Math.round(image.processed.width / image.processedScale),
+      height: Math.round(image.processed.height / image.processedScale),
     });
-  }, [image.processed, image.original, ui.comparisonMode, ui.comparisonPosition]);
+  }, [image.processed, image.processedScale, beforeImage, isComparing, ui.comparisonPosition]);
   
   // Handle mouse events for pan and comparison
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
@@ -157,7 +191,7 @@ export function Editor() {
   
   return (
     <div 
-      ref={containerRef}
+      ref={setContainer}
       className="flex-1 overflow-hidden bg-[var(--apex-bg-darkest)] checkerboard flex items-center justify-center relative"
       onMouseDown={handleMouseDown}
       onMouseMove={handleMouseMove}
@@ -178,17 +212,32 @@ export function Editor() {
           ref={canvasRef}
           className="max-w-full max-h-full rounded-sm"
           style={{ 
+            width: dimensions.width || undefined,
             imageRendering: ui.zoom > 1 ? 'pixelated' : 'auto',
             boxShadow: '0 25px 80px -20px rgba(0, 0, 0, 0.8), 0 0 1px rgba(255,255,255,0.1)'
           }}
         />
         
         {/* Overlays */}
-        <GridOverlay width={dimensions.width} height={dimensions.height} />
+        {ui.showFalseColor && !ui.isCropping && <FalseColorOverlay source={image.processed} />}
+        {!ui.isCropping && <SharpnessMapOverlay />}
+        {!ui.isCropping && <GridOverlay width={dimensions.width} height={dimensions.height} />}
         <ZebraOverlay width={dimensions.width} height={dimensions.height} />
+        {!ui.isCropping && <ChromaOverlay />}
+        {!ui.isCropping && <MaskCoverageOverlay />}
+        {!ui.isCropping && <SpotOverlay width={dimensions.width} height={dimensions.height} />}
+        {!ui.isCropping && <MaskOverlay width={dimensions.width} height={dimensions.height} />}
+        
+        {ui.isCropping && (
+          <CropTool
+            frameWidth={dimensions.width}
+            frameHeight={dimensions.height}
+            toolbarContainer={container}
+          />
+        )}
         
         {/* Comparison mode labels */}
-        {ui.comparisonMode === 'split-vertical' && (
+        {isComparing && (
           <>
             <div className="absolute top-3 left-3 glass px-2.5 py-1 rounded-md text-xs font-medium text-white/90">
               Before
@@ -200,6 +249,23 @@ export function Editor() {
         )}
       </div>
       
+      {/* False color key */}
+      {ui.showFalseColor && !ui.isCropping && (
+        <div
+          className="absolute top-4 left-4 w-56 animate-fade-in-up"
+          onMouseDown={e => e.stopPropagation()}
+        >
+          <FalseColorLegend />
+        </div>
+      )}
+      
+      {/* Failed render; the canvas keeps the last good one */}
+      {renderError && (
+        <div className="absolute top-4 right-4 max-w-xs glass px-3 py-2 rounded-lg text-xs text-[var(--apex-red)] animate-fade-in-up">
+          Render failed: {renderError}
+        </div>
+      )}
+      
       {/* Image info overlay */}
       <div className="absolute bottom-4 left-4 glass px-3 py-2 rounded-lg animate-fade-in-up">
         <div className="flex items-center gap-3 text-xs">
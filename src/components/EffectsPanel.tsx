@@ -3,13 +3,14 @@
  * 
  * Creative effects including:
  * - Vignette (amount, midpoint, roundness, feather)
- * - Film Grain (amount, size, roughness, monochrome)
+ * - Film Grain (amount, size, roughness, monochrome, re-roll)
  * - Dehaze
- * - Split Toning (shadows/highlights colorization)
+ * 
+ * Split toning became part of color grading (see ColorGradingPanel).
  */
 
 import { useState, useCallback, useRef } from 'react';
-import { Sparkles, ChevronDown, Sun, Moon } from 'lucide-react';
+import { Sparkles, ChevronDown, Sun, Dices } from 'lucide-react';
 import { useImageStore } from '@/hooks/useImageStore';
 
 interface SliderProps {
@@ -85,88 +86,6 @@ function Slider({ label, value, min, max, step = 1, unit = '', onChange, onChang
   );
 }
 
-interface HueSliderProps {
-  label: string;
-  value: number;
-  saturation: number;
-  onChange: (value: number) => void;
-  onSatChange: (value: number) => void;
-}
-
-function HueSlider({ label, value, saturation, onChange, onSatChange }: HueSliderProps) {
-  const huePercentage = (value / 360) * 100;
-  const satPercentage = saturation;
-  
-  // Generate hue gradient
-  const hueGradient = 'linear-gradient(to right, #ff0000, #ffff00, #00ff00, #00ffff, #0000ff, #ff00ff, #ff0000)';
-  
-  // Get current color
-  const currentColor = `hsl(${value}, ${saturation}%, 50%)`;
-  
-  return (
-    <div className="mb-3">
-      <div className="flex justify-between items-center mb-1.5">
-        <span className="text-[10px] text-[var(--apex-text-muted)] font-medium flex items-center gap-1.5">
-          {label}
-          <span 
-            className="w-2.5 h-2.5 rounded-full border border-white/20" 
-            style={{ background: currentColor }}
-          />
-        </span>
-        <span className="text-[10px] font-mono text-[var(--apex-text-dim)]">
-          {value}° / {saturation}%
-        </span>
-      </div>
-      
-      {/* Hue slider */}
-      <div className="relative h-2 rounded-full overflow-hidden mb-2">
-        <div 
-          className="absolute inset-0 rounded-full"
-          style={{ background: hueGradient }}
-        />
-        <input
-          type="range"
-          min={0}
-          max={360}
-          value={value}
-          onChange={e => onChange(parseInt(e.target.value))}
-          className="absolute inset-0 w-full opacity-0 cursor-pointer"
-        />
-        <div 
-          className="absolute w-3 h-3 -translate-y-1/2 top-1/2 -translate-x-1/2 pointer-events-none"
-          style={{ left: `${huePercentage}%` }}
-        >
-          <div className="w-full h-full rounded-full bg-white border-2 border-black/30 shadow-sm" />
-        </div>
-      </div>
-      
-      {/* Saturation slider */}
-      <div className="relative h-1.5">
-        <div 
-          className="absolute inset-0 rounded-full"
-          style={{ 
-            background: `linear-gradient(to right, hsl(${value}, 0%, 50%), hsl(${value}, 100%, 50%))` 
-          }}
-        />
-        <input
-          type="range"
-          min={0}
-          max={100}
-          value={saturation}
-          onChange={e => onSatChange(parseInt(e.target.value))}
-          className="absolute inset-0 w-full opacity-0 cursor-pointer"
-        />
-        <div 
-          className="absolute w-2.5 h-2.5 -translate-y-1/2 top-1/2 -translate-x-1/2 pointer-events-none"
-          style={{ left: `${satPercentage}%` }}
-        >
-          <div className="w-full h-full rounded-full bg-white border-2 border-black/30 shadow-sm" />
-        </div>
-      </div>
-    </div>
-  );
-}
-
 interface SectionProps {
   title: string;
   icon: React.ReactNode;
@@ -205,7 +124,6 @@ export function EffectsPanel() {
     vignette: true,
     grain: false,
     dehaze: false,
-    splitToning: false,
   });
   
   const { adjustments, setAdjustments, pushHistory } = useImageStore();
@@ -228,19 +146,18 @@ export function EffectsPanel() {
     });
   }, [adjustments.effects, setAdjustments]);
   
-  const updateSplitToning = useCallback((key: string, value: number) => {
+  // New random grain pattern; the seed is saved with the edit
+  const rerollGrain = useCallback(() => {
     setAdjustments({
-      splitToning: { ...adjustments.splitToning, [key]: value },
+      effects: { ...adjustments.effects, grainSeed: Math.floor(Math.random() * 0x100000000) },
     });
-  }, [adjustments.splitToning, setAdjustments]);
+    pushHistory();
+  }, [adjustments.effects, setAdjustments, pushHistory]);
   
   // Check for changes
   const hasVignetteChanges = adjustments.effects.vignetteAmount !== 0;
   const hasGrainChanges = adjustments.effects.grainAmount > 0;
   const hasDehazeChanges = adjustments.effects.dehaze !== 0;
-  const hasSplitToningChanges = 
-    adjustments.splitToning.highlightSaturation > 0 || 
-    adjustments.splitToning.shadowSaturation > 0;
   
   return (
     <div className="p-3">
@@ -335,6 +252,15 @@ export function EffectsPanel() {
           />
           <span className="text-[10px] text-[var(--apex-text-muted)]">Monochrome</span>
         </label>
+        <button
+          onClick={rerollGrain}
+          className="flex items-center gap-1.5 mt-2 px-2 py-1 rounded-md text-[10px] text-[var(--apex-text-muted)]
+                     hover:text-[var(--apex-text-primary)] hover:bg-[var(--apex-bg-hover)] transition-colors"
+          title="Generate a new grain pattern"
+        >
+          <Dices className="w-3 h-3" />
+          Re-roll grain
+        </button>
       </Section>
       
       {/* Dehaze */}
@@ -356,47 +282,6 @@ export function EffectsPanel() {
           Positive values remove haze, negative values add atmospheric effect.
         </p>
       </Section>
-      
-      {/* Split Toning */}
-      <Section
-        title={`Split Toning${hasSplitToningChanges ? ' •' : ''}`}
-        icon={<Moon className="w-3.5 h-3.5" />}
-        isOpen={openSections.splitToning}
-        onToggle={() => toggleSection('splitToning')}
-      >
-        <div className="mb-3">
-          <span className="text-[10px] text-[var(--apex-text-secondary)] font-medium">Highlights</span>
-        </div>
-        <HueSlider
-          label="Highlight Color"
-          value={adjustments.splitToning.highlightHue}
-          saturation={adjustments.splitToning.highlightSaturation}
-          onChange={v => updateSplitToning('highlightHue', v)}
-          onSatChange={v => updateSplitToning('highlightSaturation', v)}
-        />
-        
-        <div className="mb-3 mt-4">
-          <span className="text-[10px] text-[var(--apex-text-secondary)] font-medium">Shadows</span>
-        </div>
-        <HueSlider
-          label="Shadow Color"
-          value={adjustments.splitToning.shadowHue}
-          saturation={adjustments.splitToning.shadowSaturation}
-          onChange={v => updateSplitToning('shadowHue', v)}
-          onSatChange={v => updateSplitToning('shadowSaturation', v)}
-        />
-        
-        <div className="mt-4">
-          <Slider
-            label="Balance"
-            value={adjustments.splitToning.balance}
-            min={-100}
-            max={100}
-            onChange={v => updateSplitToning('balance', v)}
-            onChangeEnd={handleChangeEnd}
-          />
-        </div>
-      </Section>
     </div>
   );
 }
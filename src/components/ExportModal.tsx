@@ -2,18 +2,28 @@
  * APEX Photo Studio - Export Modal Component
  * 
  * Export dialog with:
- * - Format selection (JPEG, PNG, WebP)
+ * - Format selection (JPEG, PNG, WebP, or the edit's look as a .cube LUT)
  * - Quality slider
  * - Resolution presets
+ * - LUT lattice size (17, 33 or 65 points)
  * - Download functionality
+ * 
+ * Images are rendered from the original at full resolution, in tiles,
+ * by a processing worker of their own, so the editor stays responsive
+ * and the button shows real progress.
  */
 
 import { useState, useCallback, useMemo } from 'react';
-import { Download, X, Image, FileImage, Sparkles } from 'lucide-react';
+import { Download, X, Image, FileImage, Sparkles, Blend } from 'lucide-react';
 import { useImageStore } from '@/hooks/useImageStore';
+import { bakeColorLut } from '@/engine/imageProcessing';
+import { createProcessingService } from '@/engine/processingService';
+import { EXPORT_LUT_SIZES, formatCubeLut, hasLutAdjustment } from '@/engine/lut';
 import { saveAs } from 'file-saver';
 
-type ExportFormat = 'jpeg' | 'png' | 'webp';
+type ExportFormat = 'jpeg' | 'png' | 'webp' | 'cube';
+
+type LutSize = typeof EXPORT_LUT_SIZES[number];
 
 interface Resolution {
   label: string;
@@ -38,15 +48,21 @@ interface ExportModalProps {
 }
 
 export function ExportModal({ isOpen, onClose }: ExportModalProps) {
-  const { image } = useImageStore();
+  const { image, adjustments, luts, ui } = useImageStore();
   const [format, setFormat] = useState<ExportFormat>('jpeg');
   const [quality, setQuality] = useState(90);
   const [resolutionIndex, setResolutionIndex] = useState(0);
+  const [lutSize, setLutSize] = useState<LutSize>(33);
   const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const isLut = format === 'cube';
+  
+  // While cropping, the crop box is not in the settings yet
+  const isCropping = !isLut && ui.isCropping;
   
   // Get current image dimensions
-  const originalWidth = image.processed?.width || 0;
-  const originalHeight = image.processed?.height || 0;
+  const originalWidth = Math.round((image.processed?.width || 0) / image.processedScale);
+  const originalHeight = Math.round((image.processed?.height || 0) / image.processedScale);
   
   // Calculate output dimensions
   const outputDimensions = useMemo(() => {
@@ -79,7 +95,10 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
   const estimatedSize = useMemo(() => {
     const pixels = outputDimensions.width * outputDimensions.height;
     
-    if (format === 'png') {
+    if (format === 'cube') {
+      // One line of three 6-decimal values per lattice point
+      return lutSize ** 3 * 27;
+    } else if (format === 'png') {
       // PNG is lossless, roughly 3 bytes per pixel (compressed)
       return pixels * 0.5;
     } else if (format === 'webp') {
@@ -89,7 +108,7 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
       // JPEG estimation
       return pixels * 3 * (quality / 100) * 0.2;
     }
-  }, [format, quality, outputDimensions]);
+  }, [format, quality, outputDimensions, lutSize]);
   
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return `${bytes} B`;
@@ -97,31 +116,71 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
   };
   
+  const handleExportLut = useCallback(async () => {
+    setIsExporting(true);
+    
+    try {
+      // Let the spinner paint; a 65-point lattice takes a moment
+      await new Promise(resolve => setTimeout(resolve, 0));
+      
+      const baseName = image.fileName?.replace(/\.[^.]+$/, '') || 'apex-export';
+      const colorLut = hasLutAdjustment(adjustments.lut) ? luts[adjustments.lut.id!] ?? null : null;
+      const lut = bakeColorLut(adjustments, colorLut, lutSize, `${baseName} look`);
+      const blob = new Blob([formatCubeLut(lut)], { type: 'text/plain' });
+      saveAs(blob, `${baseName}-${lutSize}.cube`);
+      
+      onClose();
+    } catch (error) {
+      console.error('LUT export failed:', error);
+    } finally {
+      setIsExporting(false);
+    }
+  }, [image.fileName, adjustments, luts, lutSize, onClose]);
+  
   const handleExport = useCallback(async () => {
-    if (!image.processed) return;
+    if (isLut) {
+      await handleExportLut();
+      return;
+    }
+    if (!image.original || isCropping) return;
     
     setIsExporting(true);
+    setProgress(0);
+    
+    const service = createProcessingService(() => {});
     
     try {
+      // The worker needs the pixels and tables the edit refers to
+      service.setSource(image.original);
+      for (const [id, layerImage] of Object.entries(image.layerImages)) {
+        service.setLayerSource(id, layerImage);
+      }
+      if (hasLutAdjustment(adjustments.lut) && luts[adjustments.lut.id!]) {
+        service.setLut(adjustments.lut.id!, luts[adjustments.lut.id!]);
+      }
+      
+      const rendered = await service.exportImage(adjustments, setProgress);
+      const size = RESOLUTIONS[resolutionIndex].width ? outputDimensions : rendered;
+      
       // Create a canvas with the output dimensions
       const canvas = document.createElement('canvas');
-      canvas.width = outputDimensions.width;
-      canvas.height = outputDimensions.height;
+      canvas.width = size.width;
+      canvas.height = size.height;
       const ctx = canvas.getContext('2d')!;
       
       // If we need to resize, we need to draw the image scaled
-      if (outputDimensions.width !== originalWidth || outputDimensions.height !== originalHeight) {
-        // Create temp canvas with original image
+      if (size.width !== rendered.width || size.height !== rendered.height) {
+        // Create temp canvas with the full-resolution render
         const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = originalWidth;
-        tempCanvas.height = originalHeight;
+        tempCanvas.width = rendered.width;
+        tempCanvas.height = rendered.height;
         const tempCtx = tempCanvas.getContext('2d')!;
-        tempCtx.putImageData(image.processed, 0, 0);
+        tempCtx.putImageData(rendered, 0, 0);
         
         // Draw scaled to output canvas
-        ctx.drawImage(tempCanvas, 0, 0, outputDimensions.width, outputDimensions.height);
+        ctx.drawImage(tempCanvas, 0, 0, size.width, size.height);
       } else {
-        ctx.putImageData(image.processed, 0, 0);
+        ctx.putImageData(rendered, 0, 0);
       }
       
       // Get mime type
@@ -141,7 +200,7 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
       // Generate filename
       const baseName = image.fileName?.replace(/\.[^.]+$/, '') || 'apex-export';
       const extension = format === 'jpeg' ? 'jpg' : format;
-      const fileName = `${baseName}-${outputDimensions.width}x${outputDimensions.height}.${extension}`;
+      const fileName = `${baseName}-${size.width}x${size.height}.${extension}`;
       
       // Download
       saveAs(blob, fileName);
@@ -150,9 +209,10 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
     } catch (error) {
       console.error('Export failed:', error);
     } finally {
+      service.dispose();
       setIsExporting(false);
     }
-  }, [image, format, quality, outputDimensions, originalWidth, originalHeight, onClose]);
+  }, [image, adjustments, luts, isLut, isCropping, format, quality, resolutionIndex, outputDimensions, onClose, handleExportLut]);
   
   if (!isOpen) return null;
   
@@ -195,7 +255,7 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
               Format
             </label>
             <div className="flex gap-2">
-              {(['jpeg', 'png', 'webp'] as ExportFormat[]).map(f => (
+              {(['jpeg', 'png', 'webp', 'cube'] as ExportFormat[]).map(f => (
                 <button
                   key={f}
                   onClick={() => setFormat(f)}
@@ -208,14 +268,42 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
                   {f === 'jpeg' && <Image className="w-3.5 h-3.5" />}
                   {f === 'png' && <FileImage className="w-3.5 h-3.5" />}
                   {f === 'webp' && <Sparkles className="w-3.5 h-3.5" />}
+                  {f === 'cube' && <Blend className="w-3.5 h-3.5" />}
                   <span className="text-xs font-medium uppercase">{f}</span>
                 </button>
               ))}
             </div>
           </div>
           
+          {/* LUT lattice size; the look excludes vignette, grain, dehaze and detail */}
+          {isLut && (
+            <div>
+              <label className="text-[10px] text-[var(--apex-text-secondary)] font-medium uppercase tracking-wider mb-2 block">
+                LUT Size
+              </label>
+              <div className="flex gap-2">
+                {EXPORT_LUT_SIZES.map(size => (
+                  <button
+                    key={size}
+                    onClick={() => setLutSize(size)}
+                    className={`flex-1 py-2 px-3 rounded-lg transition-all text-xs font-medium ${
+                      lutSize === size
+                        ? 'bg-[var(--apex-accent)] text-white'
+                        : 'bg-[var(--apex-bg-dark)] text-[var(--apex-text-muted)] hover:bg-[var(--apex-bg-hover)]'
+                    }`}
+                  >
+                    {size}³
+                  </button>
+                ))}
+              </div>
+              <p className="text-[10px] text-[var(--apex-text-dim)] mt-2">
+                Color and tone only: effects, detail, masks and layers are not included.
+              </p>
+            </div>
+          )}
+          
           {/* Quality Slider (for lossy formats) */}
-          {format !== 'png' && (
+          {format !== 'png' && !isLut && (
             <div>
               <div className="flex justify-between items-center mb-2">
                 <label className="text-[10px] text-[var(--apex-text-secondary)] font-medium uppercase tracking-wider">
@@ -243,29 +331,33 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
           )}
           
           {/* Resolution */}
-          <div>
-            <label className="text-[10px] text-[var(--apex-text-secondary)] font-medium uppercase tracking-wider mb-2 block">
-              Resolution
-            </label>
-            <select
-              value={resolutionIndex}
-              onChange={e => setResolutionIndex(parseInt(e.target.value))}
-              className="w-full py-2 px-3 rounded-lg bg-[var(--apex-bg-dark)] border border-[var(--apex-border)]
-                         text-xs text-[var(--apex-text-primary)] cursor-pointer
-                         focus:outline-none focus:border-[var(--apex-accent)]"
-            >
-              {RESOLUTIONS.map((res, i) => (
-                <option key={i} value={i}>{res.label}</option>
-              ))}
-            </select>
-          </div>
+          {!isLut && (
+            <div>
+              <label className="text-[10px] text-[var(--apex-text-secondary)] font-medium uppercase tracking-wider mb-2 block">
+                Resolution
+              </label>
+              <select
+                value={resolutionIndex}
+                onChange={e => setResolutionIndex(parseInt(e.target.value))}
+                className="w-full py-2 px-3 rounded-lg bg-[var(--apex-bg-dark)] border border-[var(--apex-border)]
+                           text-xs text-[var(--apex-text-primary)] cursor-pointer
+                           focus:outline-none focus:border-[var(--apex-accent)]"
+              >
+                {RESOLUTIONS.map((res, i) => (
+                  <option key={i} value={i}>{res.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
           
           {/* Output Info */}
           <div className="bg-[var(--apex-bg-dark)] rounded-lg p-3">
             <div className="flex justify-between text-xs mb-1">
               <span className="text-[var(--apex-text-muted)]">Output size:</span>
               <span className="text-[var(--apex-text-primary)] font-mono">
-                {outputDimensions.width} × {outputDimensions.height} px
+                {isLut
+                  ? `${lutSize ** 3} points`
+                  : `${outputDimensions.width} × ${outputDimensions.height} px`}
               </span>
             </div>
             <div className="flex justify-between text-xs">
@@ -288,7 +380,7 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
           </button>
           <button
             onClick={handleExport}
-            disabled={isExporting || !image.processed}
+            disabled={isExporting || isCropping || (!isLut && !image.original)}
             className="flex-1 py-2.5 rounded-lg bg-gradient-to-r from-cyan-500 to-blue-600 text-white
                        text-xs font-semibold hover:opacity-90 transition-opacity disabled:opacity-50
                        flex items-center justify-center gap-2"
@@ -296,8 +388,10 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
             {isExporting ? (
               <>
                 <span className="w-3.5 h-3.5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                Exporting...
+                {isLut ? 'Exporting...' : `Exporting... ${Math.round(progress * 100)}%`}
               </>
+            ) : isCropping ? (
+              'Apply or cancel the crop first'
             ) : (
               <>
                 <Download className="w-3.5 h-3.5" />
@@ -0,0 +1,135 @@
+/**
+ * APEX Photo Studio - False Color Legend Component
+ * 
+ * Key for the false color overlay:
+ * - Palette selector (preset ramps or custom)
+ * - Band colors with their IRE ranges
+ * - Editable thresholds for the custom palette
+ */
+
+import { useCallback, useMemo } from 'react';
+import { X } from 'lucide-react';
+import { useImageStore } from '@/hooks/useImageStore';
+import {
+  FALSE_COLOR_PRESETS,
+  copyFalseColorBands,
+  getFalseColorBands,
+  setFalseColorThreshold,
+} from '@/engine/falseColor';
+import type { FalseColorPalette } from '@/types';
+
+const PALETTES: { palette: FalseColorPalette; label: string }[] = [
+  ...FALSE_COLOR_PRESETS.map(({ palette, label }) => ({ palette, label })),
+  { palette: 'custom', label: 'Custom' },
+];
+
+interface FalseColorLegendProps {
+  className?: string;
+}
+
+export function FalseColorLegend({ className = '' }: FalseColorLegendProps) {
+  const { ui, setUIState } = useImageStore();
+  const { falseColorPalette, falseColorBands } = ui;
+  const isCustom = falseColorPalette === 'custom';
+  
+  const bands = useMemo(
+    () => getFalseColorBands(falseColorPalette, falseColorBands),
+    [falseColorPalette, falseColorBands]
+  );
+  
+  // Custom bands start from the ramp on screen the first time
+  const selectPalette = useCallback((palette: FalseColorPalette) => {
+    if (palette === 'custom' && falseColorBands.length === 0) {
+      setUIState({ falseColorPalette: palette, falseColorBands: copyFalseColorBands(bands) });
+    } else {
+      setUIState({ falseColorPalette: palette });
+    }
+  }, [bands, falseColorBands, setUIState]);
+  
+  const updateThreshold = useCallback((index: number, value: number) => {
+    if (Number.isNaN(value)) return;
+    setUIState({ falseColorBands: setFalseColorThreshold(bands, index, value) });
+  }, [bands, setUIState]);
+  
+  return (
+    <div className={`glass rounded-xl p-3 ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-semibold text-[var(--apex-text-secondary)]">False Color</span>
+        <button
+          onClick={() => setUIState({ showFalseColor: false })}
+          className="p-0.5 rounded text-[var(--apex-text-muted)] hover:text-[var(--apex-text-primary)] hover:bg-[var(--apex-bg-hover)]"
+          title="Hide False Color [F]"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      
+      {/* Palette selector */}
+      <div className="flex gap-0.5 p-0.5 mb-3 rounded-md bg-[var(--apex-bg-dark)] border border-[var(--apex-border)]">
+        {PALETTES.map(({ palette, label }) => (
+          <button
+            key={palette}
+            onClick={() => selectPalette(palette)}
+            className={`flex-1 px-1.5 py-0.5 rounded text-[10px] font-medium transition-all ${
+              falseColorPalette === palette
+                ? 'bg-[var(--apex-accent-subtle)] text-[var(--apex-accent)]'
+                : 'text-[var(--apex-text-muted)] hover:text-[var(--apex-text-primary)]'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      
+      {/* Bands, brightest first like a scope */}
+      <div className="space-y-1">
+        {bands.map((band, index) => ({ band, index })).reverse().map(({ band, index }) => {
+          const from = index > 0 ? bands[index - 1].upTo : 0;
+          const isLast = index === bands.length - 1;
+          
+          return (
+            <div key={index} className="flex items-center gap-2 text-[10px]">
+              <span
+                className="w-3 h-3 rounded-sm border border-white/20 shrink-0"
+                style={{
+                  background: band.color
+                    ? `rgb(${band.color.join(', ')})`
+                    : 'linear-gradient(to right, #333, #bbb)',
+                }}
+              />
+              <span className="flex-1 truncate text-[var(--apex-text-muted)]">{band.label}</span>
+              <span className="font-mono tabular-nums text-[var(--apex-text-dim)]">{from}–</span>
+              {isCustom && !isLast ? (
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={0.5}
+                  value={band.upTo}
+                  onChange={e => updateThreshold(index, parseFloat(e.target.value))}
+                  className="w-12 px-1 py-0.5 rounded bg-[var(--apex-bg-dark)] border border-[var(--apex-border)]
+                             font-mono tabular-nums text-right text-[var(--apex-text-primary)]"
+                  title="Upper bound (IRE)"
+                />
+              ) : (
+                <span className="w-12 text-right font-mono tabular-nums text-[var(--apex-text-dim)]">
+                  {band.upTo}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      
+      {isCustom && (
+        <button
+          onClick={() => setUIState({ falseColorBands: copyFalseColorBands(getFalseColorBands('standard', [])) })}
+          className="mt-3 text-[10px] text-[var(--apex-text-muted)] hover:text-[var(--apex-text-primary)]"
+        >
+          Reset to Standard
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+/**
+ * APEX Photo Studio - False Color Overlay Component
+ * 
+ * Full-frame exposure false color:
+ * - Covers the image with the selected palette's luminance bands
+ * - Renders any source: the processed image or sampled camera frames
+ * - Stretched over its positioned parent like the other overlays
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import { useImageStore } from '@/hooks/useImageStore';
+import { applyFalseColor, getFalseColorBands } from '@/engine/falseColor';
+
+interface FalseColorOverlayProps {
+  /** Image to map; nothing is drawn while null */
+  source: ImageData | null;
+}
+
+export function FalseColorOverlay({ source }: FalseColorOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { ui } = useImageStore();
+  const { falseColorPalette, falseColorBands } = ui;
+  
+  const bands = useMemo(
+    () => getFalseColorBands(falseColorPalette, falseColorBands),
+    [falseColorPalette, falseColorBands]
+  );
+  
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !source) return;
+    
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    
+    if (canvas.width !== source.width || canvas.height !== source.height) {
+      canvas.width = source.width;
+      canvas.height = source.height;
+    }
+    
+    ctx.putImageData(applyFalseColor(source, bands), 0, 0);
+  }, [source, bands]);
+  
+  if (!source) return null;
+  
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-0 pointer-events-none"
+      style={{ width: '100%', height: '100%' }}
+    />
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * APEX Photo Studio - Focus Peaking Overlay Component
+ * 
+ * Live focusing aid over the camera preview:
+ * - Marks high-contrast (in-focus) edges in the chosen color
+ * - Sensitivity from the camera settings
+ * - Analyzes downscaled frames on an animation-frame loop
+ */
+
+import { useEffect, useRef } from 'react';
+import { useImageStore } from '@/hooks/useImageStore';
+import { createFocusPeakingImage } from '@/engine/focus';
+
+/** Widest frame analyzed; fine enough to show focus on a full-width preview */
+const PEAKING_FRAME_WIDTH = 960;
+
+/** Milliseconds between analyzed frames (about 15 per second) */
+const PEAKING_FRAME_INTERVAL = 66;
+
+interface FocusPeakingOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+}
+
+export function FocusPeakingOverlay({ videoRef }: FocusPeakingOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { camera } = useImageStore();
+  const { focusPeakingColor, focusPeakingSensitivity } = camera;
+  
+  useEffect(() => {
+    const sampleCanvas = document.createElement('canvas');
+    const sampleCtx = sampleCanvas.getContext('2d', { willReadFrequently: true });
+    let frameId = 0;
+    let lastFrame = 0;
+    
+    const analyze = (time: number) => {
+      frameId = requestAnimationFrame(analyze);
+      if (time - lastFrame < PEAKING_FRAME_INTERVAL) return;
+      lastFrame = time;
+      
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!video || !canvas || !ctx || !sampleCtx || video.videoWidth === 0) return;
+      
+      const width = Math.min(video.videoWidth, PEAKING_FRAME_WIDTH);
+      const height = Math.max(1, Math.round((width * video.videoHeight) / video.videoWidth));
+      if (sampleCanvas.width !== width || sampleCanvas.height !== height) {
+        sampleCanvas.width = width;
+        sampleCanvas.height = height;
+        canvas.width = width;
+        canvas.height = height;
+      }
+      
+      sampleCtx.drawImage(video, 0, 0, width, height);
+      const frame = sampleCtx.getImageData(0, 0, width, height);
+      ctx.putImageData(createFocusPeakingImage(frame, focusPeakingColor, focusPeakingSensitivity), 0, 0);
+    };
+    
+    frameId = requestAnimationFrame(analyze);
+    return () => cancelAnimationFrame(frameId);
+  }, [videoRef, focusPeakingColor, focusPeakingSensitivity]);
+  
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-0 pointer-events-none"
+      style={{ width: '100%', height: '100%' }}
+    />
+  );
+}
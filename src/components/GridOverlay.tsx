@@ -9,16 +9,20 @@
  */
 
 import { useImageStore } from '@/hooks/useImageStore';
+import type { GridType } from '@/types';
 
 interface GridOverlayProps {
   width: number;
   height: number;
+  /** Grid to draw instead of the one selected in the UI */
+  type?: GridType;
 }
 
-export function GridOverlay({ width, height }: GridOverlayProps) {
+export function GridOverlay({ width, height, type }: GridOverlayProps) {
   const { ui } = useImageStore();
+  const gridType = type ?? ui.gridType;
   
-  if (ui.gridType === 'none' || width === 0 || height === 0) {
+  if (gridType === 'none' || width === 0 || height === 0) {
     return null;
   }
   
@@ -82,10 +86,10 @@ export function GridOverlay({ width, height }: GridOverlayProps) {
       viewBox={`0 0 ${width} ${height}`}
       preserveAspectRatio="none"
     >
-      {ui.gridType === 'thirds' && renderThirds()}
-      {ui.gridType === 'golden' && renderGolden()}
-      {ui.gridType === 'diagonal' && renderDiagonal()}
-      {ui.gridType === 'center' && renderCenter()}
+      {gridType === 'thirds' && renderThirds()}
+      {gridType === 'golden' && renderGolden()}
+      {gridType === 'diagonal' && renderDiagonal()}
+      {gridType === 'center' && renderCenter()}
     </svg>
   );
 }
@@ -5,20 +5,99 @@
  * - Individual R, G, B channel display
  * - Glassmorphism container
  * - Animated clipping indicators
+ * - Corner triangles that toggle the shadow / highlight clipping overlay,
+ *   colored by the channels that clip
+ * - Per-channel clipped percentages
  */
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useMemo, useRef } from 'react';
 import { useImageStore } from '@/hooks/useImageStore';
-import { calculateHistogramFast, renderHistogram } from '@/engine/histogram';
+import { calculateHistogramFast, detectClipping, renderHistogram } from '@/engine/histogram';
 import { AlertTriangle } from 'lucide-react';
+import type { ChannelClipping } from '@/types';
 
 interface HistogramProps {
   className?: string;
 }
 
+/** Clipped share (percent) a channel needs to color its triangle */
+const TRIANGLE_MIN_CLIPPING = 0.01;
+
+/**
+ * Triangle color: the mix of clipping channels, dim gray when none clip
+ */
+function getTriangleColor(clipping: ChannelClipping | undefined): string {
+  if (!clipping) return 'rgba(255, 255, 255, 0.2)';
+  
+  const r = clipping.r >= TRIANGLE_MIN_CLIPPING;
+  const g = clipping.g >= TRIANGLE_MIN_CLIPPING;
+  const b = clipping.b >= TRIANGLE_MIN_CLIPPING;
+  if (!r && !g && !b) return 'rgba(255, 255, 255, 0.2)';
+  
+  return `rgb(${r ? 255 : 60}, ${g ? 255 : 60}, ${b ? 255 : 60})`;
+}
+
+function formatClipping(value: number): string {
+  if (value === 0) return '0';
+  return value < 0.1 ? '<0.1' : value.toFixed(1);
+}
+
+interface ClippingTriangleProps {
+  side: 'left' | 'right';
+  color: string;
+  active: boolean;
+  title: string;
+  onClick: () => void;
+}
+
+function ClippingTriangle({ side, color, active, title, onClick }: ClippingTriangleProps) {
+  return (
+    <button
+      onClick={onClick}
+      className={`absolute top-1 ${side === 'left' ? 'left-1' : 'right-1'} p-0.5 rounded transition-all ${
+        active ? 'bg-white/15' : 'hover:bg-white/10'
+      }`}
+      title={title}
+    >
+      <svg viewBox="0 0 10 10" className="w-2.5 h-2.5 block">
+        <polygon
+          points="5,1 9.5,9 0.5,9"
+          fill={color}
+          stroke={active ? 'white' : 'none'}
+          strokeWidth={1}
+        />
+      </svg>
+    </button>
+  );
+}
+
 export function Histogram({ className = '' }: HistogramProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const { image, histogram, setHistogram } = useImageStore();
+  const { image, histogram, setHistogram, ui, setUIState } = useImageStore();
+  const { zebraThreshold } = ui;
+  
+  // Clipping uses the zebra thresholds so the readout matches the overlay;
+  // sampled like the histogram itself, since it reruns on every render
+  const clipping = useMemo(
+    () => (image.processed ? detectClipping(image.processed, zebraThreshold.high, zebraThreshold.low, 2) : null),
+    [image.processed, zebraThreshold]
+  );
+  
+  const showHighlights = ui.showZebras && ui.zebraHighlights;
+  const showShadows = ui.showZebras && ui.zebraShadows;
+  
+  // Each triangle toggles its own half of the zebra overlay
+  const toggleClipping = (kind: 'highlights' | 'shadows') => {
+    const highlights = kind === 'highlights' ? !showHighlights : showHighlights;
+    const shadows = kind === 'shadows' ? !showShadows : showShadows;
+    
+    if (!highlights && !shadows) {
+      // Both off: hide the overlay and let the zebra toggle show both again
+      setUIState({ showZebras: false, zebraHighlights: true, zebraShadows: true });
+    } else {
+      setUIState({ showZebras: true, zebraHighlights: highlights, zebraShadows: shadows });
+    }
+  };
   
   // Calculate histogram when processed image changes
   useEffect(() => {
@@ -84,6 +163,22 @@ export function Histogram({ className = '' }: HistogramProps) {
         
         {/* Corner highlights */}
         <div className="absolute top-0 left-0 w-6 h-6 bg-gradient-to-br from-white/5 to-transparent pointer-events-none" />
+        
+        {/* Clipping triangles */}
+        <ClippingTriangle
+          side="left"
+          color={getTriangleColor(clipping?.shadowChannels)}
+          active={showShadows}
+          title="Show Shadow Clipping"
+          onClick={() => toggleClipping('shadows')}
+        />
+        <ClippingTriangle
+          side="right"
+          color={getTriangleColor(clipping?.highlightChannels)}
+          active={showHighlights}
+          title="Show Highlight Clipping"
+          onClick={() => toggleClipping('highlights')}
+        />
       </div>
       
       {/* Channel indicators */}
@@ -101,6 +196,34 @@ export function Histogram({ className = '' }: HistogramProps) {
           <span className="text-[10px] font-medium text-[var(--apex-text-dim)] group-hover:text-[var(--apex-text-muted)] transition-colors">Blue</span>
         </div>
       </div>
+      
+      {/* Clipped pixels per channel */}
+      {clipping && (
+        <div className="grid grid-cols-[auto_1fr_1fr_1fr] gap-x-3 gap-y-0.5 mt-3 text-[10px] font-mono tabular-nums">
+          <span />
+          <span className="text-right text-red-400/80">R</span>
+          <span className="text-right text-green-400/80">G</span>
+          <span className="text-right text-blue-400/80">B</span>
+          {([
+            ['Shadows', clipping.shadowChannels],
+            ['Highlights', clipping.highlightChannels],
+          ] as const).map(([label, channels]) => (
+            <div key={label} className="contents">
+              <span className="font-sans text-[var(--apex-text-dim)]">{label}</span>
+              {(['r', 'g', 'b'] as const).map(channel => (
+                <span
+                  key={channel}
+                  className={`text-right ${
+                    channels[channel] > 0 ? 'text-[var(--apex-text-secondary)]' : 'text-[var(--apex-text-dim)]'
+                  }`}
+                >
+                  {formatClipping(channels[channel])}%
+                </span>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,452 @@
+/**
+ * APEX Photo Studio - Layers Panel Component
+ * 
+ * Layer stack over the edited original:
+ * - Add image layers (from a file) and adjustment layers
+ * - Layer list, top first, with select, show/hide, reorder and delete
+ * - Blend mode and opacity of the selected layer
+ * - Layer mask drawn with the mask tools, plus invert and range controls
+ * - Exposure, tone and color of adjustment layers
+ */
+
+import { useCallback, useRef } from 'react';
+import { Eye, EyeOff, Trash2, ChevronUp, ChevronDown, ImagePlus, SlidersHorizontal } from 'lucide-react';
+import { useImageStore } from '@/hooks/useImageStore';
+import { createLayer } from '@/engine/layers';
+import { createMask } from '@/engine/masks';
+import { RangeControls } from './MaskPanel';
+import type { AdjustmentLayer, BlendMode, Layer, LayerAdjustments, MaskType } from '@/types';
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  unit?: string;
+  /** Value that means "no change"; the fill starts here */
+  neutral?: number;
+  onChange: (value: number) => void;
+  onChangeEnd?: () => void;
+}
+
+function Slider({ label, value, min, max, step = 1, unit = '', neutral = 0, onChange, onChangeEnd }: SliderProps) {
+  const percentage = ((value - min) / (max - min)) * 100;
+  const isNeutral = value === neutral;
+  const centerPercent = ((neutral - min) / (max - min)) * 100;
+  
+  return (
+    <div className="mb-3 group">
+      <div className="flex justify-between items-center mb-1.5">
+        <span className="text-[10px] text-[var(--apex-text-muted)] font-medium">
+          {label}
+        </span>
+        <span className={`text-[10px] font-mono tabular-nums px-1 py-0.5 rounded transition-all ${
+          isNeutral
+            ? 'text-[var(--apex-text-dim)]'
+            : 'text-white bg-white/10'
+        }`}>
+          {neutral === 0 && value > 0 ? '+' : ''}{value}{unit}
+        </span>
+      </div>
+      
+      <div className="relative h-1.5">
+        <div className="absolute inset-0 rounded-full bg-[var(--apex-bg-dark)] border border-[var(--apex-border)]" />
+        
+        <div
+          className="absolute h-full rounded-full bg-[var(--apex-accent)] transition-all duration-75"
+          style={{
+            left: `${Math.min(percentage, centerPercent)}%`,
+            width: `${Math.abs(percentage - centerPercent)}%`,
+          }}
+        />
+        
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={value}
+          onChange={e => onChange(parseFloat(e.target.value))}
+          onMouseUp={() => onChangeEnd?.()}
+          onTouchEnd={() => onChangeEnd?.()}
+          className="absolute inset-0 w-full opacity-0 cursor-pointer"
+        />
+        
+        <div
+          className="absolute w-3 h-3 -translate-y-1/2 top-1/2 -translate-x-1/2 pointer-events-none"
+          style={{ left: `${percentage}%` }}
+        >
+          <div className="w-full h-full rounded-full bg-white border-2 border-[var(--apex-accent)] shadow-sm" />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const BLEND_MODES: { mode: BlendMode; label: string }[] = [
+  { mode: 'normal', label: 'Normal' },
+  { mode: 'multiply', label: 'Multiply' },
+  { mode: 'screen', label: 'Screen' },
+  { mode: 'overlay', label: 'Overlay' },
+  { mode: 'soft-light', label: 'Soft Light' },
+  { mode: 'luminosity', label: 'Luminosity' },
+  { mode: 'color', label: 'Color' },
+];
+
+const MASK_TYPES: { type: MaskType; label: string }[] = [
+  { type: 'linear', label: 'Linear' },
+  { type: 'radial', label: 'Radial' },
+  { type: 'brush', label: 'Brush' },
+  { type: 'luminance', label: 'Luminance' },
+  { type: 'color', label: 'Color' },
+];
+
+type LayerGroup = 'basic' | 'color' | 'detail' | 'effects';
+
+interface LayerSlider {
+  group: LayerGroup;
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step?: number;
+  unit?: string;
+  neutral?: number;
+}
+
+const LAYER_SLIDERS: LayerSlider[] = [
+  { group: 'basic', key: 'exposure', label: 'Exposure', min: -5, max: 5, step: 0.01, unit: ' EV' },
+  { group: 'basic', key: 'contrast', label: 'Contrast', min: -100, max: 100 },
+  { group: 'basic', key: 'highlights', label: 'Highlights', min: -100, max: 100 },
+  { group: 'basic', key: 'shadows', label: 'Shadows', min: -100, max: 100 },
+  { group: 'color', key: 'temperature', label: 'Temperature', min: 2000, max: 12000, step: 50, unit: 'K', neutral: 6500 },
+  { group: 'color', key: 'tint', label: 'Tint', min: -100, max: 100 },
+  { group: 'color', key: 'vibrance', label: 'Vibrance', min: -100, max: 100 },
+  { group: 'color', key: 'saturation', label: 'Saturation', min: -100, max: 100 },
+  { group: 'detail', key: 'clarity', label: 'Clarity', min: -100, max: 100 },
+  { group: 'effects', key: 'dehaze', label: 'Dehaze', min: -100, max: 100 },
+];
+
+/**
+ * Read an image file into pixels
+ */
+function loadImageFile(file: File): Promise<ImageData> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new window.Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d')!;
+      ctx.drawImage(img, 0, 0);
+      URL.revokeObjectURL(url);
+      resolve(ctx.getImageData(0, 0, img.width, img.height));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not read ${file.name}`));
+    };
+    img.src = url;
+  });
+}
+
+export function LayersPanel() {
+  const { image, adjustments, setAdjustments, setLayerImage, pushHistory, ui, setUIState } = useImageStore();
+  const debounceRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { layers } = adjustments;
+  const activeLayer = layers.find(layer => layer.id === ui.activeLayerId) ?? null;
+  
+  const handleChangeEnd = useCallback(() => {
+    clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(() => {
+      pushHistory();
+    }, 100);
+  }, [pushHistory]);
+  
+  const updateLayer = useCallback((id: string, changes: Partial<Layer>) => {
+    setAdjustments({
+      layers: layers.map(layer => layer.id === id ? { ...layer, ...changes } as Layer : layer),
+    });
+  }, [layers, setAdjustments]);
+  
+  const selectLayer = useCallback((id: string | null) => {
+    setUIState({ activeLayerId: id, activeMaskId: null, maskTool: null });
+  }, [setUIState]);
+  
+  const addLayer = useCallback((layer: Layer) => {
+    setAdjustments({ layers: [...layers, layer] });
+    selectLayer(layer.id);
+    pushHistory();
+  }, [layers, setAdjustments, selectLayer, pushHistory]);
+  
+  const handleFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    
+    try {
+      const pixels = await loadImageFile(file);
+      const layer = { ...createLayer('image', layers), name: file.name };
+      // Pixels first, so the render that includes the layer can find them
+      setLayerImage(layer.id, pixels);
+      addLayer(layer);
+    } catch (error) {
+      console.error('Failed to load layer image:', error);
+    }
+  }, [layers, setLayerImage, addLayer]);
+  
+  const deleteLayer = useCallback((layer: Layer) => {
+    // Image pixels stay in the store until no history entry can restore the layer
+    setAdjustments({ layers: layers.filter(l => l.id !== layer.id) });
+    if (ui.activeLayerId === layer.id) selectLayer(null);
+    pushHistory();
+  }, [layers, ui.activeLayerId, setAdjustments, selectLayer, pushHistory]);
+  
+  const moveLayer = useCallback((index: number, direction: 1 | -1) => {
+    const target = index + direction;
+    if (target < 0 || target >= layers.length) return;
+    const reordered = layers.slice();
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setAdjustments({ layers: reordered });
+    pushHistory();
+  }, [layers, setAdjustments, pushHistory]);
+  
+  const addMask = useCallback((type: MaskType) => {
+    if (!activeLayer) return;
+    
+    // Shapes are drawn on the canvas; ranges are added right away
+    if (type === 'linear' || type === 'radial' || type === 'brush') {
+      setUIState({ maskTool: ui.maskTool === type ? null : type, spotTool: null });
+      return;
+    }
+    updateLayer(activeLayer.id, { mask: createMask(type, []) });
+    pushHistory();
+  }, [activeLayer, ui.maskTool, setUIState, updateLayer, pushHistory]);
+  
+  const updateAdjustment = useCallback((layer: AdjustmentLayer, group: LayerGroup, key: string, value: number) => {
+    const adjustments: LayerAdjustments = {
+      ...layer.adjustments,
+      [group]: { ...layer.adjustments[group], [key]: value },
+    };
+    updateLayer(layer.id, { adjustments });
+  }, [updateLayer]);
+  
+  const buttonClass = (active: boolean) =>
+    `flex-1 flex items-center justify-center gap-1.5 py-1.5 text-xs rounded-md border transition-all ${
+      active
+        ? 'bg-[var(--apex-accent-subtle)] text-[var(--apex-accent)] border-[var(--apex-border-accent)]'
+        : 'text-[var(--apex-text-muted)] border-[var(--apex-border)] hover:text-[var(--apex-text-primary)] hover:bg-[var(--apex-bg-hover)]'
+    }`;
+  
+  const iconButtonClass =
+    'p-0.5 rounded text-[var(--apex-text-dim)] hover:text-[var(--apex-text-primary)] transition-colors disabled:opacity-30';
+  
+  return (
+    <div className="p-3">
+      {/* New layers */}
+      <div className="flex gap-1.5 mb-3">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className={buttonClass(false)}
+          title="Add a picture as a layer, scaled to cover the photo"
+        >
+          <ImagePlus className="w-3.5 h-3.5" />
+          Image
+        </button>
+        <button
+          onClick={() => addLayer(createLayer('adjustment', layers))}
+          className={buttonClass(false)}
+          title="Add a layer that re-adjusts everything below it"
+        >
+          <SlidersHorizontal className="w-3.5 h-3.5" />
+          Adjustment
+        </button>
+        <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFile} className="hidden" />
+      </div>
+      
+      {/* Layer list, top of the stack first */}
+      <div className="space-y-1 mb-4">
+        {layers.map((layer, index) => ({ layer, index })).reverse().map(({ layer, index }) => (
+          <div
+            key={layer.id}
+            onClick={() => selectLayer(layer.id === ui.activeLayerId ? null : layer.id)}
+            className={`flex items-center gap-1.5 px-2 py-1.5 rounded-md cursor-pointer transition-all ${
+              layer.id === ui.activeLayerId
+                ? 'bg-[var(--apex-accent-subtle)] text-[var(--apex-accent)]'
+                : 'text-[var(--apex-text-secondary)] hover:bg-[var(--apex-bg-hover)]'
+            }`}
+          >
+            <span className={`flex-1 text-xs truncate ${layer.visible ? '' : 'opacity-40'}`}>
+              {layer.name}
+              {layer.type === 'image' && !image.layerImages[layer.id] ? ' (missing)' : ''}
+            </span>
+            <button
+              onClick={e => { e.stopPropagation(); moveLayer(index, 1); }}
+              disabled={index === layers.length - 1}
+              className={iconButtonClass}
+              title="Move up"
+            >
+              <ChevronUp className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={e => { e.stopPropagation(); moveLayer(index, -1); }}
+              disabled={index === 0}
+              className={iconButtonClass}
+              title="Move down"
+            >
+              <ChevronDown className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={e => {
+                e.stopPropagation();
+                updateLayer(layer.id, { visible: !layer.visible });
+                pushHistory();
+              }}
+              className={iconButtonClass}
+              title={layer.visible ? 'Hide layer' : 'Show layer'}
+            >
+              {layer.visible ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+            </button>
+            <button
+              onClick={e => { e.stopPropagation(); deleteLayer(layer); }}
+              className="p-0.5 rounded text-[var(--apex-text-dim)] hover:text-[var(--apex-red)] transition-colors"
+              title="Delete layer"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        <div className="px-2 py-1.5 rounded-md text-xs text-[var(--apex-text-dim)]">
+          Background
+        </div>
+      </div>
+      
+      {/* Selected layer */}
+      {activeLayer && (
+        <>
+          <div className="flex items-center justify-between mb-3">
+            <span className="text-[10px] text-[var(--apex-text-muted)] font-medium">Blend</span>
+            <select
+              value={activeLayer.blendMode}
+              onChange={e => {
+                updateLayer(activeLayer.id, { blendMode: e.target.value as BlendMode });
+                pushHistory();
+              }}
+              className="px-2 py-1 text-xs rounded-md bg-[var(--apex-bg-dark)] border border-[var(--apex-border)]
+                         text-[var(--apex-text-primary)] cursor-pointer"
+            >
+              {BLEND_MODES.map(({ mode, label }) => (
+                <option key={mode} value={mode}>{label}</option>
+              ))}
+            </select>
+          </div>
+          
+          <Slider
+            label="Opacity"
+            value={activeLayer.opacity}
+            min={0}
+            max={100}
+            unit="%"
+            onChange={v => updateLayer(activeLayer.id, { opacity: v })}
+            onChangeEnd={handleChangeEnd}
+          />
+          
+          {/* Layer mask */}
+          <div className="flex items-center justify-between mt-4 mb-2">
+            <span className="text-[10px] font-semibold uppercase tracking-wider text-[var(--apex-text-dim)]">
+              Mask
+            </span>
+            {activeLayer.mask && (
+              <button
+                onClick={() => {
+                  updateLayer(activeLayer.id, { mask: null });
+                  pushHistory();
+                }}
+                className="p-0.5 rounded text-[var(--apex-text-dim)] hover:text-[var(--apex-red)] transition-colors"
+                title="Remove mask"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-1 mb-3">
+            {MASK_TYPES.map(({ type, label }) => (
+              <button
+                key={type}
+                onClick={() => addMask(type)}
+                className={`px-1.5 py-0.5 rounded text-[10px] transition-all ${
+                  ui.maskTool === type || (!ui.maskTool && activeLayer.mask?.type === type)
+                    ? 'bg-[var(--apex-accent-subtle)] text-[var(--apex-accent)]'
+                    : 'text-[var(--apex-text-muted)] hover:text-[var(--apex-text-primary)] hover:bg-[var(--apex-bg-hover)]'
+                }`}
+                title={`Use a ${label.toLowerCase()} mask`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {activeLayer.mask && (
+            <>
+              <label className="flex items-center gap-2 mb-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={activeLayer.mask.invert}
+                  onChange={e => {
+                    updateLayer(activeLayer.id, { mask: { ...activeLayer.mask!, invert: e.target.checked } });
+                    pushHistory();
+                  }}
+                  className="w-3.5 h-3.5 rounded border-[var(--apex-border)] bg-[var(--apex-bg-dark)]
+                             checked:bg-[var(--apex-accent)] checked:border-transparent cursor-pointer"
+                />
+                <span className="text-[10px] text-[var(--apex-text-muted)]">Invert</span>
+              </label>
+              <label className="flex items-center gap-2 mb-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={ui.showMaskOverlay}
+                  onChange={e => setUIState({ showMaskOverlay: e.target.checked })}
+                  className="w-3.5 h-3.5 rounded border-[var(--apex-border)] bg-[var(--apex-bg-dark)]
+                             checked:bg-[var(--apex-accent)] checked:border-transparent cursor-pointer"
+                />
+                <span className="text-[10px] text-[var(--apex-text-muted)]">Show overlay</span>
+              </label>
+              {(activeLayer.mask.type === 'luminance' || activeLayer.mask.type === 'color') && (
+                <RangeControls
+                  range={activeLayer.mask}
+                  onChange={range => updateLayer(activeLayer.id, { mask: { ...activeLayer.mask!, ...range } })}
+                  onChangeEnd={handleChangeEnd}
+                />
+              )}
+            </>
+          )}
+          
+          {/* Adjustment layer settings */}
+          {activeLayer.type === 'adjustment' && (
+            <>
+              <div className="mt-4 mb-2 text-[10px] font-semibold uppercase tracking-wider text-[var(--apex-text-dim)]">
+                Adjustments
+              </div>
+              {LAYER_SLIDERS.map(({ group, key, label, min, max, step, unit, neutral }) => (
+                <Slider
+                  key={`${group}.${key}`}
+                  label={label}
+                  value={(activeLayer.adjustments[group] as unknown as Record<string, number>)[key]}
+                  min={min}
+                  max={max}
+                  step={step}
+                  unit={unit}
+                  neutral={neutral}
+                  onChange={v => updateAdjustment(activeLayer, group, key, v)}
+                  onChangeEnd={handleChangeEnd}
+                />
+              ))}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * APEX Photo Studio - LUT Panel Component
+ * 
+ * Color looks from .cube files:
+ * - Import 1D and 3D .cube LUTs into a local library
+ * - Pick a LUT from the library (click again to turn it off)
+ * - Amount slider blending the look with the unaltered colors
+ * - Delete LUTs from the library
+ * 
+ * The library is kept in the browser (see utils/lutLibrary); the
+ * adjustments only store the id of the LUT in use.
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import { FileUp, Trash2 } from 'lucide-react';
+import { useImageStore } from '@/hooks/useImageStore';
+import { parseCubeLut } from '@/engine/lut';
+import { saveLutToLibrary, deleteLutFromLibrary } from '@/utils/lutLibrary';
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  unit?: string;
+  onChange: (value: number) => void;
+  onChangeEnd?: () => void;
+}
+
+function Slider({ label, value, min, max, unit = '', onChange, onChangeEnd }: SliderProps) {
+  const percentage = ((value - min) / (max - min)) * 100;
+  
+  return (
+    <div className="mb-3 group">
+      <div className="flex justify-between items-center mb-1.5">
+        <span className="text-[10px] text-[var(--apex-text-muted)] font-medium">
+          {label}
+        </span>
+        <span className="text-[10px] font-mono tabular-nums px-1 py-0.5 rounded text-white bg-white/10">
+          {value}{unit}
+        </span>
+      </div>
+      
+      <div className="relative h-1.5">
+        <div className="absolute inset-0 rounded-full bg-[var(--apex-bg-dark)] border border-[var(--apex-border)]" />
+        
+        <div
+          className="absolute h-full rounded-full bg-[var(--apex-accent)] transition-all duration-75"
+          style={{ left: 0, width: `${percentage}%` }}
+        />
+        
+        <input
+          type="range"
+          min={min}
+          max={max}
+          value={value}
+          onChange={e => onChange(parseFloat(e.target.value))}
+          onMouseUp={() => onChangeEnd?.()}
+          onTouchEnd={() => onChangeEnd?.()}
+          className="absolute inset-0 w-full opacity-0 cursor-pointer"
+        />
+        
+        <div
+          className="absolute w-3 h-3 -translate-y-1/2 top-1/2 -translate-x-1/2 pointer-events-none"
+          style={{ left: `${percentage}%` }}
+        >
+          <div className="w-full h-full rounded-full bg-white border-2 border-[var(--apex-accent)] shadow-sm" />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function LutPanel() {
+  const { adjustments, setAdjustments, pushHistory, luts, addLut, removeLut } = useImageStore();
+  const debounceRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { lut } = adjustments;
+  const entries = Object.entries(luts).sort(([, a], [, b]) => a.title.localeCompare(b.title));
+  
+  const handleChangeEnd = useCallback(() => {
+    clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(() => {
+      pushHistory();
+    }, 100);
+  }, [pushHistory]);
+  
+  const selectLut = useCallback((id: string | null) => {
+    setAdjustments({ lut: { ...lut, id } });
+    pushHistory();
+  }, [lut, setAdjustments, pushHistory]);
+  
+  const handleFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    
+    try {
+      const parsed = parseCubeLut(await file.text(), file.name.replace(/\.cube$/i, ''));
+      const id = crypto.randomUUID();
+      // Table first, so the render that uses it can find it
+      addLut(id, parsed);
+      selectLut(id);
+      setError(null);
+      saveLutToLibrary(id, parsed).catch(saveError => {
+        console.error('Failed to save LUT:', saveError);
+      });
+    } catch (parseError) {
+      setError(parseError instanceof Error ? parseError.message : String(parseError));
+    }
+  }, [addLut, selectLut]);
+  
+  const deleteLut = useCallback((id: string) => {
+    if (lut.id === id) selectLut(null);
+    removeLut(id);
+    deleteLutFromLibrary(id).catch(deleteError => {
+      console.error('Failed to delete LUT:', deleteError);
+    });
+  }, [lut.id, selectLut, removeLut]);
+  
+  return (
+    <div className="p-3">
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full flex items-center justify-center gap-1.5 py-1.5 mb-3 text-xs rounded-md border transition-all
+                   text-[var(--apex-text-muted)] border-[var(--apex-border)]
+                   hover:text-[var(--apex-text-primary)] hover:bg-[var(--apex-bg-hover)]"
+        title="Import a 1D or 3D .cube LUT"
+      >
+        <FileUp className="w-3.5 h-3.5" />
+        Import .cube
+      </button>
+      <input ref={fileInputRef} type="file" accept=".cube" onChange={handleFile} className="hidden" />
+      
+      {error && (
+        <p className="mb-3 text-[10px] text-[var(--apex-red)]">{error}</p>
+      )}
+      
+      {/* Library */}
+      <div className="space-y-1 mb-4">
+        {entries.map(([id, entry]) => (
+          <div
+            key={id}
+            onClick={() => selectLut(lut.id === id ? null : id)}
+            className={`flex items-center gap-1.5 px-2 py-1.5 rounded-md cursor-pointer transition-all ${
+              lut.id === id
+                ? 'bg-[var(--apex-accent-subtle)] text-[var(--apex-accent)]'
+                : 'text-[var(--apex-text-secondary)] hover:bg-[var(--apex-bg-hover)]'
+            }`}
+          >
+            <span className="flex-1 text-xs truncate">{entry.title}</span>
+            <span className="text-[10px] font-mono text-[var(--apex-text-dim)]">
+              {entry.kind.toUpperCase()} {entry.size}
+            </span>
+            <button
+              onClick={e => { e.stopPropagation(); deleteLut(id); }}
+              className="p-0.5 rounded text-[var(--apex-text-dim)] hover:text-[var(--apex-red)] transition-colors"
+              title="Delete from library"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        {entries.length === 0 && (
+          <p className="px-2 py-1.5 text-[10px] text-[var(--apex-text-dim)]">
+            No LUTs imported yet
+          </p>
+        )}
+        {lut.id && !luts[lut.id] && (
+          <p className="px-2 py-1.5 text-[10px] text-[var(--apex-text-dim)]">
+            The LUT in use is not in this library
+          </p>
+        )}
+      </div>
+      
+      <Slider
+        label="Amount"
+        value={lut.amount}
+        min={0}
+        max={100}
+        unit="%"
+        onChange={v => setAdjustments({ lut: { ...lut, amount: v } })}
+        onChangeEnd={handleChangeEnd}
+      />
+    </div>
+  );
+}
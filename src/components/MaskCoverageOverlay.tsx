@@ -0,0 +1,86 @@
+/**
+ * APEX Photo Studio - Mask Coverage Overlay Component
+ * 
+ * Shows where the selected mask applies:
+ * - Red tint, stronger where the mask weight is higher
+ * - Includes feather, inversion and range refinements
+ * - Shows the selected layer's mask while a layer is selected
+ * - Evaluated on a small copy of the frame, so editing a mask stays
+ *   responsive on large originals
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import { useImageStore } from '@/hooks/useImageStore';
+import { applyTransforms } from '@/engine/transforms';
+import { renderMaskWeights } from '@/engine/masks';
+import { applySpots } from '@/engine/retouch';
+import { createProxy } from '@/engine/previewProxy';
+
+/** Tint opacity at full mask weight (0-255) */
+const MAX_TINT_ALPHA = 160;
+
+/** Longest side (px) of the frame the weights are evaluated on */
+const MAX_OVERLAY_SIZE = 1024;
+
+export function MaskCoverageOverlay() {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { image, adjustments, ui } = useImageStore();
+  const layer = adjustments.layers.find(l => l.id === ui.activeLayerId);
+  const mask = layer ? layer.mask : adjustments.masks.find(m => m.id === ui.activeMaskId);
+  const isVisible = ui.showMaskOverlay && !!mask && !!image.processed;
+  
+  // The tint is stretched over the canvas, so a power-of-two reduction of
+  // the proxy (or original) is enough; mask edits then only rerun the weights
+  const transformKey = JSON.stringify(adjustments.transform);
+  const spots = adjustments.spots;
+  const base = image.proxy ?? image.original;
+  const source = useMemo(() => {
+    if (!isVisible || !base) return null;
+    const longest = Math.max(base.width, base.height);
+    const factor = Math.pow(2, Math.max(0, Math.ceil(Math.log2(longest / MAX_OVERLAY_SIZE))));
+    return factor > 1 ? createProxy(base, 1 / factor) : base;
+  }, [isVisible, base]);
+  const frame = useMemo(() => {
+    if (!isVisible || !source) return null;
+    return applyTransforms(applySpots(source, spots), JSON.parse(transformKey));
+  }, [isVisible, source, spots, transformKey]);
+  
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !frame || !source || !mask) return;
+    
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    
+    const weights = renderMaskWeights(
+      mask,
+      frame,
+      { x: 0, y: 0, width: frame.width, height: frame.height },
+      { transform: JSON.parse(transformKey), width: source.width, height: source.height }
+    );
+    
+    const outputData = ctx.createImageData(frame.width, frame.height);
+    for (let i = 0; i < weights.length; i++) {
+      const idx = i * 4;
+      outputData.data[idx] = 255;
+      outputData.data[idx + 1] = 40;
+      outputData.data[idx + 2] = 40;
+      outputData.data[idx + 3] = weights[i] * MAX_TINT_ALPHA;
+    }
+    
+    ctx.putImageData(outputData, 0, 0);
+  }, [frame, source, mask, transformKey]);
+  
+  if (!isVisible || !frame) return null;
+  
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-0 pointer-events-none"
+      style={{ width: '100%', height: '100%' }}
+    />
+  );
+}
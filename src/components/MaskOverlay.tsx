@@ -0,0 +1,483 @@
+/**
+ * APEX Photo Studio - Mask Overlay Component
+ * 
+ * On-canvas editing of gradient masks:
+ * - Drag to draw a new linear or radial gradient
+ * - Linear: start and end handles with guide lines
+ * - Radial: center handle, one handle per radius and the ellipse outline
+ * - Brush: paint or erase strokes into the selected brush mask
+ * - Color ranges: draggable markers where the reference color is sampled
+ * 
+ * With a layer selected, the tools edit that layer's mask instead.
+ * 
+ * Mask geometry is stored relative to the original image, like spots,
+ * so the overlay maps through the current rotation, flips and crop.
+ */
+
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { useImageStore } from '@/hooks/useImageStore';
+import { createMask } from '@/engine/masks';
+import { mapToOriginal, mapToTransformed } from '@/engine/transforms';
+import type {
+  BrushMask,
+  BrushStroke,
+  LinearGradientMask,
+  Mask,
+  MaskPoint,
+  MaskType,
+  RadialGradientMask,
+} from '@/types';
+
+/** Shortest drawn gradient (display pixels); shorter drags keep the default size */
+const MIN_DRAW_LENGTH = 4;
+
+/** Distance between recorded stroke points as a fraction of the brush size */
+const STROKE_POINT_SPACING = 0.1;
+
+type MaskHandle = 'start' | 'end' | 'center' | 'radiusX' | 'radiusY' | 'sample';
+
+type DragState =
+  | { kind: 'draw'; maskId: string; type: MaskType; origin: MaskPoint }
+  /** refinement: index of the refined range a sample handle belongs to */
+  | { kind: 'handle'; maskId: string; handle: MaskHandle; refinement?: number }
+  | { kind: 'paint'; maskId: string; last: MaskPoint };
+
+/**
+ * Move the color sample of a color range mask, or of one of its refinements
+ */
+function setSample(mask: Mask, refinement: number | undefined, sample: MaskPoint): Mask {
+  if (refinement === undefined) {
+    return mask.type === 'color' ? { ...mask, sample } : mask;
+  }
+  
+  return {
+    ...mask,
+    refinements: mask.refinements.map((current, i) =>
+      i === refinement && current.range.type === 'color'
+        ? { ...current, range: { ...current.range, sample } }
+        : current
+    ),
+  };
+}
+
+interface MaskOverlayProps {
+  /** Displayed (cropped) frame width in pixels */
+  width: number;
+  /** Displayed (cropped) frame height in pixels */
+  height: number;
+}
+
+export function MaskOverlay({ width, height }: MaskOverlayProps) {
+  const { image, adjustments, ui, setAdjustments, setUIState, pushHistory } = useImageStore();
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [brushCursor, setBrushCursor] = useState<MaskPoint | null>(null);
+  const { layers } = adjustments;
+  const activeLayer = layers.find(layer => layer.id === ui.activeLayerId) ?? null;
+  
+  // A layer holds a single mask; drawing a new one replaces it
+  const masks = useMemo(
+    () => activeLayer ? (activeLayer.mask ? [activeLayer.mask] : []) : adjustments.masks,
+    [activeLayer, adjustments.masks]
+  );
+  const activeMaskId = activeLayer ? activeLayer.mask?.id ?? null : ui.activeMaskId;
+  const { transform } = adjustments;
+  const { brush } = ui;
+  const isBrushTool = ui.maskTool === 'brush';
+  const originalWidth = image.original?.width ?? 1;
+  const originalHeight = image.original?.height ?? 1;
+  
+  // Original image point (normalized) to display pixels
+  const toPixels = useCallback((point: MaskPoint) => {
+    const p = mapToTransformed(point, transform, originalWidth, originalHeight);
+    return { x: p.x * width, y: p.y * height };
+  }, [transform, originalWidth, originalHeight, width, height]);
+  
+  // Normalized display position to a normalized point of the original
+  const toOriginal = useCallback((display: MaskPoint) => {
+    return mapToOriginal(display, transform, originalWidth, originalHeight);
+  }, [transform, originalWidth, originalHeight]);
+  
+  // Display pixels per unit of original width and height (geometry only
+  // rotates and crops, so lengths scale the same in every direction)
+  const origin = toPixels({ x: 0.5, y: 0.5 });
+  const step = toPixels({ x: 0.5 + 1 / originalWidth, y: 0.5 });
+  const scale = Math.hypot(step.x - origin.x, step.y - origin.y);
+  const frameWidth = scale * originalWidth;
+  const frameHeight = scale * originalHeight;
+  
+  // Pointer position in normalized display coordinates
+  const toDisplay = useCallback((e: React.PointerEvent): MaskPoint => {
+    const bounds = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: (e.clientX - bounds.left) / bounds.width,
+      y: (e.clientY - bounds.top) / bounds.height,
+    };
+  }, []);
+  
+  const setMasks = useCallback((next: Mask[]) => {
+    if (!activeLayer) {
+      setAdjustments({ masks: next });
+      return;
+    }
+    setAdjustments({
+      layers: layers.map(layer =>
+        layer.id === activeLayer.id ? { ...layer, mask: next[next.length - 1] ?? null } : layer
+      ),
+    });
+  }, [activeLayer, layers, setAdjustments]);
+  
+  const replaceMask = useCallback((id: string, update: (mask: Mask) => Mask) => {
+    setMasks(masks.map(mask => mask.id === id ? update(mask) : mask));
+  }, [masks, setMasks]);
+  
+  // ==========================================================================
+  // Pointer interaction
+  // ==========================================================================
+  
+  const startStroke = useCallback((point: MaskPoint) => {
+    const active = masks.find(mask => mask.id === activeMaskId);
+    const target = active?.type === 'brush' ? active : null;
+    
+    // Erasing needs a brush mask to erase from
+    if (!target && brush.erase) return;
+    
+    const stroke: BrushStroke = {
+      points: [point],
+      radius: brush.size / 2 / Math.max(frameWidth, frameHeight),
+      feather: brush.feather,
+      flow: brush.flow,
+      density: brush.density,
+      erase: brush.erase,
+      autoMask: brush.autoMask,
+    };
+    
+    const mask = target ?? createMask('brush', masks) as BrushMask;
+    const painted: BrushMask = { ...mask, strokes: [...mask.strokes, stroke] };
+    
+    setMasks(target ? masks.map(m => m.id === target.id ? painted : m) : [...masks, painted]);
+    setUIState({ activeMaskId: painted.id });
+    setDrag({ kind: 'paint', maskId: painted.id, last: point });
+  }, [masks, activeMaskId, brush, frameWidth, frameHeight, setMasks, setUIState]);
+  
+  const handlePointerDown = useCallback((e: React.PointerEvent) => {
+    if (!ui.maskTool) return;
+    overlayRef.current?.setPointerCapture(e.pointerId);
+    const point = toOriginal(toDisplay(e));
+    
+    if (ui.maskTool === 'brush') {
+      startStroke(point);
+      return;
+    }
+    
+    const mask = createMask(ui.maskTool, masks);
+    
+    // Full effect at the press point: the center or the start of the gradient
+    const placed: Mask = mask.type === 'linear'
+      ? { ...mask, start: point, end: point }
+      : mask.type === 'radial' ? { ...mask, center: point } : mask;
+    
+    setMasks([...masks, placed]);
+    setUIState({ activeMaskId: placed.id });
+    setDrag({ kind: 'draw', maskId: placed.id, type: placed.type, origin: point });
+  }, [ui.maskTool, masks, toOriginal, toDisplay, startStroke, setMasks, setUIState]);
+  
+  const startHandleDrag = useCallback((
+    maskId: string,
+    handle: MaskHandle,
+    refinement?: number
+  ) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    overlayRef.current?.setPointerCapture(e.pointerId);
+    setDrag({ kind: 'handle', maskId, handle, refinement });
+  }, []);
+  
+  const handlePointerMove = useCallback((e: React.PointerEvent) => {
+    const display = toDisplay(e);
+    if (isBrushTool) setBrushCursor(display);
+    if (!drag) return;
+    const point = toOriginal(display);
+    
+    if (drag.kind === 'paint') {
+      const distance = Math.hypot(
+        (point.x - drag.last.x) * frameWidth,
+        (point.y - drag.last.y) * frameHeight
+      );
+      if (distance < Math.max(1, brush.size * STROKE_POINT_SPACING)) return;
+      
+      replaceMask(drag.maskId, mask => {
+        if (mask.type !== 'brush') return mask;
+        const strokes = mask.strokes.slice();
+        const stroke = strokes[strokes.length - 1];
+        strokes[strokes.length - 1] = { ...stroke, points: [...stroke.points, point] };
+        return { ...mask, strokes };
+      });
+      setDrag({ ...drag, last: point });
+      return;
+    }
+    
+    replaceMask(drag.maskId, mask => {
+      if (drag.kind === 'handle' && drag.handle === 'sample') {
+        return setSample(mask, drag.refinement, point);
+      }
+      
+      if (mask.type === 'linear') {
+        if (drag.kind === 'draw' || drag.handle === 'end') return { ...mask, end: point };
+        if (drag.handle === 'start') return { ...mask, start: point };
+        return mask;
+      }
+      if (mask.type !== 'radial') return mask;
+      
+      // Radii are fractions of the original size; measure in display pixels
+      const dx = (point.x - mask.center.x) * frameWidth;
+      const dy = (point.y - mask.center.y) * frameHeight;
+      
+      if (drag.kind === 'draw') {
+        const radius = Math.hypot(dx, dy);
+        return { ...mask, radiusX: radius / frameWidth, radiusY: radius / frameHeight };
+      }
+      
+      const angle = (mask.angle * Math.PI) / 180;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      
+      switch (drag.handle) {
+        case 'center':
+          return { ...mask, center: point };
+        case 'radiusX':
+          return { ...mask, radiusX: Math.abs(dx * cos + dy * sin) / frameWidth };
+        case 'radiusY':
+          return { ...mask, radiusY: Math.abs(-dx * sin + dy * cos) / frameHeight };
+        default:
+          return mask;
+      }
+    });
+  }, [drag, frameWidth, frameHeight, isBrushTool, brush.size, toOriginal, toDisplay, replaceMask]);
+  
+  const handlePointerUp = useCallback(() => {
+    if (!drag) return;
+    
+    if (drag.kind === 'draw') {
+      // A click without a drag places a default-sized gradient
+      const mask = masks.find(m => m.id === drag.maskId);
+      const isTooSmall = mask?.type === 'linear'
+        ? Math.hypot(
+            (mask.end.x - mask.start.x) * frameWidth,
+            (mask.end.y - mask.start.y) * frameHeight
+          ) < MIN_DRAW_LENGTH
+        : mask?.type === 'radial' && mask.radiusX * frameWidth < MIN_DRAW_LENGTH;
+      
+      if (mask && isTooSmall) {
+        const defaults = createMask(drag.type, []);
+        replaceMask(drag.maskId, current => {
+          if (current.type === 'linear' && defaults.type === 'linear') {
+            // Straight down on screen, whatever the rotation
+            const dy = defaults.end.y - defaults.start.y;
+            const start = toPixels(drag.origin);
+            return { ...current, start: drag.origin, end: toOriginal({ x: start.x / width, y: start.y / height + dy }) };
+          }
+          if (current.type === 'radial' && defaults.type === 'radial') {
+            return { ...current, radiusX: defaults.radiusX, radiusY: defaults.radiusY };
+          }
+          return current;
+        });
+      }
+      
+      setUIState({ maskTool: null });
+    }
+    
+    pushHistory();
+    setDrag(null);
+  }, [drag, masks, frameWidth, frameHeight, width, height, toPixels, toOriginal, replaceMask, setUIState, pushHistory]);
+  
+  // ==========================================================================
+  // Rendering
+  // ==========================================================================
+  
+  const activeMask = masks.find(mask => mask.id === activeMaskId);
+  if (width === 0 || height === 0 || (!activeMask && !ui.maskTool)) return null;
+  
+  // Handles keep their on-screen size regardless of zoom
+  const handleSize = 12 / ui.zoom;
+  const strokeWidth = 1.5 / ui.zoom;
+  const reach = width + height;
+  
+  const renderHandle = (handle: MaskHandle, point: { x: number; y: number }, cursor: string) => (
+    <circle
+      key={handle}
+      cx={point.x}
+      cy={point.y}
+      r={handleSize / 2}
+      fill={handle === 'center' || handle === 'start' ? 'var(--apex-accent)' : 'white'}
+      stroke="rgba(0, 0, 0, 0.5)"
+      strokeWidth={strokeWidth}
+      style={{ cursor, pointerEvents: 'auto' }}
+      onPointerDown={startHandleDrag(activeMask!.id, handle)}
+    />
+  );
+  
+  const renderLinear = (mask: LinearGradientMask) => {
+    const start = toPixels(mask.start);
+    const end = toPixels(mask.end);
+    const length = Math.hypot(end.x - start.x, end.y - start.y) || 1;
+    
+    // Guides run perpendicular to the gradient direction
+    const nx = -(end.y - start.y) / length * reach;
+    const ny = (end.x - start.x) / length * reach;
+    const guide = (p: { x: number; y: number }, dashed: boolean) => (
+      <line
+        x1={p.x - nx}
+        y1={p.y - ny}
+        x2={p.x + nx}
+        y2={p.y + ny}
+        strokeDasharray={dashed ? `${6 / ui.zoom} ${4 / ui.zoom}` : undefined}
+      />
+    );
+    
+    return (
+      <>
+        <g stroke="rgba(255, 255, 255, 0.85)" strokeWidth={strokeWidth}>
+          {guide(start, false)}
+          {guide({ x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 }, true)}
+          {guide(end, false)}
+          <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} />
+        </g>
+        {renderHandle('start', start, 'move')}
+        {renderHandle('end', end, 'move')}
+      </>
+    );
+  };
+  
+  const renderRadial = (mask: RadialGradientMask) => {
+    const center = toPixels(mask.center);
+    const rx = mask.radiusX * frameWidth;
+    const ry = mask.radiusY * frameHeight;
+    const angle = (mask.angle * Math.PI) / 180;
+    const innerScale = 1 - mask.feather / 100;
+    
+    // Ellipse axes on screen: one original pixel along each axis, mapped
+    const axis = (dx: number, dy: number) => {
+      const p = toPixels({ x: mask.center.x + dx / originalWidth, y: mask.center.y + dy / originalHeight });
+      const length = Math.hypot(p.x - center.x, p.y - center.y) || 1;
+      return { x: (p.x - center.x) / length, y: (p.y - center.y) / length };
+    };
+    const axisX = axis(Math.cos(angle), Math.sin(angle));
+    const axisY = axis(-Math.sin(angle), Math.cos(angle));
+    const displayAngle = (Math.atan2(axisX.y, axisX.x) * 180) / Math.PI;
+    
+    return (
+      <>
+        <g
+          fill="none"
+          stroke="rgba(255, 255, 255, 0.85)"
+          strokeWidth={strokeWidth}
+          transform={`rotate(${displayAngle} ${center.x} ${center.y})`}
+        >
+          <ellipse cx={center.x} cy={center.y} rx={rx} ry={ry} />
+          {innerScale > 0 && (
+            <ellipse
+              cx={center.x}
+              cy={center.y}
+              rx={rx * innerScale}
+              ry={ry * innerScale}
+              strokeDasharray={`${6 / ui.zoom} ${4 / ui.zoom}`}
+            />
+          )}
+        </g>
+        {renderHandle('center', center, 'move')}
+        {renderHandle('radiusX', { x: center.x + rx * axisX.x, y: center.y + rx * axisX.y }, 'ew-resize')}
+        {renderHandle('radiusY', { x: center.x + ry * axisY.x, y: center.y + ry * axisY.y }, 'ns-resize')}
+      </>
+    );
+  };
+  
+  // Eyedropper marker for a color range (refinement undefined = the mask itself)
+  const renderSample = (sample: MaskPoint, refinement?: number) => {
+    const point = toPixels(sample);
+    const r = handleSize * 0.75;
+    
+    return (
+      <g
+        key={`sample-${refinement ?? 'mask'}`}
+        style={{ cursor: 'move', pointerEvents: 'auto' }}
+        onPointerDown={startHandleDrag(activeMask!.id, 'sample', refinement)}
+      >
+        <circle cx={point.x} cy={point.y} r={r} fill="rgba(0, 0, 0, 0.35)" stroke="white" strokeWidth={strokeWidth} />
+        <g stroke="white" strokeWidth={strokeWidth}>
+          <line x1={point.x - r * 0.5} y1={point.y} x2={point.x + r * 0.5} y2={point.y} />
+          <line x1={point.x} y1={point.y - r * 0.5} x2={point.x} y2={point.y + r * 0.5} />
+        </g>
+      </g>
+    );
+  };
+  
+  const renderBrushCursor = (point: MaskPoint) => {
+    const radius = brush.size / 2;
+    const inner = radius * (1 - brush.feather / 100);
+    
+    return (
+      <g fill="none" strokeWidth={strokeWidth}>
+        <circle cx={point.x * width} cy={point.y * height} r={radius} stroke="rgba(0, 0, 0, 0.5)" />
+        <circle
+          cx={point.x * width}
+          cy={point.y * height}
+          r={Math.max(0, radius - strokeWidth)}
+          stroke="rgba(255, 255, 255, 0.9)"
+        />
+        {inner > 0 && (
+          <circle
+            cx={point.x * width}
+            cy={point.y * height}
+            r={inner}
+            stroke="rgba(255, 255, 255, 0.6)"
+            strokeDasharray={`${6 / ui.zoom} ${4 / ui.zoom}`}
+          />
+        )}
+        {/* Minus sign while erasing */}
+        {brush.erase && (
+          <line
+            x1={point.x * width - handleSize / 2}
+            y1={point.y * height}
+            x2={point.x * width + handleSize / 2}
+            y2={point.y * height}
+            stroke="white"
+          />
+        )}
+      </g>
+    );
+  };
+  
+  return (
+    <div
+      ref={overlayRef}
+      className="absolute inset-0 z-10 touch-none"
+      style={{
+        cursor: isBrushTool ? 'none' : ui.maskTool ? 'crosshair' : undefined,
+        // Without a tool only the handles take the pointer; the canvas still pans
+        pointerEvents: ui.maskTool || drag ? 'auto' : 'none',
+      }}
+      onMouseDown={e => { if (ui.maskTool || drag) e.stopPropagation(); }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => setBrushCursor(null)}
+    >
+      <svg
+        className="absolute inset-0 w-full h-full"
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="none"
+        onMouseDown={e => e.stopPropagation()}
+        style={{ pointerEvents: 'none' }}
+      >
+        {activeMask?.type === 'linear' && renderLinear(activeMask)}
+        {activeMask?.type === 'radial' && renderRadial(activeMask)}
+        {activeMask?.type === 'color' && renderSample(activeMask.sample)}
+        {activeMask?.refinements.map(({ range }, i) =>
+          range.type === 'color' ? renderSample(range.sample, i) : null
+        )}
+        {isBrushTool && brushCursor && renderBrushCursor(brushCursor)}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,555 @@
+/**
+ * APEX Photo Studio - Mask Panel Component
+ * 
+ * Local adjustment masks:
+ * - Add linear or radial gradients (drawn on the canvas)
+ * - Brush with size, feather, flow, density, erase and auto mask
+ * - Luminance and color range masks
+ * - Range refinements that intersect with or subtract from a mask
+ * - Coverage overlay of the selected mask
+ * - Mask list with select, show/hide and delete
+ * - Invert, feather and angle of the selected mask
+ * - Local exposure, tone, color, detail and dehaze offsets
+ */
+
+import { useCallback, useRef } from 'react';
+import { Layers, Eye, EyeOff, Trash2, RotateCcw, Plus } from 'lucide-react';
+import { useImageStore } from '@/hooks/useImageStore';
+import { DEFAULT_MASK_ADJUSTMENTS } from '@/types';
+import type { BrushSettings, Mask, MaskAdjustments, MaskRefinement, MaskType, RangeSelection } from '@/types';
+import { createMask, createRange, hasMaskAdjustments } from '@/engine/masks';
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  unit?: string;
+  onChange: (value: number) => void;
+  onChangeEnd?: () => void;
+}
+
+function Slider({ label, value, min, max, step = 1, unit = '', onChange, onChangeEnd }: SliderProps) {
+  const percentage = ((value - min) / (max - min)) * 100;
+  const isNeutral = value === 0;
+  const centerPercent = ((0 - min) / (max - min)) * 100;
+  
+  return (
+    <div className="mb-3 group">
+      <div className="flex justify-between items-center mb-1.5">
+        <span className="text-[10px] text-[var(--apex-text-muted)] font-medium">
+          {label}
+        </span>
+        <span className={`text-[10px] font-mono tabular-nums px-1 py-0.5 rounded transition-all ${
+          isNeutral
+            ? 'text-[var(--apex-text-dim)]'
+            : 'text-white bg-white/10'
+        }`}>
+          {value > 0 ? '+' : ''}{value}{unit}
+        </span>
+      </div>
+      
+      <div className="relative h-1.5">
+        <div className="absolute inset-0 rounded-full bg-[var(--apex-bg-dark)] border border-[var(--apex-border)]" />
+        
+        <div
+          className="absolute h-full rounded-full bg-[var(--apex-accent)] transition-all duration-75"
+          style={{
+            left: value < 0 ? `${percentage}%` : `${centerPercent}%`,
+            width: `${Math.abs(percentage - centerPercent)}%`,
+          }}
+        />
+        
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={value}
+          onChange={e => onChange(parseFloat(e.target.value))}
+          onMouseUp={() => onChangeEnd?.()}
+          onTouchEnd={() => onChangeEnd?.()}
+          className="absolute inset-0 w-full opacity-0 cursor-pointer"
+        />
+        
+        <div
+          className="absolute w-3 h-3 -translate-y-1/2 top-1/2 -translate-x-1/2 pointer-events-none"
+          style={{ left: `${percentage}%` }}
+        >
+          <div className="w-full h-full rounded-full bg-white border-2 border-[var(--apex-accent)] shadow-sm" />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface RangeControlsProps {
+  range: RangeSelection;
+  onChange: (range: RangeSelection) => void;
+  onChangeEnd: () => void;
+}
+
+export function RangeControls({ range, onChange, onChangeEnd }: RangeControlsProps) {
+  if (range.type === 'luminance') {
+    return (
+      <>
+        <Slider
+          label="Range Low"
+          value={range.min}
+          min={0}
+          max={100}
+          onChange={v => onChange({ ...range, min: v })}
+          onChangeEnd={onChangeEnd}
+        />
+        <Slider
+          label="Range High"
+          value={range.max}
+          min={0}
+          max={100}
+          onChange={v => onChange({ ...range, max: v })}
+          onChangeEnd={onChangeEnd}
+        />
+        <Slider
+          label="Smoothness"
+          value={range.smoothness}
+          min={0}
+          max={50}
+          onChange={v => onChange({ ...range, smoothness: v })}
+          onChangeEnd={onChangeEnd}
+        />
+      </>
+    );
+  }
+  
+  return (
+    <>
+      <Slider
+        label="Tolerance"
+        value={range.tolerance}
+        min={1}
+        max={100}
+        onChange={v => onChange({ ...range, tolerance: v })}
+        onChangeEnd={onChangeEnd}
+      />
+      <p className="text-[10px] text-[var(--apex-text-dim)] mb-2">
+        Drag the sample marker on the image to pick the color
+      </p>
+    </>
+  );
+}
+
+type LocalGroup = keyof MaskAdjustments;
+
+interface LocalSlider {
+  group: LocalGroup;
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step?: number;
+  unit?: string;
+}
+
+// Temperature is an offset in Kelvin from the global white balance
+const LOCAL_SLIDERS: LocalSlider[] = [
+  { group: 'basic', key: 'exposure', label: 'Exposure', min: -4, max: 4, step: 0.01, unit: ' EV' },
+  { group: 'basic', key: 'contrast', label: 'Contrast', min: -100, max: 100 },
+  { group: 'basic', key: 'highlights', label: 'Highlights', min: -100, max: 100 },
+  { group: 'basic', key: 'shadows', label: 'Shadows', min: -100, max: 100 },
+  { group: 'basic', key: 'whites', label: 'Whites', min: -100, max: 100 },
+  { group: 'basic', key: 'blacks', label: 'Blacks', min: -100, max: 100 },
+  { group: 'color', key: 'temperature', label: 'Temperature', min: -3000, max: 3000, step: 50, unit: 'K' },
+  { group: 'color', key: 'tint', label: 'Tint', min: -100, max: 100 },
+  { group: 'color', key: 'vibrance', label: 'Vibrance', min: -100, max: 100 },
+  { group: 'color', key: 'saturation', label: 'Saturation', min: -100, max: 100 },
+  { group: 'detail', key: 'clarity', label: 'Clarity', min: -100, max: 100 },
+  { group: 'detail', key: 'sharpness', label: 'Sharpness', min: 0, max: 150 },
+  { group: 'detail', key: 'noiseReduction', label: 'Noise Reduction', min: 0, max: 100 },
+  { group: 'effects', key: 'dehaze', label: 'Dehaze', min: -100, max: 100 },
+];
+
+const MASK_TOOLS: { type: MaskType; label: string; hint: string }[] = [
+  { type: 'linear', label: 'Linear', hint: 'Drag on the image to add a linear gradient' },
+  { type: 'radial', label: 'Radial', hint: 'Drag on the image to add a radial gradient' },
+  { type: 'brush', label: 'Brush', hint: 'Paint on the image; strokes go into the selected brush mask' },
+];
+
+const RANGE_TYPES: { type: RangeSelection['type']; label: string }[] = [
+  { type: 'luminance', label: 'Luminance' },
+  { type: 'color', label: 'Color' },
+];
+
+const BRUSH_SLIDERS: { key: 'size' | 'feather' | 'flow' | 'density'; label: string; min: number; max: number; unit?: string }[] = [
+  { key: 'size', label: 'Size', min: 2, max: 500, unit: 'px' },
+  { key: 'feather', label: 'Feather', min: 0, max: 100 },
+  { key: 'flow', label: 'Flow', min: 1, max: 100 },
+  { key: 'density', label: 'Density', min: 1, max: 100 },
+];
+
+export function MaskPanel() {
+  const { adjustments, setAdjustments, pushHistory, ui, setUIState } = useImageStore();
+  const debounceRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  const { masks } = adjustments;
+  const activeMask = masks.find(mask => mask.id === ui.activeMaskId) ?? null;
+  
+  const handleChangeEnd = useCallback(() => {
+    clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(() => {
+      pushHistory();
+    }, 100);
+  }, [pushHistory]);
+  
+  const updateMask = useCallback((id: string, changes: Partial<Mask>) => {
+    setAdjustments({
+      masks: masks.map(mask => mask.id === id ? { ...mask, ...changes } as Mask : mask),
+    });
+  }, [masks, setAdjustments]);
+  
+  const updateLocal = useCallback((group: LocalGroup, key: string, value: number) => {
+    if (!activeMask) return;
+    updateMask(activeMask.id, {
+      adjustments: {
+        ...activeMask.adjustments,
+        [group]: { ...activeMask.adjustments[group], [key]: value },
+      },
+    });
+  }, [activeMask, updateMask]);
+  
+  const toggleEnabled = useCallback((mask: Mask) => {
+    updateMask(mask.id, { enabled: !mask.enabled });
+    pushHistory();
+  }, [updateMask, pushHistory]);
+  
+  const deleteMask = useCallback((id: string) => {
+    setAdjustments({ masks: masks.filter(mask => mask.id !== id) });
+    if (ui.activeMaskId === id) setUIState({ activeMaskId: null });
+    pushHistory();
+  }, [masks, ui.activeMaskId, setAdjustments, setUIState, pushHistory]);
+  
+  const updateBrush = useCallback((changes: Partial<BrushSettings>) => {
+    setUIState({ brush: { ...ui.brush, ...changes } });
+  }, [ui.brush, setUIState]);
+  
+  const addRangeMask = useCallback((type: RangeSelection['type']) => {
+    const mask = createMask(type, masks);
+    setAdjustments({ masks: [...masks, mask] });
+    setUIState({ activeMaskId: mask.id, maskTool: null, activeLayerId: null });
+    pushHistory();
+  }, [masks, setAdjustments, setUIState, pushHistory]);
+  
+  const updateRefinement = useCallback((index: number, changes: Partial<MaskRefinement>) => {
+    if (!activeMask) return;
+    updateMask(activeMask.id, {
+      refinements: activeMask.refinements.map((refinement, i) =>
+        i === index ? { ...refinement, ...changes } : refinement
+      ),
+    });
+  }, [activeMask, updateMask]);
+  
+  const addRefinement = useCallback((type: RangeSelection['type']) => {
+    if (!activeMask) return;
+    updateMask(activeMask.id, {
+      refinements: [...activeMask.refinements, { mode: 'intersect', range: createRange(type) }],
+    });
+    pushHistory();
+  }, [activeMask, updateMask, pushHistory]);
+  
+  const removeRefinement = useCallback((index: number) => {
+    if (!activeMask) return;
+    updateMask(activeMask.id, {
+      refinements: activeMask.refinements.filter((_, i) => i !== index),
+    });
+    pushHistory();
+  }, [activeMask, updateMask, pushHistory]);
+  
+  const resetLocal = useCallback(() => {
+    if (!activeMask) return;
+    updateMask(activeMask.id, {
+      adjustments: JSON.parse(JSON.stringify(DEFAULT_MASK_ADJUSTMENTS)),
+    });
+    pushHistory();
+  }, [activeMask, updateMask, pushHistory]);
+  
+  const buttonClass = (active: boolean) =>
+    `flex-1 py-1.5 text-xs rounded-md border transition-all ${
+      active
+        ? 'bg-[var(--apex-accent-subtle)] text-[var(--apex-accent)] border-[var(--apex-border-accent)]'
+        : 'text-[var(--apex-text-muted)] border-[var(--apex-border)] hover:text-[var(--apex-text-primary)] hover:bg-[var(--apex-bg-hover)]'
+    }`;
+  
+  return (
+    <div className="p-3">
+      {/* Header */}
+      <div className="flex items-center gap-2 mb-3">
+        <Layers className="w-4 h-4 text-[var(--apex-accent)]" />
+        <span className="text-xs font-semibold text-[var(--apex-text-primary)]">Masks</span>
+      </div>
+      
+      {/* New mask tools */}
+      <div className="flex gap-1.5 mb-2">
+        {MASK_TOOLS.map(({ type, label, hint }) => (
+          <button
+            key={type}
+            onClick={() => setUIState({
+              maskTool: ui.maskTool === type ? null : type,
+              spotTool: null,
+              activeLayerId: null,
+            })}
+            className={buttonClass(ui.maskTool === type)}
+            title={hint}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-1.5 mb-2">
+        {RANGE_TYPES.map(({ type, label }) => (
+          <button
+            key={type}
+            onClick={() => addRangeMask(type)}
+            className={buttonClass(false)}
+            title={`Add a ${label.toLowerCase()} range mask`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {ui.maskTool && ui.maskTool !== 'brush' && (
+        <p className="text-[10px] text-[var(--apex-text-dim)] mb-2">
+          Drag on the image to place the gradient
+        </p>
+      )}
+      
+      {/* Brush options */}
+      {ui.maskTool === 'brush' && (
+        <div className="mb-4 p-2 rounded-md bg-[var(--apex-bg-dark)]">
+          <div className="flex gap-1.5 mb-3">
+            <button onClick={() => updateBrush({ erase: false })} className={buttonClass(!ui.brush.erase)}>
+              Paint
+            </button>
+            <button onClick={() => updateBrush({ erase: true })} className={buttonClass(ui.brush.erase)}>
+              Erase
+            </button>
+          </div>
+          
+          {BRUSH_SLIDERS.map(({ key, label, min, max, unit }) => (
+            <Slider
+              key={key}
+              label={label}
+              value={ui.brush[key]}
+              min={min}
+              max={max}
+              unit={unit}
+              onChange={v => updateBrush({ [key]: v })}
+            />
+          ))}
+          
+          <label
+            className="flex items-center gap-2 cursor-pointer"
+            title="Only paint over colors similar to where the stroke starts"
+          >
+            <input
+              type="checkbox"
+              checked={ui.brush.autoMask}
+              onChange={e => updateBrush({ autoMask: e.target.checked })}
+              className="w-3.5 h-3.5 rounded border-[var(--apex-border)] bg-[var(--apex-bg-dark)]
+                         checked:bg-[var(--apex-accent)] checked:border-transparent cursor-pointer"
+            />
+            <span className="text-[10px] text-[var(--apex-text-muted)]">Auto mask</span>
+          </label>
+        </div>
+      )}
+      
+      {/* Mask list */}
+      {masks.length > 0 && (
+        <div className="space-y-1 mb-4">
+          {masks.map(mask => (
+            <div
+              key={mask.id}
+              onClick={() => setUIState({
+                activeMaskId: mask.id === ui.activeMaskId ? null : mask.id,
+                activeLayerId: null,
+              })}
+              className={`flex items-center gap-2 px-2 py-1.5 rounded-md cursor-pointer transition-all ${
+                mask.id === ui.activeMaskId
+                  ? 'bg-[var(--apex-accent-subtle)] text-[var(--apex-accent)]'
+                  : 'text-[var(--apex-text-secondary)] hover:bg-[var(--apex-bg-hover)]'
+              }`}
+            >
+              <span className={`flex-1 text-xs truncate ${mask.enabled ? '' : 'opacity-40'}`}>
+                {mask.name}{hasMaskAdjustments(mask.adjustments) ? '' : ' (no changes)'}
+              </span>
+              <button
+                onClick={e => { e.stopPropagation(); toggleEnabled(mask); }}
+                className="p-0.5 rounded text-[var(--apex-text-dim)] hover:text-[var(--apex-text-primary)] transition-colors"
+                title={mask.enabled ? 'Hide mask' : 'Show mask'}
+              >
+                {mask.enabled ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+              </button>
+              <button
+                onClick={e => { e.stopPropagation(); deleteMask(mask.id); }}
+                className="p-0.5 rounded text-[var(--apex-text-dim)] hover:text-[var(--apex-red)] transition-colors"
+                title="Delete mask"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      
+      {/* Selected mask */}
+      {activeMask && (
+        <>
+          <label className="flex items-center gap-2 mb-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={activeMask.invert}
+              onChange={e => {
+                updateMask(activeMask.id, { invert: e.target.checked });
+                handleChangeEnd();
+              }}
+              className="w-3.5 h-3.5 rounded border-[var(--apex-border)] bg-[var(--apex-bg-dark)]
+                         checked:bg-[var(--apex-accent)] checked:border-transparent cursor-pointer"
+            />
+            <span className="text-[10px] text-[var(--apex-text-muted)]">Invert</span>
+          </label>
+          <label className="flex items-center gap-2 mb-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={ui.showMaskOverlay}
+              onChange={e => setUIState({ showMaskOverlay: e.target.checked })}
+              className="w-3.5 h-3.5 rounded border-[var(--apex-border)] bg-[var(--apex-bg-dark)]
+                         checked:bg-[var(--apex-accent)] checked:border-transparent cursor-pointer"
+            />
+            <span className="text-[10px] text-[var(--apex-text-muted)]">Show overlay</span>
+          </label>
+          
+          {(activeMask.type === 'luminance' || activeMask.type === 'color') && (
+            <RangeControls
+              range={activeMask}
+              onChange={range => updateMask(activeMask.id, range)}
+              onChangeEnd={handleChangeEnd}
+            />
+          )}
+          {(activeMask.type === 'linear' || activeMask.type === 'radial') && (
+            <Slider
+              label="Feather"
+              value={activeMask.feather}
+              min={0}
+              max={100}
+              onChange={v => updateMask(activeMask.id, { feather: v })}
+              onChangeEnd={handleChangeEnd}
+            />
+          )}
+          {activeMask.type === 'radial' && (
+            <Slider
+              label="Angle"
+              value={activeMask.angle}
+              min={-90}
+              max={90}
+              unit="°"
+              onChange={v => updateMask(activeMask.id, { angle: v })}
+              onChangeEnd={handleChangeEnd}
+            />
+          )}
+          
+          {/* Range refinements */}
+          <div className="flex items-center justify-between mt-4 mb-2">
+            <span className="text-[10px] font-semibold uppercase tracking-wider text-[var(--apex-text-dim)]">
+              Refine
+            </span>
+            <div className="flex gap-1">
+              {RANGE_TYPES.map(({ type, label }) => (
+                <button
+                  key={type}
+                  onClick={() => addRefinement(type)}
+                  className="flex items-center gap-0.5 px-1.5 py-0.5 rounded text-[10px] text-[var(--apex-text-muted)]
+                             hover:text-[var(--apex-text-primary)] hover:bg-[var(--apex-bg-hover)] transition-colors"
+                  title={`Narrow this mask by ${label.toLowerCase()}`}
+                >
+                  <Plus className="w-3 h-3" />
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {activeMask.refinements.map((refinement, index) => (
+            <div key={index} className="mb-2 p-2 rounded-md bg-[var(--apex-bg-dark)]">
+              <div className="flex items-center gap-1.5 mb-2">
+                <span className="flex-1 text-[10px] text-[var(--apex-text-secondary)]">
+                  {refinement.range.type === 'luminance' ? 'Luminance' : 'Color'}
+                </span>
+                {(['intersect', 'subtract'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => {
+                      updateRefinement(index, { mode });
+                      pushHistory();
+                    }}
+                    className={`px-1.5 py-0.5 rounded text-[10px] transition-all ${
+                      refinement.mode === mode
+                        ? 'bg-[var(--apex-accent-subtle)] text-[var(--apex-accent)]'
+                        : 'text-[var(--apex-text-muted)] hover:text-[var(--apex-text-primary)]'
+                    }`}
+                  >
+                    {mode === 'intersect' ? 'Intersect' : 'Subtract'}
+                  </button>
+                ))}
+                <button
+                  onClick={() => removeRefinement(index)}
+                  className="p-0.5 rounded text-[var(--apex-text-dim)] hover:text-[var(--apex-red)] transition-colors"
+                  title="Remove range"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+              <RangeControls
+                range={refinement.range}
+                onChange={range => updateRefinement(index, { range })}
+                onChangeEnd={handleChangeEnd}
+              />
+            </div>
+          ))}
+          
+          <div className="flex items-center justify-between mt-4 mb-2">
+            <span className="text-[10px] font-semibold uppercase tracking-wider text-[var(--apex-text-dim)]">
+              Local adjustments
+            </span>
+            {hasMaskAdjustments(activeMask.adjustments) && (
+              <button
+                onClick={resetLocal}
+                className="p-1 rounded text-[var(--apex-text-dim)] hover:text-[var(--apex-text-secondary)]
+                           hover:bg-[var(--apex-bg-hover)] transition-all"
+                title="Reset local adjustments"
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+          
+          {LOCAL_SLIDERS.map(({ group, key, label, min, max, step, unit }) => (
+            <Slider
+              key={`${group}.${key}`}
+              label={label}
+              value={(activeMask.adjustments[group] as Record<string, number>)[key]}
+              min={min}
+              max={max}
+              step={step}
+              unit={unit}
+              onChange={v => updateLocal(group, key, v)}
+              onChangeEnd={handleChangeEnd}
+            />
+          ))}
+        </>
+      )}
+      
+      {masks.length === 0 && !ui.maskTool && (
+        <p className="text-[10px] text-[var(--apex-text-dim)]">
+          Add a gradient to adjust part of the image
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+/**
+ * APEX Photo Studio - Retouch Panel Component
+ * 
+ * Spot removal:
+ * - Heal and clone tools (click or brush on the canvas)
+ * - Size of new spots
+ * - Spot list with select and delete
+ * - Mode, size, feather and opacity of the selected spot
+ * - Automatic re-pick of the selected spot's source
+ */
+
+import { useCallback, useRef } from 'react';
+import { Bandage, Stamp, Trash2, Shuffle } from 'lucide-react';
+import { useImageStore } from '@/hooks/useImageStore';
+import { findSpotSource } from '@/engine/retouch';
+import type { Spot, SpotMode } from '@/types';
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  unit?: string;
+  onChange: (value: number) => void;
+  onChangeEnd?: () => void;
+}
+
+function Slider({ label, value, min, max, unit = '', onChange, onChangeEnd }: SliderProps) {
+  const percentage = ((value - min) / (max - min)) * 100;
+  
+  return (
+    <div className="mb-3 group">
+      <div className="flex justify-between items-center mb-1.5">
+        <span className="text-[10px] text-[var(--apex-text-muted)] font-medium">
+          {label}
+        </span>
+        <span className="text-[10px] font-mono tabular-nums px-1 py-0.5 rounded text-[var(--apex-text-dim)]">
+          {value}{unit}
+        </span>
+      </div>
+      
+      <div className="relative h-1.5">
+        <div className="absolute inset-0 rounded-full bg-[var(--apex-bg-dark)] border border-[var(--apex-border)]" />
+        
+        <div
+          className="absolute h-full left-0 rounded-full bg-[var(--apex-accent)] transition-all duration-75"
+          style={{ width: `${percentage}%` }}
+        />
+        
+        <input
+          type="range"
+          min={min}
+          max={max}
+          value={value}
+          onChange={e => onChange(parseFloat(e.target.value))}
+          onMouseUp={() => onChangeEnd?.()}
+          onTouchEnd={() => onChangeEnd?.()}
+          className="absolute inset-0 w-full opacity-0 cursor-pointer"
+        />
+        
+        <div
+          className="absolute w-3 h-3 -translate-y-1/2 top-1/2 -translate-x-1/2 pointer-events-none"
+          style={{ left: `${percentage}%` }}
+        >
+          <div className="w-full h-full rounded-full bg-white border-2 border-[var(--apex-accent)] shadow-sm" />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const SPOT_TOOLS: { mode: SpotMode; label: string; icon: typeof Bandage; hint: string }[] = [
+  { mode: 'heal', label: 'Heal', icon: Bandage, hint: 'Click or brush over a blemish; the patch blends into its surroundings' },
+  { mode: 'clone', label: 'Clone', icon: Stamp, hint: 'Click or brush over an area to cover it with an exact copy' },
+];
+
+/** Largest spot diameter in original image pixels */
+const MAX_SPOT_SIZE = 500;
+
+export function RetouchPanel() {
+  const { image, adjustments, setAdjustments, pushHistory, ui, setUIState } = useImageStore();
+  const debounceRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  const { spots } = adjustments;
+  const activeSpot = spots.find(spot => spot.id === ui.activeSpotId) ?? null;
+  const longSide = image.original ? Math.max(image.original.width, image.original.height) : 1;
+  
+  const handleChangeEnd = useCallback(() => {
+    clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(() => {
+      pushHistory();
+    }, 100);
+  }, [pushHistory]);
+  
+  const updateSpot = useCallback((id: string, changes: Partial<Spot>) => {
+    setAdjustments({
+      spots: spots.map(spot => spot.id === id ? { ...spot, ...changes } : spot),
+    });
+  }, [spots, setAdjustments]);
+  
+  const deleteSpot = useCallback((id: string) => {
+    setAdjustments({ spots: spots.filter(spot => spot.id !== id) });
+    if (ui.activeSpotId === id) setUIState({ activeSpotId: null });
+    pushHistory();
+  }, [spots, ui.activeSpotId, setAdjustments, setUIState, pushHistory]);
+  
+  const clearSpots = useCallback(() => {
+    setAdjustments({ spots: [] });
+    setUIState({ activeSpotId: null });
+    pushHistory();
+  }, [setAdjustments, setUIState, pushHistory]);
+  
+  const findNewSource = useCallback(() => {
+    const source = image.proxy ?? image.original;
+    if (!activeSpot || !source) return;
+    updateSpot(activeSpot.id, {
+      offset: findSpotSource(source, activeSpot.points, activeSpot.radius),
+    });
+    pushHistory();
+  }, [image.proxy, image.original, activeSpot, updateSpot, pushHistory]);
+  
+  const selectTool = useCallback((mode: SpotMode) => {
+    setUIState({ spotTool: ui.spotTool === mode ? null : mode, maskTool: null });
+  }, [ui.spotTool, setUIState]);
+  
+  const buttonClass = (active: boolean) =>
+    `flex-1 flex items-center justify-center gap-1.5 py-1.5 text-xs rounded-md border transition-all ${
+      active
+        ? 'bg-[var(--apex-accent-subtle)] text-[var(--apex-accent)] border-[var(--apex-border-accent)]'
+        : 'text-[var(--apex-text-muted)] border-[var(--apex-border)] hover:text-[var(--apex-text-primary)] hover:bg-[var(--apex-bg-hover)]'
+    }`;
+  
+  return (
+    <div className="p-3">
+      {/* Tools */}
+      <div className="flex gap-1.5 mb-2">
+        {SPOT_TOOLS.map(({ mode, label, icon: Icon, hint }) => (
+          <button
+            key={mode}
+            onClick={() => selectTool(mode)}
+            className={buttonClass(ui.spotTool === mode)}
+            title={hint}
+          >
+            <Icon className="w-3.5 h-3.5" />
+            {label}
+          </button>
+        ))}
+      </div>
+      {ui.spotTool && (
+        <p className="text-[10px] text-[var(--apex-text-dim)] mb-2">
+          Click a spot or brush along a line; the source is picked automatically
+        </p>
+      )}
+      
+      <Slider
+        label="Brush Size"
+        value={ui.spotSize}
+        min={4}
+        max={MAX_SPOT_SIZE}
+        unit="px"
+        onChange={v => setUIState({ spotSize: v })}
+      />
+      
+      {/* Spot list */}
+      {spots.length > 0 && (
+        <>
+          <div className="flex items-center justify-between mt-4 mb-2">
+            <span className="text-[10px] font-semibold uppercase tracking-wider text-[var(--apex-text-dim)]">
+              Spots
+            </span>
+            <button
+              onClick={clearSpots}
+              className="px-1.5 py-0.5 rounded text-[10px] text-[var(--apex-text-muted)]
+                         hover:text-[var(--apex-red)] hover:bg-[var(--apex-bg-hover)] transition-colors"
+            >
+              Clear all
+            </button>
+          </div>
+          <div className="space-y-1 mb-4">
+            {spots.map((spot, index) => (
+              <div
+                key={spot.id}
+                onClick={() => setUIState({ activeSpotId: spot.id === ui.activeSpotId ? null : spot.id })}
+                className={`flex items-center gap-2 px-2 py-1.5 rounded-md cursor-pointer transition-all ${
+                  spot.id === ui.activeSpotId
+                    ? 'bg-[var(--apex-accent-subtle)] text-[var(--apex-accent)]'
+                    : 'text-[var(--apex-text-secondary)] hover:bg-[var(--apex-bg-hover)]'
+                }`}
+              >
+                <span className="flex-1 text-xs truncate">
+                  {spot.mode === 'heal' ? 'Heal' : 'Clone'} {index + 1}
+                </span>
+                <button
+                  onClick={e => { e.stopPropagation(); deleteSpot(spot.id); }}
+                  className="p-0.5 rounded text-[var(--apex-text-dim)] hover:text-[var(--apex-red)] transition-colors"
+                  title="Delete spot"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+      
+      {/* Selected spot */}
+      {activeSpot && (
+        <>
+          <div className="flex gap-1.5 mb-3">
+            {SPOT_TOOLS.map(({ mode, label }) => (
+              <button
+                key={mode}
+                onClick={() => {
+                  updateSpot(activeSpot.id, { mode });
+                  pushHistory();
+                }}
+                className={buttonClass(activeSpot.mode === mode)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          
+          <Slider
+            label="Size"
+            value={Math.round(activeSpot.radius * 2 * longSide)}
+            min={4}
+            max={MAX_SPOT_SIZE}
+            unit="px"
+            onChange={v => updateSpot(activeSpot.id, { radius: v / 2 / longSide })}
+            onChangeEnd={handleChangeEnd}
+          />
+          <Slider
+            label="Feather"
+            value={activeSpot.feather}
+            min={0}
+            max={100}
+            onChange={v => updateSpot(activeSpot.id, { feather: v })}
+            onChangeEnd={handleChangeEnd}
+          />
+          <Slider
+            label="Opacity"
+            value={activeSpot.opacity}
+            min={0}
+            max={100}
+            unit="%"
+            onChange={v => updateSpot(activeSpot.id, { opacity: v })}
+            onChangeEnd={handleChangeEnd}
+          />
+          
+          <button
+            onClick={findNewSource}
+            className="w-full flex items-center justify-center gap-1.5 py-1.5 text-xs rounded-md border
+                       border-[var(--apex-border)] text-[var(--apex-text-muted)]
+                       hover:text-[var(--apex-text-primary)] hover:bg-[var(--apex-bg-hover)] transition-all"
+            title="Pick another source patch automatically; or drag the source marker on the image"
+          >
+            <Shuffle className="w-3.5 h-3.5" />
+            Find new source
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+/**
+ * APEX Photo Studio - Scopes Component
+ * 
+ * Waveform monitor and vectorscope for any image source:
+ * - Luma waveform, RGB parade or RGB overlay
+ * - Vectorscope with color targets, skin-tone line and zoom
+ * - Adjustable trace intensity
+ * - Click the vectorscope to highlight matching pixels (editor only)
+ * 
+ * Used below the histogram in the editor (processed image) and over the
+ * live camera feed (sampled video frames).
+ */
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { X } from 'lucide-react';
+import { useImageStore } from '@/hooks/useImageStore';
+import {
+  calculateVectorscope,
+  calculateWaveform,
+  getVectorscopeChroma,
+  renderVectorscope,
+  renderWaveform,
+} from '@/engine/scopes';
+import type { ScopeMode } from '@/types';
+
+interface ScopesProps {
+  /** Image to analyze; the scope is blank while null */
+  source: ImageData | null;
+  /** Allow picking a chroma region and the skin overlay on the vectorscope */
+  selectable?: boolean;
+  className?: string;
+}
+
+const MODES: { mode: ScopeMode; label: string }[] = [
+  { mode: 'luma', label: 'Luma' },
+  { mode: 'parade', label: 'Parade' },
+  { mode: 'overlay', label: 'RGB' },
+  { mode: 'vectorscope', label: 'Vector' },
+];
+
+const ZOOM_LEVELS = [1, 2, 4];
+
+/** Radius of a click selection on the vectorscope, in CSS pixels */
+const SELECTION_RADIUS = 10;
+
+export function Scopes({ source, selectable = false, className = '' }: ScopesProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { ui, setUIState } = useImageStore();
+  const { scopeMode, scopeIntensity, scopeZoom, chromaSelection, showSkinTones } = ui;
+  const isVectorscope = scopeMode === 'vectorscope';
+  const selection = selectable ? chromaSelection : null;
+  
+  const waveform = useMemo(
+    () => (source && !isVectorscope ? calculateWaveform(source) : null),
+    [source, isVectorscope]
+  );
+  const vectorscope = useMemo(
+    () => (source && isVectorscope ? calculateVectorscope(source, scopeZoom) : null),
+    [source, isVectorscope, scopeZoom]
+  );
+  
+  // Render scope to canvas
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    
+    const rect = canvas.getBoundingClientRect();
+    canvas.width = rect.width * window.devicePixelRatio;
+    canvas.height = rect.height * window.devicePixelRatio;
+    ctx.scale(window.devicePixelRatio, window.devicePixelRatio);
+    
+    if (vectorscope) {
+      renderVectorscope(ctx, vectorscope, rect.width, rect.height, {
+        intensity: scopeIntensity,
+        selection,
+      });
+    } else if (waveform) {
+      renderWaveform(ctx, waveform, rect.width, rect.height, {
+        mode: scopeMode,
+        intensity: scopeIntensity,
+      });
+    } else {
+      ctx.clearRect(0, 0, rect.width, rect.height);
+    }
+  }, [waveform, vectorscope, scopeMode, scopeIntensity, selection]);
+  
+  // Pick the chroma region under the cursor
+  const handleClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!selectable || !isVectorscope) return;
+    
+    const rect = e.currentTarget.getBoundingClientRect();
+    const chroma = getVectorscopeChroma(
+      e.clientX - rect.left,
+      e.clientY - rect.top,
+      rect.width,
+      rect.height,
+      scopeZoom
+    );
+    if (!chroma) return;
+    
+    const radius = (SELECTION_RADIUS / (Math.min(rect.width, rect.height) / 2)) * (0.5 / scopeZoom);
+    setUIState({ chromaSelection: { ...chroma, radius } });
+  }, [selectable, isVectorscope, scopeZoom, setUIState]);
+  
+  return (
+    <div className={`glass rounded-xl p-3 ${className}`}>
+      {/* Header with mode selector */}
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs font-semibold text-[var(--apex-text-secondary)]">
+          {isVectorscope ? 'Vectorscope' : 'Waveform'}
+        </span>
+        <div className="flex gap-0.5 p-0.5 rounded-md bg-[var(--apex-bg-dark)] border border-[var(--apex-border)]">
+          {MODES.map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={() => setUIState({ scopeMode: mode })}
+              className={`px-2 py-0.5 rounded text-[10px] font-medium transition-all ${
+                scopeMode === mode
+                  ? 'bg-[var(--apex-accent-subtle)] text-[var(--apex-accent)]'
+                  : 'text-[var(--apex-text-muted)] hover:text-[var(--apex-text-primary)]'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      
+      {/* Scope Canvas */}
+      <div className={`relative bg-black rounded-lg overflow-hidden border border-[var(--apex-border)] ${
+        isVectorscope ? 'h-56' : 'h-32'
+      }`}>
+        <canvas
+          ref={canvasRef}
+          onClick={handleClick}
+          className={`w-full h-full ${selectable && isVectorscope ? 'cursor-crosshair' : ''}`}
+        />
+      </div>
+      
+      {/* Vectorscope zoom and pixel highlighting */}
+      {isVectorscope && (
+        <div className="flex items-center gap-2 mt-3">
+          <div className="flex gap-0.5 p-0.5 rounded-md bg-[var(--apex-bg-dark)] border border-[var(--apex-border)]">
+            {ZOOM_LEVELS.map(zoom => (
+              <button
+                key={zoom}
+                onClick={() => setUIState({ scopeZoom: zoom })}
+                className={`px-2 py-0.5 rounded text-[10px] font-medium transition-all ${
+                  scopeZoom === zoom
+                    ? 'bg-[var(--apex-accent-subtle)] text-[var(--apex-accent)]'
+                    : 'text-[var(--apex-text-muted)] hover:text-[var(--apex-text-primary)]'
+                }`}
+              >
+                {zoom}×
+              </button>
+            ))}
+          </div>
+          
+          {selectable && (
+            <>
+              <button
+                onClick={() => setUIState({ showSkinTones: !showSkinTones })}
+                className={`px-2 py-0.5 rounded text-[10px] font-medium transition-all ${
+                  showSkinTones
+                    ? 'bg-[var(--apex-accent-subtle)] text-[var(--apex-accent)]'
+                    : 'text-[var(--apex-text-muted)] hover:text-[var(--apex-text-primary)]'
+                }`}
+                title="Highlight skin-tone pixels"
+              >
+                Skin
+              </button>
+              {chromaSelection ? (
+                <button
+                  onClick={() => setUIState({ chromaSelection: null })}
+                  className="ml-auto flex items-center gap-1 text-[10px] text-[var(--apex-text-muted)] hover:text-[var(--apex-text-primary)]"
+                  title="Clear highlighted pixels"
+                >
+                  <X className="w-3 h-3" />
+                  Clear
+                </button>
+              ) : (
+                <span className="ml-auto text-[10px] text-[var(--apex-text-dim)]">Click to highlight</span>
+              )}
+            </>
+          )}
+        </div>
+      )}
+      
+      {/* Intensity */}
+      <div className="flex items-center gap-2 mt-3">
+        <span className="text-[10px] text-[var(--apex-text-dim)]">Intensity</span>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={scopeIntensity}
+          onChange={e => setUIState({ scopeIntensity: parseInt(e.target.value) })}
+          className="flex-1 cursor-pointer"
+        />
+        <span className="w-6 text-right text-[10px] font-mono tabular-nums text-[var(--apex-text-muted)]">
+          {scopeIntensity}
+        </span>
+      </div>
+    </div>
+  );
+}
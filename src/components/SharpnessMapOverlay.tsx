@@ -0,0 +1,56 @@
+/**
+ * APEX Photo Studio - Sharpness Map Overlay Component
+ * 
+ * Shows where the image is in focus:
+ * - Heat map of edge energy, relative to the sharpest area
+ * - Sharpness score for comparing frames of a burst
+ * - Same edge detector as the camera's focus peaking
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import { useImageStore } from '@/hooks/useImageStore';
+import { calculateSharpnessMap, createSharpnessMapImage } from '@/engine/focus';
+
+export function SharpnessMapOverlay() {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { image, ui } = useImageStore();
+  const { processed } = image;
+  const isVisible = ui.showSharpnessMap && !!processed;
+  
+  const map = useMemo(
+    () => (isVisible && processed ? calculateSharpnessMap(processed) : null),
+    [isVisible, processed]
+  );
+  
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !map) return;
+    
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    
+    // One pixel per block, smoothed when stretched over the image
+    canvas.width = map.columns;
+    canvas.height = map.rows;
+    ctx.putImageData(createSharpnessMapImage(map), 0, 0);
+  }, [map]);
+  
+  if (!map) return null;
+  
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        className="absolute inset-0 pointer-events-none"
+        style={{ width: '100%', height: '100%' }}
+      />
+      <div
+        className="absolute bottom-3 right-3 glass px-2.5 py-1 rounded-md text-xs pointer-events-none"
+        title="Sharpness of the best-focused areas; compare frames of a burst"
+      >
+        <span className="text-[var(--apex-text-muted)]">Sharpness </span>
+        <span className="font-mono tabular-nums text-white/90">{map.score}</span>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,266 @@
+/**
+ * APEX Photo Studio - Spot Overlay Component
+ * 
+ * On-canvas spot removal:
+ * - Click to retouch a round spot, or drag to retouch along a path
+ * - The source patch is picked automatically when the spot is made
+ * - Selected spot: drag the target or the source to move them
+ * - Other spots show as outlines that select them on click
+ * 
+ * Spots are stored relative to the original image, so the overlay maps
+ * through the current rotation, flips and crop.
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import { useImageStore } from '@/hooks/useImageStore';
+import { mapToOriginal, mapToTransformed } from '@/engine/transforms';
+import { createSpot, findSpotSource } from '@/engine/retouch';
+import type { MaskPoint, Spot } from '@/types';
+
+/** Distance between recorded path points as a fraction of the spot size */
+const PATH_POINT_SPACING = 0.25;
+
+type DragState =
+  | { kind: 'paint'; points: MaskPoint[] }
+  | { kind: 'target' | 'source'; spotId: string; last: MaskPoint };
+
+interface SpotOverlayProps {
+  /** Displayed (cropped) frame width in pixels */
+  width: number;
+  /** Displayed (cropped) frame height in pixels */
+  height: number;
+}
+
+export function SpotOverlay({ width, height }: SpotOverlayProps) {
+  const { image, adjustments, ui, setAdjustments, setUIState, pushHistory } = useImageStore();
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const { spots, transform } = adjustments;
+  const original = image.original;
+  const originalWidth = original?.width ?? 1;
+  const originalHeight = original?.height ?? 1;
+  const longSide = Math.max(originalWidth, originalHeight);
+  
+  // Original image point (normalized) to display pixels
+  const toPixels = useCallback((point: MaskPoint) => {
+    const p = mapToTransformed(point, transform, originalWidth, originalHeight);
+    return { x: p.x * width, y: p.y * height };
+  }, [transform, originalWidth, originalHeight, width, height]);
+  
+  // Pointer position as a normalized point of the original image
+  const toOriginal = useCallback((e: React.PointerEvent): MaskPoint => {
+    const bounds = overlayRef.current!.getBoundingClientRect();
+    const display = {
+      x: (e.clientX - bounds.left) / bounds.width,
+      y: (e.clientY - bounds.top) / bounds.height,
+    };
+    return mapToOriginal(display, transform, originalWidth, originalHeight);
+  }, [transform, originalWidth, originalHeight]);
+  
+  // Display pixels per original pixel (geometry only rotates and crops)
+  const origin = toPixels({ x: 0.5, y: 0.5 });
+  const step = toPixels({ x: 0.5 + 1 / originalWidth, y: 0.5 });
+  const scale = Math.hypot(step.x - origin.x, step.y - origin.y);
+  
+  // ==========================================================================
+  // Pointer interaction
+  // ==========================================================================
+  
+  const handlePointerDown = useCallback((e: React.PointerEvent) => {
+    if (!ui.spotTool) return;
+    overlayRef.current?.setPointerCapture(e.pointerId);
+    setDrag({ kind: 'paint', points: [toOriginal(e)] });
+  }, [ui.spotTool, toOriginal]);
+  
+  const startHandleDrag = useCallback((
+    spotId: string,
+    kind: 'target' | 'source'
+  ) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    overlayRef.current?.setPointerCapture(e.pointerId);
+    setUIState({ activeSpotId: spotId });
+    setDrag({ kind, spotId, last: toOriginal(e) });
+  }, [toOriginal, setUIState]);
+  
+  const handlePointerMove = useCallback((e: React.PointerEvent) => {
+    if (!drag) return;
+    const point = toOriginal(e);
+    
+    if (drag.kind === 'paint') {
+      const last = drag.points[drag.points.length - 1];
+      const distance = Math.hypot(
+        (point.x - last.x) * originalWidth,
+        (point.y - last.y) * originalHeight
+      );
+      if (distance < Math.max(1, ui.spotSize * PATH_POINT_SPACING)) return;
+      setDrag({ kind: 'paint', points: [...drag.points, point] });
+      return;
+    }
+    
+    const dx = point.x - drag.last.x;
+    const dy = point.y - drag.last.y;
+    
+    // Moving the target keeps the source in place
+    setAdjustments({
+      spots: spots.map(spot => {
+        if (spot.id !== drag.spotId) return spot;
+        if (drag.kind === 'source') {
+          return { ...spot, offset: { x: spot.offset.x + dx, y: spot.offset.y + dy } };
+        }
+        return {
+          ...spot,
+          points: spot.points.map(p => ({ x: p.x + dx, y: p.y + dy })),
+          offset: { x: spot.offset.x - dx, y: spot.offset.y - dy },
+        };
+      }),
+    });
+    setDrag({ ...drag, last: point });
+  }, [drag, spots, originalWidth, originalHeight, ui.spotSize, toOriginal, setAdjustments]);
+  
+  const handlePointerUp = useCallback(() => {
+    if (!drag) return;
+    
+    if (drag.kind === 'paint' && ui.spotTool) {
+      const source = image.proxy ?? image.original;
+      if (source) {
+        const radius = ui.spotSize / 2 / longSide;
+        const offset = findSpotSource(source, drag.points, radius);
+        const spot = createSpot(ui.spotTool, drag.points, radius, offset);
+        setAdjustments({ spots: [...spots, spot] });
+        setUIState({ activeSpotId: spot.id });
+      }
+    }
+    
+    pushHistory();
+    setDrag(null);
+  }, [drag, ui.spotTool, ui.spotSize, image.proxy, image.original, longSide, spots, setAdjustments, setUIState, pushHistory]);
+  
+  // ==========================================================================
+  // Rendering
+  // ==========================================================================
+  
+  const activeSpot = spots.find(spot => spot.id === ui.activeSpotId);
+  if (width === 0 || height === 0 || !original || (!activeSpot && !ui.spotTool)) return null;
+  
+  // Handles keep their on-screen size regardless of zoom
+  const handleSize = 12 / ui.zoom;
+  const strokeWidth = 1.5 / ui.zoom;
+  const dash = `${6 / ui.zoom} ${4 / ui.zoom}`;
+  
+  // Outline of a spot's area; a path shows as a band of the spot's width
+  const renderArea = (points: MaskPoint[], radius: number, color: string, dashed: boolean) => {
+    const pixels = points.map(toPixels);
+    const r = radius * longSide * scale;
+    
+    if (pixels.length === 1) {
+      return (
+        <circle
+          cx={pixels[0].x}
+          cy={pixels[0].y}
+          r={r}
+          fill="none"
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeDasharray={dashed ? dash : undefined}
+        />
+      );
+    }
+    
+    return (
+      <polyline
+        points={pixels.map(p => `${p.x},${p.y}`).join(' ')}
+        fill="none"
+        stroke={color}
+        strokeOpacity={0.3}
+        strokeWidth={r * 2}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    );
+  };
+  
+  const renderHandle = (spot: Spot, kind: 'target' | 'source', point: { x: number; y: number }) => (
+    <circle
+      cx={point.x}
+      cy={point.y}
+      r={handleSize / 2}
+      fill={kind === 'target' ? 'var(--apex-accent)' : 'white'}
+      stroke="rgba(0, 0, 0, 0.5)"
+      strokeWidth={strokeWidth}
+      style={{ cursor: 'move', pointerEvents: 'auto' }}
+      onPointerDown={startHandleDrag(spot.id, kind)}
+    />
+  );
+  
+  const renderActive = (spot: Spot) => {
+    const sourcePoints = spot.points.map(p => ({ x: p.x + spot.offset.x, y: p.y + spot.offset.y }));
+    const target = toPixels(spot.points[0]);
+    const source = toPixels(sourcePoints[0]);
+    
+    return (
+      <>
+        {renderArea(sourcePoints, spot.radius, 'white', true)}
+        {renderArea(spot.points, spot.radius, 'var(--apex-accent)', false)}
+        <line
+          x1={source.x}
+          y1={source.y}
+          x2={target.x}
+          y2={target.y}
+          stroke="rgba(255, 255, 255, 0.85)"
+          strokeWidth={strokeWidth}
+          strokeDasharray={dash}
+        />
+        {renderHandle(spot, 'source', source)}
+        {renderHandle(spot, 'target', target)}
+      </>
+    );
+  };
+  
+  // Other spots: a marker on their first point that selects them
+  const renderMarker = (spot: Spot) => {
+    const point = toPixels(spot.points[0]);
+    return (
+      <circle
+        key={spot.id}
+        cx={point.x}
+        cy={point.y}
+        r={handleSize / 2}
+        fill="rgba(0, 0, 0, 0.35)"
+        stroke="white"
+        strokeWidth={strokeWidth}
+        style={{ cursor: 'pointer', pointerEvents: 'auto' }}
+        onPointerDown={e => e.stopPropagation()}
+        onClick={() => setUIState({ activeSpotId: spot.id })}
+      />
+    );
+  };
+  
+  return (
+    <div
+      ref={overlayRef}
+      className="absolute inset-0 z-10 touch-none"
+      style={{
+        cursor: ui.spotTool ? 'crosshair' : undefined,
+        // Without a tool only the handles take the pointer; the canvas still pans
+        pointerEvents: ui.spotTool || drag ? 'auto' : 'none',
+      }}
+      onMouseDown={e => { if (ui.spotTool || drag) e.stopPropagation(); }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <svg
+        className="absolute inset-0 w-full h-full"
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="none"
+        onMouseDown={e => e.stopPropagation()}
+        style={{ pointerEvents: 'none' }}
+      >
+        {spots.filter(spot => spot.id !== activeSpot?.id).map(renderMarker)}
+        {activeSpot && renderActive(activeSpot)}
+        {drag?.kind === 'paint' && renderArea(drag.points, ui.spotSize / 2 / longSide, 'white', false)}
+      </svg>
+    </div>
+  );
+}
@@ -6,7 +6,7 @@
  * - Mode toggle with animation
  * - Zoom controls
  * - Comparison mode
- * - Grid and zebra overlays
+ * - Grid, zebra, false color and sharpness overlays
  * - Undo/Redo
  * - Export functionality
  */
@@ -25,7 +25,10 @@ import {
   SplitSquareVertical,
   Upload,
   Aperture,
-  Download
+  Download,
+  Activity,
+  Palette,
+  Focus
 } from 'lucide-react';
 import { useRef, useState } from 'react';
 import { useImageStore } from '@/hooks/useImageStore';
@@ -258,6 +261,32 @@ export function Toolbar() {
                 <span className="hidden lg:inline text-xs font-medium">Zebras</span>
               </button>
               
+              {/* False color */}
+              <button
+                onClick={() => setUIState({ showFalseColor: !ui.showFalseColor })}
+                className={`btn-icon ${
+                  ui.showFalseColor 
+                    ? 'btn-icon-active' 
+                    : ''
+                }`}
+                title="False Color Exposure [F]"
+              >
+                <Palette className="w-4 h-4" />
+              </button>
+              
+              {/* Sharpness map */}
+              <button
+                onClick={() => setUIState({ showSharpnessMap: !ui.showSharpnessMap })}
+                className={`btn-icon ${
+                  ui.showSharpnessMap 
+                    ? 'btn-icon-active' 
+                    : ''
+                }`}
+                title="Sharpness Map [P]"
+              >
+                <Focus className="w-4 h-4" />
+              </button>
+              
               {/* Histogram toggle */}
               <button
                 onClick={() => setUIState({ showHistogram: !ui.showHistogram })}
@@ -271,15 +300,30 @@ export function Toolbar() {
                 <LayoutGrid className="w-4 h-4" />
               </button>
               
+              {/* Scopes toggle */}
+              <button
+                onClick={() => setUIState({ showScopes: !ui.showScopes })}
+                className={`btn-icon ${
+                  ui.showScopes 
+                    ? 'btn-icon-active' 
+                    : ''
+                }`}
+                title="Toggle Waveform / Vectorscope [W]"
+              >
+                <Activity className="w-4 h-4" />
+              </button>
+              
               <div className="w-px h-5 bg-[var(--apex-border)] mx-1" />
               
-              {/* Export Button */}
+              {/* Export Button; the crop tool renders the uncropped frame */}
               <button
                 onClick={() => setIsExportOpen(true)}
+                disabled={ui.isCropping}
                 className="flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium
                            bg-gradient-to-r from-cyan-500 to-blue-600 text-white 
-                           hover:opacity-90 transition-all shadow-lg shadow-cyan-500/25"
-                title="Export Image (Ctrl+Shift+E)"
+                           hover:opacity-90 transition-all shadow-lg shadow-cyan-500/25
+                           disabled:opacity-30 disabled:cursor-not-allowed"
+                title={ui.isCropping ? 'Apply or cancel the crop to export' : 'Export Image (Ctrl+Shift+E)'}
               >
                 <Download className="w-4 h-4" />
                 <span className="hidden md:inline">Export</span>
@@ -0,0 +1,219 @@
+/**
+ * APEX Photo Studio - Transform Panel Component
+ * 
+ * Geometry controls:
+ * - Rotate 90° left/right and fine angle
+ * - Flip horizontal/vertical
+ * - Opens the crop & straighten tool; crop reset
+ */
+
+import { useCallback, useRef } from 'react';
+import { Crop, RotateCcw, RotateCcwSquare, RotateCwSquare, FlipHorizontal, FlipVertical } from 'lucide-react';
+import { useImageStore } from '@/hooks/useImageStore';
+import { isIdentityTransform, normalizeRotation } from '@/engine/transforms';
+import { DEFAULT_TRANSFORM_ADJUSTMENTS } from '@/types';
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  unit?: string;
+  onChange: (value: number) => void;
+  onChangeEnd?: () => void;
+}
+
+function Slider({ label, value, min, max, step = 1, unit = '', onChange, onChangeEnd }: SliderProps) {
+  const percentage = ((value - min) / (max - min)) * 100;
+  const isNeutral = value === 0;
+  const centerPercent = ((0 - min) / (max - min)) * 100;
+  
+  return (
+    <div className="mb-3 group">
+      <div className="flex justify-between items-center mb-1.5">
+        <span className="text-[10px] text-[var(--apex-text-muted)] font-medium">
+          {label}
+        </span>
+        <span className={`text-[10px] font-mono tabular-nums px-1 py-0.5 rounded transition-all ${
+          isNeutral
+            ? 'text-[var(--apex-text-dim)]'
+            : 'text-white bg-white/10'
+        }`}>
+          {value > 0 ? '+' : ''}{value}{unit}
+        </span>
+      </div>
+      
+      <div className="relative h-1.5">
+        <div className="absolute inset-0 rounded-full bg-[var(--apex-bg-dark)] border border-[var(--apex-border)]" />
+        
+        <div
+          className="absolute h-full rounded-full bg-[var(--apex-accent)] transition-all duration-75"
+          style={{
+            left: value < 0 ? `${percentage}%` : `${centerPercent}%`,
+            width: `${Math.abs(percentage - centerPercent)}%`,
+          }}
+        />
+        
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={value}
+          onChange={e => onChange(parseFloat(e.target.value))}
+          onMouseUp={() => onChangeEnd?.()}
+          onTouchEnd={() => onChangeEnd?.()}
+          className="absolute inset-0 w-full opacity-0 cursor-pointer"
+        />
+        
+        <div
+          className="absolute w-3 h-3 -translate-y-1/2 top-1/2 -translate-x-1/2 pointer-events-none"
+          style={{ left: `${percentage}%` }}
+        >
+          <div className="w-full h-full rounded-full bg-white border-2 border-[var(--apex-accent)] shadow-sm" />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function TransformPanel() {
+  const { adjustments, setAdjustments, pushHistory, setUIState } = useImageStore();
+  const debounceRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  const { transform } = adjustments;
+  
+  const handleChangeEnd = useCallback(() => {
+    clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(() => {
+      pushHistory();
+    }, 100);
+  }, [pushHistory]);
+  
+  const updateRotation = useCallback((value: number) => {
+    setAdjustments({
+      transform: { ...transform, rotation: normalizeRotation(value) },
+    });
+  }, [transform, setAdjustments]);
+  
+  const rotateBy = useCallback((degrees: number) => {
+    updateRotation(transform.rotation + degrees);
+    pushHistory();
+  }, [transform.rotation, updateRotation, pushHistory]);
+  
+  const toggleFlip = useCallback((key: 'flipHorizontal' | 'flipVertical') => {
+    setAdjustments({
+      transform: { ...transform, [key]: !transform[key] },
+    });
+    pushHistory();
+  }, [transform, setAdjustments, pushHistory]);
+  
+  const resetCrop = useCallback(() => {
+    setAdjustments({
+      transform: { ...transform, crop: { ...DEFAULT_TRANSFORM_ADJUSTMENTS.crop } },
+    });
+    pushHistory();
+  }, [transform, setAdjustments, pushHistory]);
+  
+  const resetAll = useCallback(() => {
+    setAdjustments({
+      transform: {
+        ...DEFAULT_TRANSFORM_ADJUSTMENTS,
+        crop: { ...DEFAULT_TRANSFORM_ADJUSTMENTS.crop },
+      },
+    });
+    pushHistory();
+  }, [setAdjustments, pushHistory]);
+  
+  const { crop } = transform;
+  const isCropped = crop.x !== 0 || crop.y !== 0 || crop.width !== 1 || crop.height !== 1;
+  
+  const buttonClass = (active: boolean) =>
+    `flex-1 flex items-center justify-center py-1.5 rounded-md border transition-all ${
+      active
+        ? 'bg-[var(--apex-accent-subtle)] text-[var(--apex-accent)] border-[var(--apex-border-accent)]'
+        : 'text-[var(--apex-text-muted)] border-[var(--apex-border)] hover:text-[var(--apex-text-primary)] hover:bg-[var(--apex-bg-hover)]'
+    }`;
+  
+  return (
+    <div className="p-3">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Crop className="w-4 h-4 text-[var(--apex-accent)]" />
+          <span className="text-xs font-semibold text-[var(--apex-text-primary)]">Transform</span>
+        </div>
+        {!isIdentityTransform(transform) && (
+          <button
+            onClick={resetAll}
+            className="p-1 rounded text-[var(--apex-text-dim)] hover:text-[var(--apex-text-secondary)]
+                       hover:bg-[var(--apex-bg-hover)] transition-all"
+            title="Reset all"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+      
+      {/* Rotate & Flip */}
+      <div className="flex gap-1.5 mb-4">
+        <button onClick={() => rotateBy(-90)} className={buttonClass(false)} title="Rotate left 90°">
+          <RotateCcwSquare className="w-4 h-4" />
+        </button>
+        <button onClick={() => rotateBy(90)} className={buttonClass(false)} title="Rotate right 90°">
+          <RotateCwSquare className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => toggleFlip('flipHorizontal')}
+          className={buttonClass(transform.flipHorizontal)}
+          title="Flip horizontal"
+        >
+          <FlipHorizontal className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => toggleFlip('flipVertical')}
+          className={buttonClass(transform.flipVertical)}
+          title="Flip vertical"
+        >
+          <FlipVertical className="w-4 h-4" />
+        </button>
+      </div>
+      
+      {/* Angle */}
+      <Slider
+        label="Angle"
+        value={transform.rotation}
+        min={-180}
+        max={180}
+        step={0.5}
+        unit="°"
+        onChange={updateRotation}
+        onChangeEnd={handleChangeEnd}
+      />
+      
+      {/* Crop */}
+      <button
+        onClick={() => setUIState({ isCropping: true })}
+        className="w-full flex items-center justify-center gap-1.5 py-1.5 mb-2 text-xs rounded-md border border-[var(--apex-border)]
+                   text-[var(--apex-text-secondary)] hover:text-[var(--apex-text-primary)] hover:bg-[var(--apex-bg-hover)] transition-all"
+        title="Crop & Straighten (R)"
+      >
+        <Crop className="w-3.5 h-3.5" />
+        Crop & Straighten
+      </button>
+      {isCropped && (
+        <div className="flex items-center justify-between text-[10px] text-[var(--apex-text-dim)] bg-[var(--apex-bg-dark)] rounded p-2">
+          <span className="font-mono tabular-nums">
+            Crop {Math.round(crop.width * 100)}% × {Math.round(crop.height * 100)}%
+          </span>
+          <button
+            onClick={resetCrop}
+            className="text-[var(--apex-text-muted)] hover:text-[var(--apex-text-primary)] transition-colors"
+          >
+            Reset crop
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,13 +2,26 @@
  * APEX Photo Studio - Zebra Overlay Component
  * 
  * Visual exposure warning overlay:
- * - Red stripes for overexposed areas
- * - Blue tint for underexposed areas
+ * - Channel colors where only some channels clip (a red that clips
+ *   only R shows red)
+ * - Dark stripes where every channel clips in the highlights
+ * - Light stripes where every channel clips in the shadows
+ * - Highlights and shadows toggled separately from the histogram
  */
 
 import { useEffect, useRef } from 'react';
 import { useImageStore } from '@/hooks/useImageStore';
-import { createClippingMask } from '@/engine/histogram';
+import {
+  createChannelClippingMask,
+  CLIP_HIGHLIGHTS,
+  CLIP_SHADOWS,
+  CLIP_HIGHLIGHT_RED,
+  CLIP_HIGHLIGHT_GREEN,
+  CLIP_HIGHLIGHT_BLUE,
+} from '@/engine/histogram';
+
+/** Stripe width as a power of two (2^2 = 4 pixels) */
+const STRIPE_SHIFT = 2;
 
 interface ZebraOverlayProps {
   width: number;
@@ -32,60 +45,50 @@ export function ZebraOverlay({ width: _width, height: _height }: ZebraOverlayPro
     canvas.width = processed.width;
     canvas.height = processed.height;
     
-    // Create clipping mask
-    const mask = createClippingMask(
+    // Per-channel clipping flags
+    const mask = createChannelClippingMask(
       processed,
       ui.zebraThreshold.high,
       ui.zebraThreshold.low
     );
     
-    // Create zebra pattern
-    const stripeWidth = 4;
-    const patternCanvas = document.createElement('canvas');
-    patternCanvas.width = stripeWidth * 2;
-    patternCanvas.height = stripeWidth * 2;
-    const patternCtx = patternCanvas.getContext('2d')!;
-    
-    // Diagonal stripes
-    patternCtx.fillStyle = 'rgba(255, 0, 0, 0.6)';
-    patternCtx.beginPath();
-    patternCtx.moveTo(0, 0);
-    patternCtx.lineTo(stripeWidth, 0);
-    patternCtx.lineTo(stripeWidth * 2, stripeWidth);
-    patternCtx.lineTo(stripeWidth * 2, stripeWidth * 2);
-    patternCtx.lineTo(stripeWidth, stripeWidth * 2);
-    patternCtx.lineTo(0, stripeWidth);
-    patternCtx.closePath();
-    patternCtx.fill();
-    
-    // Pattern created for future use in zebra stripe rendering
-    
     // Clear canvas
     ctx.clearRect(0, 0, canvas.width, canvas.height);
     
     // Draw clipping overlay
     const outputData = ctx.createImageData(processed.width, processed.height);
+    const { width } = processed;
     
     for (let i = 0; i < mask.length; i++) {
       const idx = i * 4;
+      const highlights = ui.zebraHighlights ? mask[i] & CLIP_HIGHLIGHTS : 0;
+      const shadows = ui.zebraShadows ? mask[i] & CLIP_SHADOWS : 0;
+      const flags = highlights || shadows;
+      if (!flags) continue;
       
-      if (mask[i] === 1) {
-        // Highlight clipping - red
-        outputData.data[idx] = 255;
-        outputData.data[idx + 1] = 0;
-        outputData.data[idx + 2] = 0;
-        outputData.data[idx + 3] = 150;
-      } else if (mask[i] === 2) {
-        // Shadow clipping - blue
-        outputData.data[idx] = 0;
-        outputData.data[idx + 1] = 100;
-        outputData.data[idx + 2] = 255;
+      if (flags === CLIP_HIGHLIGHTS || flags === CLIP_SHADOWS) {
+        // Every channel clipped - zebra stripes, dark on highlights, light on shadows
+        const x = i % width;
+        const y = (i - x) / width;
+        if (((x + y) >> STRIPE_SHIFT) & 1) continue;
+        
+        const value = highlights ? 0 : 255;
+        outputData.data[idx] = value;
+        outputData.data[idx + 1] = value;
+        outputData.data[idx + 2] = value;
+        outputData.data[idx + 3] = 170;
+      } else {
+        // Some channels clipped - their color (red only shows red, red + green yellow)
+        const channels = highlights || flags >> 3;
+        outputData.data[idx] = channels & CLIP_HIGHLIGHT_RED ? 255 : 0;
+        outputData.data[idx + 1] = channels & CLIP_HIGHLIGHT_GREEN ? 255 : 0;
+        outputData.data[idx + 2] = channels & CLIP_HIGHLIGHT_BLUE ? 255 : 0;
         outputData.data[idx + 3] = 150;
       }
     }
     
     ctx.putImageData(outputData, 0, 0);
-  }, [image.processed, ui.showZebras, ui.zebraThreshold]);
+  }, [image.processed, ui.showZebras, ui.zebraThreshold, ui.zebraHighlights, ui.zebraShadows]);
   
   if (!ui.showZebras || !image.processed) return null;
   
@@ -5,6 +5,7 @@
  * - Exposure compensation (EV-based)
  * - Contrast (S-curve based)
  * - Highlights/Shadows/Whites/Blacks (luminance-masked)
+ * - Camera calibration and channel mixer (color matrices)
  * - Temperature and Tint (color balance)
  * - Vibrance and Saturation
  * - Clarity (local contrast)
@@ -18,10 +19,12 @@ import {
   hslToRgb, 
   kelvinToRgb,
   getLuminance,
+  applyGamma,
   clamp,
   normalizeRgb,
   denormalizeRgb,
   type RGB,
+  type HSL,
 } from '@/utils/colorspace';
 
 import type { BasicAdjustments, ColorAdjustments } from '@/types';
@@ -256,6 +259,139 @@ export function adjustBlacks(rgb: RGB, amount: number): RGB {
   };
 }
 
+// ============================================================================
+// CAMERA CALIBRATION & CHANNEL MIXER
+// ============================================================================
+
+import type { CalibrationAdjustments, ChannelMixerAdjustments, ChannelMixerOutput, RGBChannelName } from '@/types';
+
+/**
+ * 3x4 color matrix, row-major
+ * Output channel i is m[4i]·r + m[4i+1]·g + m[4i+2]·b + m[4i+3]
+ */
+export type ColorMatrix = number[];
+
+const RGB_CHANNELS: RGBChannelName[] = ['red', 'green', 'blue'];
+
+/** Primary hue rotation at ±100, in degrees */
+const CALIBRATION_HUE_RANGE = 30;
+
+/**
+ * Check whether any calibration primary is moved
+ */
+export function hasCalibration(calibration: CalibrationAdjustments): boolean {
+  return RGB_CHANNELS.some(channel =>
+    calibration[channel].hue !== 0 || calibration[channel].saturation !== 0
+  );
+}
+
+/**
+ * Check whether the channel mixer changes anything
+ */
+export function hasChannelMixer(mixer: ChannelMixerAdjustments): boolean {
+  if (mixer.monochrome) return true;
+  return RGB_CHANNELS.some(output => {
+    const row = mixer[output];
+    return row.constant !== 0 ||
+      RGB_CHANNELS.some(input => row[input] !== (input === output ? 100 : 0));
+  });
+}
+
+/**
+ * Build the camera calibration matrix
+ * 
+ * Each primary is split into gray (a third of white) and a chroma vector
+ * perpendicular to the gray axis. Hue rotates the chroma around the gray
+ * axis and saturation scales it; the moved primaries become the matrix
+ * columns. Whatever chroma the three columns no longer cancel out is
+ * taken back evenly from all of them, so white stays white.
+ */
+export function getCalibrationMatrix(calibration: CalibrationAdjustments): ColorMatrix {
+  const axis = 1 / Math.sqrt(3);
+  
+  const chromas = RGB_CHANNELS.map((channel, index) => {
+    const { hue, saturation } = calibration[channel];
+    const angle = (hue / 100) * CALIBRATION_HUE_RANGE * (Math.PI / 180);
+    const scale = 1 + saturation / 100;
+    const chroma = [0, 1, 2].map(i => (i === index ? 1 : 0) - 1 / 3);
+    // Rotation around the gray axis (chroma is perpendicular to it)
+    const cross = [
+      axis * (chroma[2] - chroma[1]),
+      axis * (chroma[0] - chroma[2]),
+      axis * (chroma[1] - chroma[0]),
+    ];
+    return chroma.map((c, i) => scale * (c * Math.cos(angle) + cross[i] * Math.sin(angle)));
+  });
+  
+  const residual = [0, 1, 2].map(i => chromas[0][i] + chromas[1][i] + chromas[2][i]);
+  const matrix: ColorMatrix = [];
+  for (let row = 0; row < 3; row++) {
+    for (let column = 0; column < 3; column++) {
+      matrix.push(1 / 3 + chromas[column][row] - residual[row] / 3);
+    }
+    matrix.push(0);
+  }
+  return matrix;
+}
+
+/**
+ * Build the channel mixer matrix (weights and constant are percentages)
+ */
+export function getChannelMixerMatrix(mixer: ChannelMixerAdjustments): ColorMatrix {
+  const rows: ChannelMixerOutput[] = mixer.monochrome
+    ? [mixer.red, mixer.red, mixer.red]
+    : [mixer.red, mixer.green, mixer.blue];
+  return rows.flatMap(row => [row.red / 100, row.green / 100, row.blue / 100, row.constant / 100]);
+}
+
+/**
+ * Chain two color matrices: the result applies `first`, then `second`
+ */
+export function multiplyColorMatrices(first: ColorMatrix, second: ColorMatrix): ColorMatrix {
+  const result: ColorMatrix = [];
+  for (let row = 0; row < 3; row++) {
+    const [a, b, c, d] = second.slice(row * 4, row * 4 + 4);
+    for (let column = 0; column < 4; column++) {
+      result.push(
+        a * first[column] + b * first[4 + column] + c * first[8 + column] +
+        (column === 3 ? d : 0)
+      );
+    }
+  }
+  return result;
+}
+
+/**
+ * Combined calibration and channel mixer matrix, or null when both are neutral
+ * 
+ * Calibration corrects the sensor's primaries first; the mixer then
+ * works on the corrected channels.
+ */
+export function getInputColorMatrix(
+  calibration: CalibrationAdjustments,
+  mixer: ChannelMixerAdjustments
+): ColorMatrix | null {
+  const calibrated = hasCalibration(calibration);
+  const mixed = hasChannelMixer(mixer);
+  if (calibrated && mixed) {
+    return multiplyColorMatrices(getCalibrationMatrix(calibration), getChannelMixerMatrix(mixer));
+  }
+  if (calibrated) return getCalibrationMatrix(calibration);
+  if (mixed) return getChannelMixerMatrix(mixer);
+  return null;
+}
+
+/**
+ * Apply a color matrix (unclamped; callers clamp to their working range)
+ */
+export function applyColorMatrix(rgb: RGB, m: ColorMatrix): RGB {
+  return {
+    r: m[0] * rgb.r + m[1] * rgb.g + m[2] * rgb.b + m[3],
+    g: m[4] * rgb.r + m[5] * rgb.g + m[6] * rgb.b + m[7],
+    b: m[8] * rgb.r + m[9] * rgb.g + m[10] * rgb.b + m[11],
+  };
+}
+
 // ============================================================================
 // COLOR TEMPERATURE & TINT
 // ============================================================================
@@ -505,6 +641,46 @@ export function applyUnsharpMask(
   };
 }
 
+// ============================================================================
+// NOISE REDUCTION
+// ============================================================================
+
+/**
+ * Apply luminance noise reduction
+ * 
+ * Photography theory:
+ * Luminance noise shows up as fine, grainy brightness variation.
+ * Smoothing it toward the local average cleans up flat areas, but
+ * doing so across real edges makes the image look soft.
+ * 
+ * Implementation: The pixel's brightness is pulled toward the blurred
+ * brightness while its color is kept. Large differences are treated
+ * as edges and left mostly untouched (edge-preserving weight).
+ * 
+ * @param original - Original pixel RGB (0-1)
+ * @param blurred - Blurred/averaged neighborhood RGB (0-1)
+ * @param amount - Noise reduction amount (0 to 100)
+ * @returns Adjusted RGB
+ */
+export function applyNoiseReduction(original: RGB, blurred: RGB, amount: number): RGB {
+  if (amount <= 0) return original;
+  
+  const luma = 0.2126 * original.r + 0.7152 * original.g + 0.0722 * original.b;
+  const blurredLuma = 0.2126 * blurred.r + 0.7152 * blurred.g + 0.0722 * blurred.b;
+  const diff = blurredLuma - luma;
+  
+  // Higher amounts also smooth stronger variations
+  const edgeThreshold = 0.02 + (amount / 100) * 0.08;
+  const edgeWeight = Math.exp(-(diff * diff) / (edgeThreshold * edgeThreshold));
+  const shift = diff * (amount / 100) * edgeWeight;
+  
+  return {
+    r: clamp(original.r + shift, 0, 1),
+    g: clamp(original.g + shift, 0, 1),
+    b: clamp(original.b + shift, 0, 1),
+  };
+}
+
 // ============================================================================
 // COMBINED ADJUSTMENT PIPELINE
 // ============================================================================
@@ -684,9 +860,9 @@ function getColorWeight(hue: number, channel: ColorChannel): number {
 
 /**
  * Check if hue is in skin tone range (orange to yellow-red)
- * Used for skin protection in adjustments
+ * Used for skin protection in adjustments and the scopes' skin overlay
  */
-function isSkinTone(hue: number, saturation: number): boolean {
+export function isSkinTone(hue: number, saturation: number): boolean {
   const inSkinHue = (hue >= 0 && hue <= 50) || (hue >= 320 && hue <= 360);
   const lowSaturation = saturation < 0.6;
   return inSkinHue && lowSaturation;
@@ -736,6 +912,100 @@ export function applyHSLAdjustments(rgb: RGB, hsl_settings: HSLAdjustments): RGB
   return hslToRgb({ h: newHue, s: newSat, l: newLum });
 }
 
+// ============================================================================
+// BLACK & WHITE
+// ============================================================================
+
+import type { BlackAndWhiteAdjustments, HSLChannelName } from '@/types';
+
+const MIX_CHANNELS: HSLChannelName[] = ['red', 'orange', 'yellow', 'green', 'cyan', 'blue', 'purple', 'magenta'];
+
+/** Largest saturation of the toning tint (at toning saturation 100) */
+const TONING_STRENGTH = 0.5;
+
+/** Pixels read by the auto mix at most */
+const AUTO_MIX_SAMPLES = 40000;
+
+/** Largest mix value the auto mix picks */
+const AUTO_MIX_LIMIT = 50;
+
+/**
+ * Convert RGB to a toned gray using a per-hue luminance mix
+ * 
+ * The gray starts from the pixel's luminance; each hue range then
+ * brightens or darkens it by its mix value, scaled by the pixel's
+ * saturation so neutral pixels keep their brightness.
+ */
+export function applyBlackAndWhite(rgb: RGB, settings: BlackAndWhiteAdjustments): RGB {
+  const hsl = rgbToHsl(rgb);
+  
+  let mix = 0;
+  for (const channel of MIX_CHANNELS) {
+    const weight = getColorWeight(hsl.h, channel);
+    if (weight > 0) mix += (settings.mix[channel] / 100) * weight;
+  }
+  
+  // Mixing scales light, so it happens on linear luminance
+  const luminance = getLuminance(rgb) * Math.max(0, 1 + mix * hsl.s);
+  const gray = applyGamma(clamp(luminance, 0, 1));
+  
+  if (settings.toningSaturation <= 0) return { r: gray, g: gray, b: gray };
+  
+  return hslToRgb({
+    h: settings.toningHue,
+    s: (settings.toningSaturation / 100) * TONING_STRENGTH,
+    l: gray,
+  });
+}
+
+/**
+ * Mix that separates the image's colors in gray
+ * 
+ * Hue ranges that are brighter than the image on average are lifted
+ * and darker ones are lowered, so colors that would merge into similar
+ * grays pull apart. Ranges the image hardly uses stay at 0.
+ * 
+ * @param image - Source pixels (a preview proxy is enough)
+ * @returns Mix values per hue range (-50 to +50)
+ */
+export function getAutoBlackAndWhiteMix(image: ImageData): Record<HSLChannelName, number> {
+  const { data } = image;
+  const pixelCount = image.width * image.height;
+  const stride = Math.max(1, Math.floor(pixelCount / AUTO_MIX_SAMPLES));
+  
+  const weights: Record<string, number> = {};
+  const sums: Record<string, number> = {};
+  let total = 0;
+  let count = 0;
+  
+  for (let p = 0; p < pixelCount; p += stride) {
+    const rgb = normalizeRgb(data[p * 4], data[p * 4 + 1], data[p * 4 + 2]);
+    const hsl = rgbToHsl(rgb);
+    const luminance = getLuminance(rgb);
+    total += luminance;
+    count++;
+    
+    for (const channel of MIX_CHANNELS) {
+      const weight = getColorWeight(hsl.h, channel) * hsl.s;
+      if (weight <= 0) continue;
+      weights[channel] = (weights[channel] ?? 0) + weight;
+      sums[channel] = (sums[channel] ?? 0) + weight * luminance;
+    }
+  }
+  
+  const mean = Math.max(total / Math.max(count, 1), 0.05);
+  const mix = {} as Record<HSLChannelName, number>;
+  for (const channel of MIX_CHANNELS) {
+    // Ignore hues covering less than about 1% of the image
+    const weight = weights[channel] ?? 0;
+    mix[channel] = weight < count * 0.01
+      ? 0
+      : Math.round(clamp(((sums[channel] / weight - mean) / mean) * 100, -AUTO_MIX_LIMIT, AUTO_MIX_LIMIT));
+  }
+  
+  return mix;
+}
+
 // ============================================================================
 // TONE CURVE ADJUSTMENTS
 // ============================================================================
@@ -789,6 +1059,18 @@ export function createCurveLUT(points: CurvePoint[]): Uint8Array {
   return lut;
 }
 
+/**
+ * Create a 256-entry unrounded table from curve points
+ * Used where the curve is sampled with interpolation (e.g. GPU textures)
+ */
+export function createCurveTable(points: CurvePoint[]): Float32Array {
+  const table = new Float32Array(256);
+  for (let i = 0; i < 256; i++) {
+    table[i] = cubicInterpolate(points, i);
+  }
+  return table;
+}
+
 /**
  * Apply curve adjustments to RGB
  */
@@ -834,6 +1116,17 @@ export function applyCurveAdjustments(rgb: RGB, curves: CurveAdjustments): RGB {
 
 import type { EffectAdjustments } from '@/types';
 
+/**
+ * Smoothstep transition from 0 (at or below start) to 1 (at or beyond end)
+ * Shared by the vignette and the gradient masks
+ */
+export function smoothFalloff(value: number, start: number, end: number): number {
+  if (value >= end) return 1;
+  if (value <= start) return 0;
+  const t = (value - start) / (end - start);
+  return t * t * (3 - 2 * t);
+}
+
 /**
  * Calculate vignette factor for a pixel position
  * 
@@ -886,16 +1179,7 @@ export function calculateVignette(
   const feather = effects.vignetteFeather / 100;
   
   // Calculate vignette strength with smooth falloff
-  const start = midpoint - feather * 0.5;
-  const end = midpoint + feather * 0.5;
-  
-  let strength = 0;
-  if (distance >= end) {
-    strength = 1;
-  } else if (distance > start) {
-    const t = (distance - start) / (end - start);
-    strength = t * t * (3 - 2 * t); // Smoothstep
-  }
+  const strength = smoothFalloff(distance, midpoint - feather * 0.5, midpoint + feather * 0.5);
   
   // Convert amount to multiplier
   const amount = effects.vignetteAmount / 100;
@@ -939,12 +1223,26 @@ export function applyVignette(
 // ============================================================================
 
 /**
- * Generate noise value for grain effect
- * Uses simple pseudo-random based on position
+ * 32-bit integer hash (lowbias32)
+ */
+function hash32(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x7feb352d);
+  h ^= h >>> 15;
+  h = Math.imul(h, 0x846ca68b);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * Generate noise value (0-1) for grain effect
+ * Integer hash of grain cell and seed, so every tile and re-render
+ * produces the same pattern for the same seed
  */
 function grainNoise(x: number, y: number, seed: number): number {
-  const n = Math.sin(x * 12.9898 + y * 78.233 + seed) * 43758.5453;
-  return n - Math.floor(n);
+  const h = hash32(hash32(hash32(seed) ^ x) ^ y);
+  return (h >>> 8) / 16777216;
 }
 
 /**
@@ -962,10 +1260,10 @@ export function applyGrain(
 ): RGB {
   if (amount === 0) return rgb;
   
-  // Scale position based on grain size (larger size = sparser grain)
-  const scale = 1 + (size / 100) * 2;
-  const sx = Math.floor(x / scale);
-  const sy = Math.floor(y / scale);
+  // Grain cells are 1 + size/50 pixels wide (larger size = coarser grain)
+  const divisor = 100 + 2 * Math.round(size);
+  const sx = Math.floor((x * 100) / divisor);
+  const sy = Math.floor((y * 100) / divisor);
   
   const intensity = amount / 100;
   const rough = 1 + (roughness / 100) * 2;
@@ -1028,49 +1326,99 @@ export function applyDehaze(rgb: RGB, amount: number): RGB {
 }
 
 // ============================================================================
-// SPLIT TONING
+// COLOR GRADING
 // ============================================================================
 
-import type { SplitToningAdjustments } from '@/types';
+import type { ColorGradingAdjustments, GradingWheel, SplitToningAdjustments } from '@/types';
+
+/** Lightness shift of a wheel's luminance control at +/-100 */
+const GRADING_LUMINANCE_RANGE = 0.2;
 
 /**
- * Apply split toning to RGB
- * Colors shadows and highlights with different hues
+ * Color grading that reproduces legacy split toning settings
+ * 
+ * @param settings - Split toning (highlight / shadow tint and balance)
+ * @returns Equivalent color grading; midtones and global stay neutral
  */
-export function applySplitToning(rgb: RGB, settings: SplitToningAdjustments): RGB {
-  const { highlightHue, highlightSaturation, shadowHue, shadowSaturation, balance } = settings;
-  
-  if (highlightSaturation === 0 && shadowSaturation === 0) return rgb;
-  
-  const luminance = getLuminance(rgb);
-  
-  // Calculate shadow/highlight weights with balance
+export function splitToningToColorGrading(settings: SplitToningAdjustments): ColorGradingAdjustments {
+  const neutral: GradingWheel = { hue: 0, saturation: 0, luminance: 0 };
+  return {
+    shadows: { hue: settings.shadowHue, saturation: settings.shadowSaturation, luminance: 0 },
+    midtones: { ...neutral },
+    highlights: { hue: settings.highlightHue, saturation: settings.highlightSaturation, luminance: 0 },
+    global: { ...neutral },
+    blending: 50,
+    balance: settings.balance,
+  };
+}
+
+/**
+ * Check whether any wheel changes the image
+ */
+export function hasColorGrading(settings: ColorGradingAdjustments): boolean {
+  return [settings.shadows, settings.midtones, settings.highlights, settings.global]
+    .some(wheel => wheel.saturation > 0 || wheel.luminance !== 0);
+}
+
+/**
+ * Weights of the shadow, midtone and highlight wheels for a luminance
+ * 
+ * Balance moves the split point; at blending 50 the shadow and highlight
+ * weights ramp linearly from the split point to black and white, and the
+ * midtones take the rest. Higher blending spreads each range into its
+ * neighbors, lower blending narrows them.
+ */
+function getGradingWeights(
+  luminance: number,
+  blending: number,
+  balance: number
+): { shadows: number; midtones: number; highlights: number } {
   const balanceFactor = (balance + 100) / 200; // 0 to 1
   const midpoint = 0.5 - (balanceFactor - 0.5) * 0.3;
   
-  let shadowWeight = 0;
-  let highlightWeight = 0;
+  const shadow = luminance < midpoint ? 1 - luminance / midpoint : 0;
+  const highlight = luminance < midpoint ? 0 : (luminance - midpoint) / (1 - midpoint);
+  const exponent = Math.pow(2, (50 - clamp(blending, 0, 100)) / 25);
   
-  if (luminance < midpoint) {
-    shadowWeight = 1 - luminance / midpoint;
-  } else {
-    highlightWeight = (luminance - midpoint) / (1 - midpoint);
-  }
-  
-  const hsl = rgbToHsl(rgb);
+  return {
+    shadows: Math.pow(shadow, exponent),
+    midtones: Math.pow(clamp(1 - shadow - highlight, 0, 1), exponent),
+    highlights: Math.pow(highlight, exponent),
+  };
+}
+
+/**
+ * Tint and shift the lightness of an HSL color by one wheel (in place)
+ */
+function applyGradingWheel(hsl: HSL, wheel: GradingWheel, weight: number): void {
+  if (weight <= 0) return;
   
-  // Blend in toning colors
-  if (shadowWeight > 0 && shadowSaturation > 0) {
-    const strength = shadowWeight * (shadowSaturation / 100) * 0.3;
-    hsl.h = hsl.h * (1 - strength) + shadowHue * strength;
+  if (wheel.saturation > 0) {
+    const strength = weight * (wheel.saturation / 100) * 0.3;
+    hsl.h = hsl.h * (1 - strength) + wheel.hue * strength;
     hsl.s = clamp(hsl.s + strength * 0.2, 0, 1);
   }
   
-  if (highlightWeight > 0 && highlightSaturation > 0) {
-    const strength = highlightWeight * (highlightSaturation / 100) * 0.3;
-    hsl.h = hsl.h * (1 - strength) + highlightHue * strength;
-    hsl.s = clamp(hsl.s + strength * 0.2, 0, 1);
+  if (wheel.luminance !== 0) {
+    hsl.l = clamp(hsl.l + weight * (wheel.luminance / 100) * GRADING_LUMINANCE_RANGE, 0, 1);
   }
+}
+
+/**
+ * Apply color grading to RGB
+ * Tints shadows, midtones, highlights and the whole image with separate
+ * wheels, weighted by the input luminance
+ */
+export function applyColorGrading(rgb: RGB, settings: ColorGradingAdjustments): RGB {
+  if (!hasColorGrading(settings)) return rgb;
+  
+  const weights = getGradingWeights(getLuminance(rgb), settings.blending, settings.balance);
+  const hsl = rgbToHsl(rgb);
+  
+  applyGradingWheel(hsl, settings.global, 1);
+  applyGradingWheel(hsl, settings.shadows, weights.shadows);
+  applyGradingWheel(hsl, settings.midtones, weights.midtones);
+  applyGradingWheel(hsl, settings.highlights, weights.highlights);
   
   // Normalize hue
   if (hsl.h < 0) hsl.h += 360;
@@ -1079,6 +1427,15 @@ export function applySplitToning(rgb: RGB, settings: SplitToningAdjustments): RG
   return hslToRgb(hsl);
 }
 
+/**
+ * Apply split toning to RGB
+ * Colors shadows and highlights with different hues (color grading
+ * with only the shadow and highlight wheels)
+ */
+export function applySplitToning(rgb: RGB, settings: SplitToningAdjustments): RGB {
+  return applyColorGrading(rgb, splitToningToColorGrading(settings));
+}
+
 // ============================================================================
 // LENS CORRECTION
 // ============================================================================
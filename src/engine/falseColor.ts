@@ -0,0 +1,160 @@
+/**
+ * APEX Photo Studio - False Color Engine
+ * 
+ * Exposure false color, as on cinema monitors:
+ * - Maps Rec. 709 luma (in IRE) to color bands across the whole frame
+ * - Preset ramps: standard exposure ladder, clipping only, full spectrum
+ * - Custom bands with user-defined thresholds
+ * - Gray bands show the image's own luminance so colors stand out
+ */
+
+import type { FalseColorBand, FalseColorPalette } from '@/types';
+
+/** Smallest gap between neighboring band thresholds, in IRE */
+const MIN_BAND_WIDTH = 0.5;
+
+/**
+ * Standard exposure ladder: crushed and near-black shadows, middle gray,
+ * one stop over middle gray (typical skin), near clip and clipped
+ */
+const STANDARD_BANDS: FalseColorBand[] = [
+  { upTo: 2.5, color: [128, 48, 192], label: 'Black clip' },
+  { upTo: 4, color: [40, 90, 255], label: 'Near black' },
+  { upTo: 38, color: null, label: 'Shadows' },
+  { upTo: 42, color: [40, 190, 60], label: '18% gray' },
+  { upTo: 52, color: null, label: 'Midtones' },
+  { upTo: 56, color: [255, 120, 190], label: 'Skin +1 stop' },
+  { upTo: 97, color: null, label: 'Highlights' },
+  { upTo: 99, color: [255, 225, 0], label: 'Near clip' },
+  { upTo: 100, color: [255, 30, 30], label: 'Clipped' },
+];
+
+/** Only the ends of the range: everything usable stays gray */
+const CLIPPING_BANDS: FalseColorBand[] = [
+  { upTo: 4, color: [128, 48, 192], label: 'Underexposed' },
+  { upTo: 98, color: null, label: 'In range' },
+  { upTo: 100, color: [255, 30, 30], label: 'Clipped' },
+];
+
+/** Every level colored, cold shadows to hot highlights */
+const SPECTRUM_BANDS: FalseColorBand[] = [
+  { upTo: 5, color: [90, 20, 140], label: 'Black' },
+  { upTo: 15, color: [40, 60, 220], label: 'Deep shadows' },
+  { upTo: 25, color: [20, 140, 230], label: 'Shadows' },
+  { upTo: 35, color: [0, 170, 170], label: 'Low mids' },
+  { upTo: 45, color: [40, 180, 60], label: 'Middle gray' },
+  { upTo: 55, color: [150, 200, 50], label: 'Mids' },
+  { upTo: 65, color: [220, 220, 40], label: 'High mids' },
+  { upTo: 75, color: [250, 180, 30], label: 'Highlights' },
+  { upTo: 85, color: [250, 120, 20], label: 'Bright' },
+  { upTo: 95, color: [240, 60, 20], label: 'Very bright' },
+  { upTo: 100, color: [255, 0, 0], label: 'Clipping' },
+];
+
+/**
+ * Preset ramps in display order
+ */
+export const FALSE_COLOR_PRESETS: { palette: Exclude<FalseColorPalette, 'custom'>; label: string; bands: FalseColorBand[] }[] = [
+  { palette: 'standard', label: 'Standard', bands: STANDARD_BANDS },
+  { palette: 'clipping', label: 'Clipping', bands: CLIPPING_BANDS },
+  { palette: 'spectrum', label: 'Spectrum', bands: SPECTRUM_BANDS },
+];
+
+/**
+ * Bands to render for a palette
+ * 
+ * @param palette - Selected palette
+ * @param customBands - The user's bands; the standard ramp stands in while empty
+ * @returns Bands ordered by threshold, the last ending at 100 IRE
+ */
+export function getFalseColorBands(palette: FalseColorPalette, customBands: FalseColorBand[]): FalseColorBand[] {
+  if (palette === 'custom') {
+    return customBands.length > 0 ? customBands : STANDARD_BANDS;
+  }
+  return FALSE_COLOR_PRESETS.find(p => p.palette === palette)?.bands ?? STANDARD_BANDS;
+}
+
+/**
+ * Copy of a ramp for editing as custom bands
+ */
+export function copyFalseColorBands(bands: FalseColorBand[]): FalseColorBand[] {
+  return bands.map(band => ({
+    ...band,
+    color: band.color ? [band.color[0], band.color[1], band.color[2]] : null,
+  }));
+}
+
+/**
+ * Move one band's upper threshold, kept between its neighbors
+ * 
+ * @param bands - Bands to update
+ * @param index - Band whose upper bound changes (the last band is fixed at 100)
+ * @param upTo - New threshold in IRE
+ * @returns Updated bands
+ */
+export function setFalseColorThreshold(bands: FalseColorBand[], index: number, upTo: number): FalseColorBand[] {
+  if (index < 0 || index >= bands.length - 1) return bands;
+  
+  const lower = (index > 0 ? bands[index - 1].upTo : 0) + MIN_BAND_WIDTH;
+  const upper = bands[index + 1].upTo - MIN_BAND_WIDTH;
+  const clamped = Math.round(Math.max(lower, Math.min(upper, upTo)) * 10) / 10;
+  
+  return bands.map((band, i) => (i === index ? { ...band, upTo: clamped } : band));
+}
+
+/**
+ * Lookup from 8-bit luma level to overlay color
+ * 
+ * @returns 256 RGBA entries; alpha 0 marks gray bands
+ */
+export function createFalseColorLookup(bands: FalseColorBand[]): Uint8ClampedArray {
+  const lookup = new Uint8ClampedArray(256 * 4);
+  let bandIndex = 0;
+  
+  for (let level = 0; level < 256; level++) {
+    const ire = (level / 255) * 100;
+    while (bandIndex < bands.length - 1 && ire > bands[bandIndex].upTo) bandIndex++;
+    
+    const color = bands[bandIndex]?.color;
+    if (!color) continue;
+    
+    lookup[level * 4] = color[0];
+    lookup[level * 4 + 1] = color[1];
+    lookup[level * 4 + 2] = color[2];
+    lookup[level * 4 + 3] = 255;
+  }
+  
+  return lookup;
+}
+
+/**
+ * Render the false color view of an image
+ * 
+ * @param imageData - Image to analyze
+ * @param bands - Luminance bands
+ * @returns Opaque image: band colors, and luma gray for gray bands
+ */
+export function applyFalseColor(imageData: ImageData, bands: FalseColorBand[]): ImageData {
+  const { data, width, height } = imageData;
+  const output = new ImageData(width, height);
+  const out = output.data;
+  const lookup = createFalseColorLookup(bands);
+  
+  for (let i = 0; i < data.length; i += 4) {
+    const level = Math.min(255, Math.round(0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]));
+    const entry = level * 4;
+    
+    if (lookup[entry + 3] === 0) {
+      out[i] = level;
+      out[i + 1] = level;
+      out[i + 2] = level;
+    } else {
+      out[i] = lookup[entry];
+      out[i + 1] = lookup[entry + 1];
+      out[i + 2] = lookup[entry + 2];
+    }
+    out[i + 3] = 255;
+  }
+  
+  return output;
+}
@@ -0,0 +1,208 @@
+/**
+ * APEX Photo Studio - Focus Analysis Engine
+ * 
+ * Edge-contrast focus aids:
+ * - Sobel edge strength of Rec. 709 luma
+ * - Focus peaking marks for the live camera preview
+ * - Sharpness map (edge energy per block) and a frame sharpness score
+ * 
+ * One edge detector drives both, so a frame that peaks well while
+ * shooting also scores well in the editor.
+ */
+
+import type { FocusPeakingColor, SharpnessMap } from '@/types';
+
+/** Edge threshold at sensitivity 0; halves every 20 points of sensitivity */
+const PEAKING_MAX_THRESHOLD = 0.6;
+
+/** Mean edge strength of the sharpest blocks that scores 100 */
+const SHARPNESS_FULL_SCALE = 0.25;
+
+/** Fraction of blocks (the sharpest) averaged into the score */
+const SHARPNESS_TOP_FRACTION = 0.1;
+
+/**
+ * Peaking mark colors
+ */
+export const FOCUS_PEAKING_COLORS: Record<FocusPeakingColor, [number, number, number]> = {
+  red: [255, 40, 40],
+  yellow: [255, 230, 0],
+  green: [40, 255, 80],
+  blue: [40, 140, 255],
+  white: [255, 255, 255],
+};
+
+// ============================================================================
+// EDGE DETECTION
+// ============================================================================
+
+/**
+ * Sobel gradient magnitude of luma for every pixel
+ * 
+ * @param imageData - Image to analyze
+ * @returns Edge strength per pixel (0-1); the one-pixel border is 0
+ */
+export function calculateEdgeStrength(imageData: ImageData): Float32Array {
+  const { data, width, height } = imageData;
+  const luma = new Float32Array(width * height);
+  const edges = new Float32Array(width * height);
+  
+  for (let i = 0; i < luma.length; i++) {
+    const index = i * 4;
+    luma[i] = (0.2126 * data[index] + 0.7152 * data[index + 1] + 0.0722 * data[index + 2]) / 255;
+  }
+  
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const topLeft = luma[i - width - 1];
+      const top = luma[i - width];
+      const topRight = luma[i - width + 1];
+      const left = luma[i - 1];
+      const right = luma[i + 1];
+      const bottomLeft = luma[i + width - 1];
+      const bottom = luma[i + width];
+      const bottomRight = luma[i + width + 1];
+      
+      const gx = (topRight + 2 * right + bottomRight) - (topLeft + 2 * left + bottomLeft);
+      const gy = (bottomLeft + 2 * bottom + bottomRight) - (topLeft + 2 * top + topRight);
+      
+      // A full black-to-white step gives 4
+      edges[i] = Math.min(1, Math.sqrt(gx * gx + gy * gy) / 4);
+    }
+  }
+  
+  return edges;
+}
+
+// ============================================================================
+// FOCUS PEAKING
+// ============================================================================
+
+/**
+ * Edge strength above which peaking marks a pixel
+ * 
+ * @param sensitivity - Peaking sensitivity (0-100)
+ */
+export function getPeakingThreshold(sensitivity: number): number {
+  return PEAKING_MAX_THRESHOLD * Math.pow(2, -sensitivity / 20);
+}
+
+/**
+ * Build the focus peaking overlay for a frame
+ * 
+ * @param imageData - Frame to analyze
+ * @param color - Mark color
+ * @param sensitivity - Peaking sensitivity (0-100)
+ * @returns Transparent image with in-focus edges marked
+ */
+export function createFocusPeakingImage(
+  imageData: ImageData,
+  color: FocusPeakingColor,
+  sensitivity: number
+): ImageData {
+  const edges = calculateEdgeStrength(imageData);
+  const output = new ImageData(imageData.width, imageData.height);
+  const out = output.data;
+  const [r, g, b] = FOCUS_PEAKING_COLORS[color];
+  const threshold = getPeakingThreshold(sensitivity);
+  
+  for (let i = 0; i < edges.length; i++) {
+    if (edges[i] < threshold) continue;
+    
+    const index = i * 4;
+    out[index] = r;
+    out[index + 1] = g;
+    out[index + 2] = b;
+    out[index + 3] = 255;
+  }
+  
+  return output;
+}
+
+// ============================================================================
+// SHARPNESS MAP
+// ============================================================================
+
+/**
+ * Average edge strength over a grid of blocks
+ * 
+ * @param imageData - Image to analyze
+ * @param maxBlocks - Blocks along the longer side
+ * @returns Block values and the frame's sharpness score
+ */
+export function calculateSharpnessMap(imageData: ImageData, maxBlocks: number = 48): SharpnessMap {
+  const { width, height } = imageData;
+  const edges = calculateEdgeStrength(imageData);
+  const blockSize = Math.max(4, Math.ceil(Math.max(width, height) / maxBlocks));
+  const columns = Math.ceil(width / blockSize);
+  const rows = Math.ceil(height / blockSize);
+  
+  const sums = new Float32Array(columns * rows);
+  const counts = new Uint32Array(columns * rows);
+  for (let y = 0; y < height; y++) {
+    const blockRow = Math.floor(y / blockSize) * columns;
+    for (let x = 0; x < width; x++) {
+      const block = blockRow + Math.floor(x / blockSize);
+      sums[block] += edges[y * width + x];
+      counts[block]++;
+    }
+  }
+  
+  const values = new Float32Array(columns * rows);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = counts[i] > 0 ? sums[i] / counts[i] : 0;
+  }
+  
+  // Score the best-focused areas so shallow depth of field isn't penalized
+  const sorted = Array.from(values).sort((a, b) => b - a);
+  const topCount = Math.max(1, Math.round(sorted.length * SHARPNESS_TOP_FRACTION));
+  let topSum = 0;
+  for (let i = 0; i < topCount; i++) topSum += sorted[i];
+  const score = Math.round(Math.min(100, (100 * topSum) / topCount / SHARPNESS_FULL_SCALE));
+  
+  return { columns, rows, values, score };
+}
+
+/**
+ * Build the sharpness heat map (one pixel per block)
+ * 
+ * Values are relative to the image's sharpest block and run from a faint
+ * blue (softest, alpha 40) through green and yellow to a stronger red
+ * (sharpest, alpha 190).
+ * 
+ * @param map - Sharpness map
+ * @returns Semi-transparent heat map image
+ */
+export function createSharpnessMapImage(map: SharpnessMap): ImageData {
+  const { columns, rows, values } = map;
+  const output = new ImageData(columns, rows);
+  const out = output.data;
+  
+  let max = 0;
+  for (let i = 0; i < values.length; i++) max = Math.max(max, values[i]);
+  if (max === 0) return output;
+  
+  for (let i = 0; i < values.length; i++) {
+    const t = values[i] / max;
+    const index = i * 4;
+    
+    // Blue (soft) -> green -> yellow -> red (sharpest)
+    if (t < 1 / 3) {
+      out[index] = 0;
+      out[index + 1] = 255 * t * 3;
+      out[index + 2] = 255 * (1 - t * 3);
+    } else if (t < 2 / 3) {
+      out[index] = 255 * (t - 1 / 3) * 3;
+      out[index + 1] = 255;
+      out[index + 2] = 0;
+    } else {
+      out[index] = 255;
+      out[index + 1] = 255 * (1 - (t - 2 / 3) * 3);
+      out[index + 2] = 0;
+    }
+    out[index + 3] = 40 + 150 * t;
+  }
+  
+  return output;
+}
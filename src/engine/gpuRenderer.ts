@@ -0,0 +1,335 @@
+/**
+ * APEX Photo Studio - WebGL2 GPU Renderer
+ * 
+ * Runs the adjustment pipeline as a single fragment shader pass:
+ * - Source pixels uploaded once per image as an RGBA8 texture
+ * - Tone curves uploaded as a 256x1 RGBA32F lookup texture
+ * - Output rendered into an RGBA8 framebuffer and read back
+ * 
+ * The CPU pipeline in imageProcessing.ts remains the reference
+ * implementation; callers check canRender() and fall back to it
+ * whenever the GPU path is unavailable.
+ */
+
+import type { AdjustmentSettings, CurvePoint } from '@/types';
+import { kelvinToRgb } from '@/utils/colorspace';
+import {
+  createCurveTable,
+  getChromaticAberrationFactors,
+  getInputColorMatrix,
+  hasColorGrading,
+} from './adjustments';
+import { hasDetailAdjustments } from './imageProcessing';
+import { hasLutAdjustment } from './lut';
+import { PIPELINE_VERTEX_SHADER, PIPELINE_FRAGMENT_SHADER } from './gpuShaders';
+
+export interface GpuRenderer {
+  /** Whether the GPU path supports this image and these settings */
+  canRender: (source: ImageData, settings: AdjustmentSettings) => boolean;
+  /** Render the full pipeline on the GPU */
+  render: (source: ImageData, settings: AdjustmentSettings) => ImageData;
+  /** Release all GL resources */
+  dispose: () => void;
+}
+
+const HSL_CHANNELS = ['red', 'orange', 'yellow', 'green', 'cyan', 'blue', 'purple', 'magenta'] as const;
+
+/**
+ * Check whether a curve is the untouched identity diagonal
+ * Mirrors the default check in applyCurveAdjustments
+ */
+function isDefaultCurve(points: CurvePoint[]): boolean {
+  return points.length === 2 &&
+    points[0].x === 0 && points[0].y === 0 &&
+    points[1].x === 255 && points[1].y === 255;
+}
+
+/**
+ * Build the interleaved RGBA32F curve texture (red, green, blue, master)
+ * Default curves are stored as exact identity, matching the CPU skip.
+ */
+function createCurveTexels(settings: AdjustmentSettings): Float32Array {
+  const { curves } = settings;
+  const channels = [curves.red, curves.green, curves.blue, curves.rgb];
+  const texels = new Float32Array(256 * 4);
+  
+  channels.forEach((points, channel) => {
+    const table = isDefaultCurve(points) ? null : createCurveTable(points);
+    for (let i = 0; i < 256; i++) {
+      texels[i * 4 + channel] = table ? table[i] : i;
+    }
+  });
+  
+  return texels;
+}
+
+/**
+ * Per-channel white balance correction, as computed in adjustTemperature
+ */
+function getTemperatureCorrection(kelvin: number, referenceKelvin: number = 6500): [number, number, number] {
+  if (kelvin === referenceKelvin) return [1, 1, 1];
+  
+  const target = kelvinToRgb(kelvin);
+  const reference = kelvinToRgb(referenceKelvin);
+  const r = reference.r / target.r;
+  const g = reference.g / target.g;
+  const b = reference.b / target.b;
+  const avg = (r + g + b) / 3;
+  
+  return [r / avg, g / avg, b / avg];
+}
+
+function createCanvas(): OffscreenCanvas | HTMLCanvasElement | null {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(1, 1);
+  }
+  if (typeof document !== 'undefined') {
+    return document.createElement('canvas');
+  }
+  return null;
+}
+
+function compileShader(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error('Failed to create shader');
+  
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader compilation failed: ${log}`);
+  }
+  
+  return shader;
+}
+
+function createProgram(gl: WebGL2RenderingContext): WebGLProgram {
+  const vertex = compileShader(gl, gl.VERTEX_SHADER, PIPELINE_VERTEX_SHADER);
+  const fragment = compileShader(gl, gl.FRAGMENT_SHADER, PIPELINE_FRAGMENT_SHADER);
+  const program = gl.createProgram();
+  
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  gl.deleteShader(vertex);
+  gl.deleteShader(fragment);
+  
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    const log = gl.getProgramInfoLog(program);
+    gl.deleteProgram(program);
+    throw new Error(`Program link failed: ${log}`);
+  }
+  
+  return program;
+}
+
+function createTexture(gl: WebGL2RenderingContext): WebGLTexture {
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  return texture;
+}
+
+/**
+ * Create a WebGL2 renderer for the adjustment pipeline
+ * 
+ * Works on the main thread and inside workers (via OffscreenCanvas).
+ * Software rasterizers are accepted on purpose, so the renderer can be
+ * exercised on machines without a GPU.
+ * 
+ * @returns Renderer, or null if WebGL2 is unavailable or setup fails
+ */
+export function createGpuRenderer(): GpuRenderer | null {
+  const canvas = createCanvas();
+  if (!canvas) return null;
+  
+  const contextOptions: WebGLContextAttributes = {
+    alpha: true,
+    antialias: false,
+    depth: false,
+    premultipliedAlpha: false,
+    preserveDrawingBuffer: false,
+  };
+  const gl = typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas
+    ? canvas.getContext('webgl2', contextOptions)
+    : (canvas as HTMLCanvasElement).getContext('webgl2', contextOptions);
+  if (!gl) return null;
+  
+  let program: WebGLProgram;
+  try {
+    program = createProgram(gl);
+  } catch (error) {
+    console.warn('GPU renderer unavailable:', error);
+    return null;
+  }
+  
+  const maxTextureSize = gl.getParameter(gl.MAX_TEXTURE_SIZE) as number;
+  const sourceTexture = createTexture(gl);
+  const curveTexture = createTexture(gl);
+  const outputTexture = createTexture(gl);
+  const framebuffer = gl.createFramebuffer();
+  
+  let uploadedSource: ImageData | null = null;
+  let outputSize = { width: 0, height: 0 };
+  
+  const uniforms = new Map<string, WebGLUniformLocation | null>();
+  const location = (name: string) => {
+    if (!uniforms.has(name)) {
+      uniforms.set(name, gl.getUniformLocation(program, name));
+    }
+    return uniforms.get(name) ?? null;
+  };
+  
+  const uploadSource = (source: ImageData) => {
+    if (uploadedSource === source) return;
+    
+    gl.bindTexture(gl.TEXTURE_2D, sourceTexture);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.texImage2D(
+      gl.TEXTURE_2D, 0, gl.RGBA8, source.width, source.height, 0,
+      gl.RGBA, gl.UNSIGNED_BYTE, source.data
+    );
+    uploadedSource = source;
+  };
+  
+  const prepareOutput = (width: number, height: number) => {
+    if (outputSize.width === width && outputSize.height === height) return;
+    
+    gl.bindTexture(gl.TEXTURE_2D, outputTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, outputTexture, 0);
+    
+    if (gl.checkFramebufferStatus(gl.FRAMEBUFFER) !== gl.FRAMEBUFFER_COMPLETE) {
+      throw new Error('GPU framebuffer incomplete');
+    }
+    outputSize = { width, height };
+  };
+  
+  const setUniforms = (source: ImageData, settings: AdjustmentSettings) => {
+    const { basic, color, hsl, blackAndWhite, effects, colorGrading, lensCorrection } = settings;
+    const { chromaticAberration } = lensCorrection;
+    
+    gl.uniform1i(location('u_source'), 0);
+    gl.uniform1i(location('u_curves'), 1);
+    gl.uniform2f(location('u_size'), source.width, source.height);
+    
+    // Lens correction
+    const lensEnabled = lensCorrection.distortion !== 0 ||
+      chromaticAberration.redCyan !== 0 ||
+      chromaticAberration.blueYellow !== 0;
+    const ca = getChromaticAberrationFactors(chromaticAberration.redCyan, chromaticAberration.blueYellow);
+    gl.uniform1i(location('u_lensEnabled'), lensEnabled ? 1 : 0);
+    gl.uniform1f(location('u_distortion'), lensCorrection.distortion);
+    gl.uniform3f(location('u_caFactors'), ca.r, ca.g, ca.b);
+    
+    // Camera calibration & channel mixer
+    const inputMatrix = getInputColorMatrix(settings.calibration, settings.channelMixer);
+    gl.uniform1i(location('u_inputMatrixEnabled'), inputMatrix ? 1 : 0);
+    if (inputMatrix) {
+      // Row-major 3x4; WebGL2 transposes into the column-major mat3
+      const rows = [0, 1, 2].flatMap(row => inputMatrix.slice(row * 4, row * 4 + 3));
+      gl.uniformMatrix3fv(location('u_inputMatrix'), true, rows);
+      gl.uniform3f(location('u_inputOffset'), inputMatrix[3], inputMatrix[7], inputMatrix[11]);
+    }
+    
+    // White balance and tone
+    gl.uniform3f(location('u_temperature'), ...getTemperatureCorrection(color.temperature));
+    gl.uniform1f(location('u_tintMultiplier'), 1 - (color.tint / 100) * 0.3);
+    gl.uniform1f(location('u_exposureMultiplier'), Math.pow(2, basic.exposure));
+    gl.uniform1f(location('u_contrast'), basic.contrast);
+    gl.uniform4f(location('u_tonal'), basic.highlights, basic.shadows, basic.whites, basic.blacks);
+    
+    // Curves
+    const { curves } = settings;
+    const curvesEnabled = !(isDefaultCurve(curves.rgb) && isDefaultCurve(curves.red) &&
+      isDefaultCurve(curves.green) && isDefaultCurve(curves.blue));
+    gl.uniform1i(location('u_curvesEnabled'), curvesEnabled ? 1 : 0);
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, curveTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA32F, 256, 1, 0, gl.RGBA, gl.FLOAT, createCurveTexels(settings));
+    
+    // HSL
+    const hslValues = new Float32Array(HSL_CHANNELS.length * 3);
+    HSL_CHANNELS.forEach((channel, i) => {
+      hslValues[i * 3] = hsl[channel].hue;
+      hslValues[i * 3 + 1] = hsl[channel].saturation;
+      hslValues[i * 3 + 2] = hsl[channel].luminance;
+    });
+    gl.uniform3fv(location('u_hsl'), hslValues);
+    gl.uniform1i(location('u_bwEnabled'), blackAndWhite.enabled ? 1 : 0);
+    gl.uniform1fv(location('u_bwMix'), HSL_CHANNELS.map(channel => blackAndWhite.mix[channel]));
+    gl.uniform2f(location('u_bwToning'), blackAndWhite.toningHue, blackAndWhite.toningSaturation);
+    gl.uniform1f(location('u_vibrance'), color.vibrance);
+    gl.uniform1f(location('u_saturation'), color.saturation);
+    
+    // Color grading and dehaze
+    gl.uniform1i(location('u_gradingEnabled'), hasColorGrading(colorGrading) ? 1 : 0);
+    for (const range of ['shadows', 'midtones', 'highlights', 'global'] as const) {
+      const wheel = colorGrading[range];
+      const name = `u_grading${range[0].toUpperCase()}${range.slice(1)}`;
+      gl.uniform3f(location(name), wheel.hue, wheel.saturation, wheel.luminance);
+    }
+    gl.uniform2f(location('u_gradingBalance'), colorGrading.blending, colorGrading.balance);
+    gl.uniform1f(location('u_dehaze'), effects.dehaze);
+    
+    // Effects
+    gl.uniform4f(
+      location('u_vignette'),
+      effects.vignetteAmount, effects.vignetteMidpoint,
+      effects.vignetteRoundness, effects.vignetteFeather
+    );
+    gl.uniform1f(location('u_vignetteProtection'), effects.vignetteHighlightProtection);
+  };
+  
+  return {
+    canRender: (source: ImageData, settings: AdjustmentSettings) => {
+      // The detail stage needs neighborhood blurs; the linear-light float
+      // pipeline and color LUTs are CPU-only; all fall back to processImage
+      return !gl.isContextLost() &&
+        source.width <= maxTextureSize &&
+        source.height <= maxTextureSize &&
+        settings.processingMode !== 'linear' &&
+        !hasDetailAdjustments(settings.detail) &&
+        !hasLutAdjustment(settings.lut);
+    },
+    
+    render: (source: ImageData, settings: AdjustmentSettings) => {
+      const { width, height } = source;
+      
+      gl.useProgram(program);
+      
+      gl.activeTexture(gl.TEXTURE0);
+      uploadSource(source);
+      prepareOutput(width, height);
+      setUniforms(source, settings);
+      
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, sourceTexture);
+      gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+      gl.viewport(0, 0, width, height);
+      gl.drawArrays(gl.TRIANGLES, 0, 3);
+      
+      const output = new ImageData(width, height);
+      gl.pixelStorei(gl.PACK_ALIGNMENT, 1);
+      gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, new Uint8Array(output.data.buffer));
+      gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+      
+      return output;
+    },
+    
+    dispose: () => {
+      gl.deleteTexture(sourceTexture);
+      gl.deleteTexture(curveTexture);
+      gl.deleteTexture(outputTexture);
+      gl.deleteFramebuffer(framebuffer);
+      gl.deleteProgram(program);
+      uploadedSource = null;
+    },
+  };
+}
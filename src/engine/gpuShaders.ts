@@ -0,0 +1,503 @@
+/**
+ * APEX Photo Studio - GPU Pipeline Shaders
+ * 
+ * GLSL ES 3.00 port of the CPU adjustment pipeline in imageProcessing.ts.
+ * Every function mirrors its counterpart in adjustments.ts / colorspace.ts,
+ * including the 8-bit quantization between processPixel and the
+ * position-dependent effects, so both renderers agree within a couple
+ * of code values.
+ * 
+ * Only core WebGL2 features are used (texelFetch on RGBA8 and RGBA32F
+ * textures, no float render targets) so the shader runs on software
+ * implementations such as SwiftShader and llvmpipe.
+ */
+
+/**
+ * Full-screen triangle generated from gl_VertexID (no vertex buffers)
+ */
+export const PIPELINE_VERTEX_SHADER = /* glsl */ `#version 300 es
+void main() {
+  vec2 corner = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2));
+  gl_Position = vec4(corner * 2.0 - 1.0, 0.0, 1.0);
+}
+`;
+
+export const PIPELINE_FRAGMENT_SHADER = /* glsl */ `#version 300 es
+precision highp float;
+precision highp int;
+precision highp sampler2D;
+
+const float PI = 3.14159265358979;
+
+// HSL channel ranges (red, orange, yellow, green, cyan, blue, purple, magenta)
+const float RANGE_CENTER[8] = float[8](0.0, 30.0, 60.0, 120.0, 180.0, 225.0, 270.0, 315.0);
+const float RANGE_WIDTH[8] = float[8](30.0, 15.0, 15.0, 45.0, 15.0, 30.0, 15.0, 30.0);
+
+uniform sampler2D u_source;       // RGBA8 source pixels
+uniform sampler2D u_curves;       // RGBA32F 256x1: red, green, blue, master (0-255)
+uniform vec2 u_size;
+
+// Lens correction
+uniform bool u_lensEnabled;
+uniform float u_distortion;
+uniform vec3 u_caFactors;
+
+// Camera calibration & channel mixer
+uniform bool u_inputMatrixEnabled;
+uniform mat3 u_inputMatrix;
+uniform vec3 u_inputOffset;
+
+// White balance and tone
+uniform vec3 u_temperature;       // Normalized per-channel correction
+uniform float u_tintMultiplier;
+uniform float u_exposureMultiplier;
+uniform float u_contrast;
+uniform vec4 u_tonal;             // highlights, shadows, whites, blacks
+
+// Curves and color
+uniform bool u_curvesEnabled;
+uniform vec3 u_hsl[8];            // hue, saturation, luminance per channel
+uniform bool u_bwEnabled;
+uniform float u_bwMix[8];         // black & white mix per channel
+uniform vec2 u_bwToning;          // hue, saturation
+uniform float u_vibrance;
+uniform float u_saturation;
+uniform bool u_gradingEnabled;
+uniform vec3 u_gradingShadows;    // hue, saturation, luminance per wheel
+uniform vec3 u_gradingMidtones;
+uniform vec3 u_gradingHighlights;
+uniform vec3 u_gradingGlobal;
+uniform vec2 u_gradingBalance;    // blending, balance
+uniform float u_dehaze;
+
+// Effects
+uniform vec4 u_vignette;          // amount, midpoint, roundness, feather
+uniform float u_vignetteProtection;
+
+out vec4 outColor;
+
+// ----------------------------------------------------------------------------
+// Color space helpers
+// ----------------------------------------------------------------------------
+
+float removeGamma(float v) {
+  return v <= 0.04045 ? v / 12.92 : pow((v + 0.055) / 1.055, 2.4);
+}
+
+float applyGamma(float v) {
+  return v <= 0.0031308 ? 12.92 * v : 1.055 * pow(v, 1.0 / 2.4) - 0.055;
+}
+
+float getLuminance(vec3 c) {
+  return 0.2126 * removeGamma(c.r) + 0.7152 * removeGamma(c.g) + 0.0722 * removeGamma(c.b);
+}
+
+vec3 rgbToHsl(vec3 c) {
+  float maxC = max(c.r, max(c.g, c.b));
+  float minC = min(c.r, min(c.g, c.b));
+  float delta = maxC - minC;
+  float l = (maxC + minC) / 2.0;
+  
+  if (delta == 0.0) return vec3(0.0, 0.0, l);
+  
+  float s = l > 0.5 ? delta / (2.0 - maxC - minC) : delta / (maxC + minC);
+  
+  float h;
+  if (maxC == c.r) {
+    h = (c.g - c.b) / delta;
+  } else if (maxC == c.g) {
+    h = (c.b - c.r) / delta + 2.0;
+  } else {
+    h = (c.r - c.g) / delta + 4.0;
+  }
+  
+  h *= 60.0;
+  if (h < 0.0) h += 360.0;
+  
+  return vec3(h, s, l);
+}
+
+vec3 hslToRgb(vec3 hsl) {
+  float h = hsl.x;
+  float s = hsl.y;
+  float l = hsl.z;
+  
+  if (s == 0.0) return vec3(l);
+  
+  float c = (1.0 - abs(2.0 * l - 1.0)) * s;
+  float x = c * (1.0 - abs(mod(h / 60.0, 2.0) - 1.0));
+  float m = l - c / 2.0;
+  
+  vec3 rgb = vec3(0.0);
+  if (h >= 0.0 && h < 60.0) {
+    rgb = vec3(c, x, 0.0);
+  } else if (h >= 60.0 && h < 120.0) {
+    rgb = vec3(x, c, 0.0);
+  } else if (h >= 120.0 && h < 180.0) {
+    rgb = vec3(0.0, c, x);
+  } else if (h >= 180.0 && h < 240.0) {
+    rgb = vec3(0.0, x, c);
+  } else if (h >= 240.0 && h < 300.0) {
+    rgb = vec3(x, 0.0, c);
+  } else if (h >= 300.0 && h < 360.0) {
+    rgb = vec3(c, 0.0, x);
+  }
+  
+  return rgb + m;
+}
+
+vec3 quantize(vec3 c) {
+  return floor(clamp(c, 0.0, 1.0) * 255.0 + 0.5) / 255.0;
+}
+
+// ----------------------------------------------------------------------------
+// Lens correction sampling (matches sampleBilinear)
+// ----------------------------------------------------------------------------
+
+float sampleChannel(vec2 p, int channel) {
+  ivec2 size = ivec2(u_size);
+  int x0 = int(floor(p.x));
+  int y0 = int(floor(p.y));
+  
+  if (x0 < 0 || y0 < 0 || x0 >= size.x || y0 >= size.y) return 0.0;
+  
+  int x1 = min(x0 + 1, size.x - 1);
+  int y1 = min(y0 + 1, size.y - 1);
+  float fx = p.x - float(x0);
+  float fy = p.y - float(y0);
+  
+  float v00 = texelFetch(u_source, ivec2(x0, y0), 0)[channel];
+  float v10 = texelFetch(u_source, ivec2(x1, y0), 0)[channel];
+  float v01 = texelFetch(u_source, ivec2(x0, y1), 0)[channel];
+  float v11 = texelFetch(u_source, ivec2(x1, y1), 0)[channel];
+  
+  return (1.0 - fx) * (1.0 - fy) * v00 +
+         fx * (1.0 - fy) * v10 +
+         (1.0 - fx) * fy * v01 +
+         fx * fy * v11;
+}
+
+vec3 sampleLensCorrected(vec2 pos) {
+  vec2 n = (pos / u_size - 0.5) * 2.0;
+  float k = u_distortion / 500.0;
+  vec2 corrected = n * (1.0 + k * dot(n, n));
+  
+  vec2 srcR = ((corrected * u_caFactors.r) / 2.0 + 0.5) * u_size;
+  vec2 srcG = ((corrected * u_caFactors.g) / 2.0 + 0.5) * u_size;
+  vec2 srcB = ((corrected * u_caFactors.b) / 2.0 + 0.5) * u_size;
+  
+  return vec3(sampleChannel(srcR, 0), sampleChannel(srcG, 1), sampleChannel(srcB, 2));
+}
+
+// ----------------------------------------------------------------------------
+// Tonal adjustments
+// ----------------------------------------------------------------------------
+
+float tonalMask(float luminance, float center, float width) {
+  return max(0.0, 1.0 - abs(luminance - center) / width);
+}
+
+vec3 applyTonal(vec3 rgb) {
+  if (u_tonal.x != 0.0) {
+    float mask = tonalMask(getLuminance(rgb), 0.85, 0.3);
+    rgb = clamp(rgb * (1.0 + (u_tonal.x / 100.0) * mask * 0.5), 0.0, 1.0);
+  }
+  if (u_tonal.y != 0.0) {
+    float mask = tonalMask(getLuminance(rgb), 0.15, 0.3);
+    rgb = clamp(rgb + (u_tonal.y / 100.0) * mask * 0.3, 0.0, 1.0);
+  }
+  if (u_tonal.z != 0.0) {
+    float mask = tonalMask(getLuminance(rgb), 0.95, 0.15);
+    rgb = clamp(rgb * (1.0 + (u_tonal.z / 100.0) * mask * 0.3), 0.0, 1.0);
+  }
+  if (u_tonal.w != 0.0) {
+    float mask = tonalMask(getLuminance(rgb), 0.05, 0.15);
+    rgb = clamp(rgb + (u_tonal.w / 100.0) * mask * 0.15, 0.0, 1.0);
+  }
+  return rgb;
+}
+
+// ----------------------------------------------------------------------------
+// Curves (linear interpolation between 256 unrounded samples)
+// ----------------------------------------------------------------------------
+
+float lookupCurve(float value, int channel) {
+  float x = clamp(value, 0.0, 255.0);
+  int i0 = int(floor(x));
+  int i1 = min(i0 + 1, 255);
+  float a = texelFetch(u_curves, ivec2(i0, 0), 0)[channel];
+  float b = texelFetch(u_curves, ivec2(i1, 0), 0)[channel];
+  return mix(a, b, x - float(i0));
+}
+
+vec3 applyCurves(vec3 rgb) {
+  if (!u_curvesEnabled) return rgb;
+  
+  vec3 v = rgb * 255.0;
+  v = vec3(lookupCurve(v.r, 0), lookupCurve(v.g, 1), lookupCurve(v.b, 2));
+  v = vec3(lookupCurve(v.r, 3), lookupCurve(v.g, 3), lookupCurve(v.b, 3));
+  
+  return v / 255.0;
+}
+
+// ----------------------------------------------------------------------------
+// HSL, vibrance and saturation
+// ----------------------------------------------------------------------------
+
+bool isSkinTone(float hue, float saturation) {
+  bool inSkinHue = (hue >= 0.0 && hue <= 50.0) || (hue >= 320.0 && hue <= 360.0);
+  return inSkinHue && saturation < 0.6;
+}
+
+vec3 applyHsl(vec3 rgb) {
+  vec3 hsl = rgbToHsl(rgb);
+  
+  float hueShift = 0.0;
+  float satShift = 0.0;
+  float lumShift = 0.0;
+  float totalWeight = 0.0;
+  float skinFactor = isSkinTone(hsl.x, hsl.y) ? 0.3 : 1.0;
+  
+  for (int i = 0; i < 8; i++) {
+    float distance = abs(hsl.x - RANGE_CENTER[i]);
+    if (distance > 180.0) distance = 360.0 - distance;
+    if (distance > RANGE_WIDTH[i]) continue;
+    
+    float weight = cos((distance / RANGE_WIDTH[i]) * PI / 2.0);
+    if (weight > 0.0) {
+      hueShift += (u_hsl[i].x / 100.0) * 60.0 * weight * skinFactor;
+      satShift += (u_hsl[i].y / 100.0) * weight * skinFactor;
+      lumShift += (u_hsl[i].z / 100.0) * 0.5 * weight * skinFactor;
+      totalWeight += weight;
+    }
+  }
+  
+  if (totalWeight == 0.0) return rgb;
+  
+  float hue = hsl.x + hueShift;
+  if (hue < 0.0) hue += 360.0;
+  if (hue >= 360.0) hue -= 360.0;
+  
+  float sat = clamp(hsl.y + satShift * hsl.y, 0.0, 1.0);
+  float lum = clamp(hsl.z + lumShift, 0.0, 1.0);
+  
+  return hslToRgb(vec3(hue, sat, lum));
+}
+
+vec3 applyBlackAndWhite(vec3 rgb) {
+  vec3 hsl = rgbToHsl(rgb);
+  
+  float mix = 0.0;
+  for (int i = 0; i < 8; i++) {
+    float distance = abs(hsl.x - RANGE_CENTER[i]);
+    if (distance > 180.0) distance = 360.0 - distance;
+    if (distance > RANGE_WIDTH[i]) continue;
+    mix += (u_bwMix[i] / 100.0) * cos((distance / RANGE_WIDTH[i]) * PI / 2.0);
+  }
+  
+  float luminance = getLuminance(rgb) * max(0.0, 1.0 + mix * hsl.y);
+  float gray = applyGamma(clamp(luminance, 0.0, 1.0));
+  
+  if (u_bwToning.y <= 0.0) return vec3(gray);
+  return hslToRgb(vec3(u_bwToning.x, (u_bwToning.y / 100.0) * 0.5, gray));
+}
+
+vec3 applyVibrance(vec3 rgb) {
+  if (u_vibrance == 0.0) return rgb;
+  
+  vec3 hsl = rgbToHsl(rgb);
+  float saturationFactor = 1.0 - hsl.y;
+  float skinProtection = ((hsl.x >= 0.0 && hsl.x <= 50.0) || (hsl.x >= 320.0 && hsl.x <= 360.0)) ? 0.5 : 1.0;
+  float adjustment = (u_vibrance / 100.0) * saturationFactor * skinProtection;
+  
+  hsl.y = clamp(hsl.y + adjustment * hsl.y, 0.0, 1.0);
+  return hslToRgb(hsl);
+}
+
+vec3 applySaturation(vec3 rgb) {
+  if (u_saturation == 0.0) return rgb;
+  
+  vec3 hsl = rgbToHsl(rgb);
+  hsl.y = clamp(hsl.y * (1.0 + u_saturation / 100.0), 0.0, 1.0);
+  return hslToRgb(hsl);
+}
+
+// ----------------------------------------------------------------------------
+// Color grading and dehaze
+// ----------------------------------------------------------------------------
+
+// Tint and lightness shift of one wheel (hue, saturation, luminance)
+vec3 applyGradingWheel(vec3 hsl, vec3 wheel, float weight) {
+  if (weight <= 0.0) return hsl;
+  
+  if (wheel.y > 0.0) {
+    float strength = weight * (wheel.y / 100.0) * 0.3;
+    hsl.x = hsl.x * (1.0 - strength) + wheel.x * strength;
+    hsl.y = clamp(hsl.y + strength * 0.2, 0.0, 1.0);
+  }
+  
+  if (wheel.z != 0.0) {
+    hsl.z = clamp(hsl.z + weight * (wheel.z / 100.0) * 0.2, 0.0, 1.0);
+  }
+  return hsl;
+}
+
+vec3 applyColorGrading(vec3 rgb) {
+  if (!u_gradingEnabled) return rgb;
+  
+  float luminance = getLuminance(rgb);
+  float balanceFactor = (u_gradingBalance.y + 100.0) / 200.0;
+  float midpoint = 0.5 - (balanceFactor - 0.5) * 0.3;
+  
+  float shadow = luminance < midpoint ? 1.0 - luminance / midpoint : 0.0;
+  float highlight = luminance < midpoint ? 0.0 : (luminance - midpoint) / (1.0 - midpoint);
+  float exponent = pow(2.0, (50.0 - clamp(u_gradingBalance.x, 0.0, 100.0)) / 25.0);
+  
+  vec3 hsl = rgbToHsl(rgb);
+  hsl = applyGradingWheel(hsl, u_gradingGlobal, 1.0);
+  hsl = applyGradingWheel(hsl, u_gradingShadows, pow(shadow, exponent));
+  hsl = applyGradingWheel(hsl, u_gradingMidtones, pow(clamp(1.0 - shadow - highlight, 0.0, 1.0), exponent));
+  hsl = applyGradingWheel(hsl, u_gradingHighlights, pow(highlight, exponent));
+  
+  if (hsl.x < 0.0) hsl.x += 360.0;
+  if (hsl.x >= 360.0) hsl.x -= 360.0;
+  
+  return hslToRgb(hsl);
+}
+
+vec3 applyDehaze(vec3 rgb) {
+  if (u_dehaze == 0.0) return rgb;
+  
+  float factor = u_dehaze / 100.0;
+  vec3 hsl = rgbToHsl(rgb);
+  float contrast = 1.0 + factor * 0.3;
+  float saturation = 1.0 + factor * 0.2;
+  
+  if (factor > 0.0) {
+    hsl.z = clamp((hsl.z - 0.5) * contrast + 0.5, 0.0, 1.0);
+  } else {
+    hsl.z = clamp((hsl.z - 0.5) * contrast + 0.5 + abs(factor) * 0.1, 0.0, 1.0);
+  }
+  hsl.y = clamp(hsl.y * saturation, 0.0, 1.0);
+  
+  return hslToRgb(hsl);
+}
+
+// ----------------------------------------------------------------------------
+// Position-dependent effects
+// ----------------------------------------------------------------------------
+
+float calculateVignette(vec2 pos) {
+  if (u_vignette.x == 0.0) return 1.0;
+  
+  float cx = (pos.x / u_size.x - 0.5) * 2.0;
+  float cy = (pos.y / u_size.y - 0.5) * 2.0;
+  
+  float roundness = (u_vignette.z + 100.0) / 200.0;
+  float aspectRatio = u_size.x / u_size.y;
+  
+  float dx = cx;
+  float dy = cy;
+  
+  if (roundness < 0.5) {
+    float rectFactor = 1.0 - roundness * 2.0;
+    dx = abs(cx);
+    dy = abs(cy) * aspectRatio;
+    float maxDist = max(dx, dy);
+    float euclidDist = sqrt(dx * dx + dy * dy);
+    dx = maxDist * rectFactor + euclidDist * (1.0 - rectFactor);
+    dy = 0.0;
+  } else {
+    dy *= aspectRatio;
+  }
+  
+  float distance = sqrt(dx * dx + dy * dy) / sqrt(2.0);
+  
+  float midpoint = u_vignette.y / 100.0;
+  float feather = u_vignette.w / 100.0;
+  float start = midpoint - feather * 0.5;
+  float end = midpoint + feather * 0.5;
+  
+  float strength = 0.0;
+  if (distance >= end) {
+    strength = 1.0;
+  } else if (distance > start) {
+    float t = (distance - start) / (end - start);
+    strength = t * t * (3.0 - 2.0 * t);
+  }
+  
+  float amount = u_vignette.x / 100.0;
+  return amount < 0.0 ? 1.0 + strength * abs(amount) : 1.0 - strength * amount;
+}
+
+vec3 applyVignette(vec3 rgb, float factor) {
+  if (factor == 1.0) return rgb;
+  
+  if (factor < 1.0 && u_vignetteProtection > 0.0) {
+    float protection = (u_vignetteProtection / 100.0) * getLuminance(rgb);
+    factor = factor + (1.0 - factor) * protection;
+  }
+  
+  return clamp(rgb * factor, 0.0, 1.0);
+}
+
+// ----------------------------------------------------------------------------
+// Pipeline
+// ----------------------------------------------------------------------------
+
+void main() {
+  ivec2 pixel = ivec2(gl_FragCoord.xy);
+  vec2 pos = vec2(pixel);
+  vec4 source = texelFetch(u_source, pixel, 0);
+  
+  // 1. Lens correction
+  vec3 rgb = u_lensEnabled ? sampleLensCorrected(pos) : source.rgb;
+  
+  // 1b. Camera calibration & channel mixer
+  if (u_inputMatrixEnabled) {
+    rgb = clamp(u_inputMatrix * rgb + u_inputOffset, 0.0, 1.0);
+  }
+  
+  // 2. Temperature & tint
+  rgb = clamp(rgb * u_temperature, 0.0, 1.0);
+  rgb.g = clamp(rgb.g * u_tintMultiplier, 0.0, 1.0);
+  
+  // 3. Exposure & contrast
+  rgb = clamp(rgb * u_exposureMultiplier, 0.0, 1.0);
+  if (u_contrast != 0.0) {
+    float factor = (u_contrast + 100.0) / 100.0;
+    rgb = clamp((rgb - 0.5) * factor + 0.5, 0.0, 1.0);
+  }
+  
+  // 4. Highlights/Shadows/Whites/Blacks
+  rgb = applyTonal(rgb);
+  
+  // 5. Curves
+  rgb = applyCurves(rgb);
+  
+  // 6. HSL per-color, or the conversion to black & white
+  if (u_bwEnabled) {
+    rgb = applyBlackAndWhite(rgb);
+  } else {
+    rgb = applyHsl(rgb);
+    
+    // 7. Vibrance & saturation
+    rgb = applyVibrance(rgb);
+    rgb = applySaturation(rgb);
+  }
+  
+  // 8. Color grading
+  rgb = applyColorGrading(rgb);
+  
+  // 9. Dehaze
+  rgb = applyDehaze(rgb);
+  
+  // processPixel hands back 8-bit values before the positional effects
+  rgb = quantize(rgb);
+  
+  // 10. Vignette (grain is added after masks and layers, on the CPU)
+  rgb = applyVignette(rgb, calculateVignette(pos));
+  
+  outColor = vec4(quantize(rgb), source.a);
+}
+`;
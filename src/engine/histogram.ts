@@ -3,7 +3,21 @@
  * Real-time histogram and image analysis tools
  */
 
-import type { HistogramData, ImageStatistics } from '@/types';
+import type { ChannelClipping, HistogramData, ImageStatistics } from '@/types';
+
+/**
+ * Flags of the per-channel clipping mask: bits 0-2 mark red, green and
+ * blue at or above the highlight threshold, bits 3-5 the same channels
+ * at or below the shadow threshold
+ */
+export const CLIP_HIGHLIGHT_RED = 1;
+export const CLIP_HIGHLIGHT_GREEN = 2;
+export const CLIP_HIGHLIGHT_BLUE = 4;
+export const CLIP_SHADOW_RED = 8;
+export const CLIP_SHADOW_GREEN = 16;
+export const CLIP_SHADOW_BLUE = 32;
+export const CLIP_HIGHLIGHTS = CLIP_HIGHLIGHT_RED | CLIP_HIGHLIGHT_GREEN | CLIP_HIGHLIGHT_BLUE;
+export const CLIP_SHADOWS = CLIP_SHADOW_RED | CLIP_SHADOW_GREEN | CLIP_SHADOW_BLUE;
 
 /**
  * Calculate RGB and luminance histograms
@@ -75,23 +89,42 @@ export function calculateHistogramFast(
 
 /**
  * Detect clipping in highlights and shadows
+ * Combined figures count highlights clipped in any channel and shadows
+ * clipped in all three; the per-channel figures count each channel alone.
+ * A sampleRate above 1 checks every nth pixel, as calculateHistogramFast does.
  */
 export function detectClipping(
   imageData: ImageData,
   highThreshold: number = 250,
-  lowThreshold: number = 5
-): { highlightClipping: number; shadowClipping: number } {
+  lowThreshold: number = 5,
+  sampleRate: number = 1
+): {
+  highlightClipping: number;
+  shadowClipping: number;
+  highlightChannels: ChannelClipping;
+  shadowChannels: ChannelClipping;
+} {
   const { data } = imageData;
-  const totalPixels = data.length / 4;
+  const step = sampleRate * 4;
+  const totalPixels = Math.ceil(data.length / step);
   
   let highlightClipped = 0;
   let shadowClipped = 0;
+  let highR = 0, highG = 0, highB = 0;
+  let lowR = 0, lowG = 0, lowB = 0;
   
-  for (let i = 0; i < data.length; i += 4) {
+  for (let i = 0; i < data.length; i += step) {
     const r = data[i];
     const g = data[i + 1];
     const b = data[i + 2];
     
+    if (r >= highThreshold) highR++;
+    if (g >= highThreshold) highG++;
+    if (b >= highThreshold) highB++;
+    if (r <= lowThreshold) lowR++;
+    if (g <= lowThreshold) lowG++;
+    if (b <= lowThreshold) lowB++;
+    
     if (r >= highThreshold || g >= highThreshold || b >= highThreshold) {
       highlightClipped++;
     }
@@ -101,9 +134,13 @@ export function detectClipping(
     }
   }
   
+  const percent = (count: number) => (count / totalPixels) * 100;
+  
   return {
-    highlightClipping: (highlightClipped / totalPixels) * 100,
-    shadowClipping: (shadowClipped / totalPixels) * 100,
+    highlightClipping: percent(highlightClipped),
+    shadowClipping: percent(shadowClipped),
+    highlightChannels: { r: percent(highR), g: percent(highG), b: percent(highB) },
+    shadowChannels: { r: percent(lowR), g: percent(lowG), b: percent(lowB) },
   };
 }
 
@@ -135,10 +172,45 @@ export function createClippingMask(
   return mask;
 }
 
+/**
+ * Create per-channel clipping flags for the zebra overlay
+ * 
+ * @returns One byte per pixel of CLIP_* flags
+ */
+export function createChannelClippingMask(
+  imageData: ImageData,
+  highThreshold: number = 250,
+  lowThreshold: number = 5
+): Uint8Array {
+  const { data } = imageData;
+  const mask = new Uint8Array(data.length / 4);
+  
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    
+    let flags = 0;
+    if (r >= highThreshold) flags |= CLIP_HIGHLIGHT_RED;
+    if (g >= highThreshold) flags |= CLIP_HIGHLIGHT_GREEN;
+    if (b >= highThreshold) flags |= CLIP_HIGHLIGHT_BLUE;
+    if (r <= lowThreshold) flags |= CLIP_SHADOW_RED;
+    if (g <= lowThreshold) flags |= CLIP_SHADOW_GREEN;
+    if (b <= lowThreshold) flags |= CLIP_SHADOW_BLUE;
+    mask[i / 4] = flags;
+  }
+  
+  return mask;
+}
+
 /**
  * Calculate image statistics
  */
-export function calculateStatistics(imageData: ImageData): ImageStatistics {
+export function calculateStatistics(
+  imageData: ImageData,
+  highThreshold: number = 250,
+  lowThreshold: number = 5
+): ImageStatistics {
   const { data } = imageData;
   const pixelCount = data.length / 4;
   
@@ -183,7 +255,11 @@ export function calculateStatistics(imageData: ImageData): ImageStatistics {
     l: Math.sqrt(varL / pixelCount),
   };
   
-  const { highlightClipping, shadowClipping } = detectClipping(imageData);
+  const { highlightClipping, shadowClipping, highlightChannels, shadowChannels } = detectClipping(
+    imageData,
+    highThreshold,
+    lowThreshold
+  );
   
   return {
     mean,
@@ -191,6 +267,8 @@ export function calculateStatistics(imageData: ImageData): ImageStatistics {
     stdDev,
     clippedHighlights: highlightClipping,
     clippedShadows: shadowClipping,
+    clippedHighlightChannels: highlightChannels,
+    clippedShadowChannels: shadowChannels,
   };
 }
 
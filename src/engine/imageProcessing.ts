@@ -5,20 +5,43 @@
  * Orchestrates the adjustment pipeline and manages processing state.
  * 
  * Pipeline Order:
+ * 0. Spot removal (retouch.ts), then geometry (rotate, flip, crop) -
+ *    applyTransforms in transforms.ts, run on the source before the
+ *    functions below
  * 1. Lens Correction (distortion, CA)
+ * 1b. Camera calibration & channel mixer (one color matrix)
  * 2. Temperature & Tint
  * 3. Exposure & Contrast
  * 4. Highlights/Shadows/Whites/Blacks
  * 5. Curves
- * 6. HSL per-color
- * 7. Vibrance & Saturation
- * 8. Split Toning
- * 9. Effects (Vignette, Dehaze)
- * 10. Grain (last)
+ * 6. HSL per-color (or the black & white mix), then the color LUT (lut.ts)
+ * 7. Vibrance & Saturation (skipped in black & white)
+ * 8. Color Grading (shadows, midtones, highlights, global)
+ * 9. Dehaze
+ * 10. Detail (Noise Reduction, Clarity, Sharpening)
+ * 11. Vignette
+ * 12. Local adjustment masks (masks.ts): each active mask re-runs
+ *     steps 1-11 with its offsets and is blended in by its weight
+ * 13. Layers (layers.ts): image and adjustment layers composited over
+ *     the result with their blend mode, opacity and mask
+ * 14. Grain (last, applyGrainRegion): added once to the composite, in
+ *     cells laid out on the original image at full resolution
+ * 
+ * Detail is the only neighborhood stage: it runs on the 8-bit result
+ * of steps 1-9 and reads pixels around each output pixel, so regions
+ * are rendered with a halo of extra pixels and cropped afterwards.
+ * 
+ * With processingMode 'linear', steps 1b-11 run on unclamped linear-light
+ * Float32 buffers (see linearLight.ts) and are encoded to 8-bit sRGB
+ * after the vignette; grain is defined on display values.
  */
 
-import type { AdjustmentSettings } from '@/types';
-import { clamp, normalizeRgb, denormalizeRgb, getLuminance } from '@/utils/colorspace';
+import type { AdjustmentSettings, DetailAdjustments, EffectAdjustments, ImageLayer, Mask } from '@/types';
+import { clamp, type RGB, normalizeRgb, denormalizeRgb, getLuminance } from '@/utils/colorspace';
+import { processPixelLinear, encodeLinear, withHeadroom } from './linearLight';
+import { applyLut, resolveLut, type CubeLut } from './lut';
+import { getActiveMasks, getMaskSettings, blendMaskRegion, getOriginalPixelMap, type MaskSpace } from './masks';
+import { compositeLayers, getActiveLayers } from './layers';
 import { 
   adjustHighlights, 
   adjustShadows, 
@@ -34,7 +57,14 @@ import {
   applyVignette,
   applyDehaze,
   applyGrain,
-  applySplitToning,
+  applyColorGrading,
+  applyBlackAndWhite,
+  applyColorMatrix,
+  getInputColorMatrix,
+  type ColorMatrix,
+  applyClarity,
+  applyUnsharpMask as applyUnsharpMaskPixel,
+  applyNoiseReduction,
   correctDistortion,
   getChromaticAberrationFactors,
   sampleBilinear,
@@ -50,14 +80,28 @@ export function cloneImageData(source: ImageData): ImageData {
 }
 
 /**
- * Process a single pixel with all basic adjustments (without position-dependent effects)
+ * Run the basic adjustments on one color (without position-dependent effects)
+ * 
+ * @param input - Color (0-1)
+ * @param settings - Adjustment settings
+ * @param lut - Color LUT resolved from settings.lut, or null
+ * @param inputMatrix - Calibration & channel mixer matrix from getInputColorMatrix
+ * @returns Adjusted color (0-1)
  */
-function processPixel(
-  r: number, g: number, b: number,
-  settings: AdjustmentSettings
-): { r: number; g: number; b: number } {
-  const { basic, color, hsl, curves, effects, splitToning } = settings;
-  let rgb = normalizeRgb(r, g, b);
+function processColor(
+  input: RGB,
+  settings: AdjustmentSettings,
+  lut: CubeLut | null,
+  inputMatrix: ColorMatrix | null
+): RGB {
+  const { basic, color, hsl, blackAndWhite, curves, effects, colorGrading } = settings;
+  let rgb = input;
+  
+  // 0. Camera calibration & channel mixer
+  if (inputMatrix) {
+    const mixed = applyColorMatrix(rgb, inputMatrix);
+    rgb = { r: clamp(mixed.r, 0, 1), g: clamp(mixed.g, 0, 1), b: clamp(mixed.b, 0, 1) };
+  }
   
   // 1. Temperature
   rgb = adjustTemperature(rgb, color.temperature);
@@ -92,34 +136,184 @@ function processPixel(
   // 6. Curves
   rgb = applyCurveAdjustments(rgb, curves);
   
-  // 7. HSL per-color
-  rgb = applyHSLAdjustments(rgb, hsl);
+  // 7. HSL per-color, or the conversion to black & white
+  rgb = blackAndWhite.enabled
+    ? applyBlackAndWhite(rgb, blackAndWhite)
+    : applyHSLAdjustments(rgb, hsl);
+  
+  // 7b. Color LUT
+  if (lut) {
+    rgb = applyLut(rgb, lut, settings.lut.amount);
+  }
   
   // 8. Vibrance & Saturation
-  rgb = adjustVibrance(rgb, color.vibrance);
-  rgb = adjustSaturation(rgb, color.saturation);
+  if (!blackAndWhite.enabled) {
+    rgb = adjustVibrance(rgb, color.vibrance);
+    rgb = adjustSaturation(rgb, color.saturation);
+  }
   
-  // 9. Split Toning
-  rgb = applySplitToning(rgb, splitToning);
+  // 9. Color Grading
+  rgb = applyColorGrading(rgb, colorGrading);
   
   // 10. Dehaze
   rgb = applyDehaze(rgb, effects.dehaze);
   
-  return denormalizeRgb(rgb);
+  return rgb;
 }
 
 /**
- * Process entire image with all adjustments
+ * Process a single pixel with all basic adjustments (without position-dependent effects)
  */
-export function processImage(
+function processPixel(
+  r: number, g: number, b: number,
+  settings: AdjustmentSettings,
+  lut: CubeLut | null,
+  inputMatrix: ColorMatrix | null
+): { r: number; g: number; b: number } {
+  return denormalizeRgb(processColor(normalizeRgb(r, g, b), settings, lut, inputMatrix));
+}
+
+// ============================================================================
+// DETAIL STAGE
+// ============================================================================
+
+/** Blur radius used to estimate noise-free brightness */
+const NOISE_REDUCTION_RADIUS = 1.5;
+
+/** Minimum difference (0-255) before sharpening kicks in */
+const SHARPEN_THRESHOLD = 2;
+
+/**
+ * Check whether any detail slider is away from neutral
+ */
+export function hasDetailAdjustments(detail: DetailAdjustments): boolean {
+  return detail.clarity !== 0 || detail.sharpness > 0 || detail.noiseReduction > 0;
+}
+
+/**
+ * Clarity radius for an image size
+ * 
+ * Clarity works on mid-frequency detail, so its radius scales with
+ * the image instead of being a fixed pixel count.
+ */
+function getClarityRadius(width: number, height: number): number {
+  return clamp(Math.round(Math.min(width, height) / 150), 4, 20);
+}
+
+/**
+ * Blend an image with a blurred copy using a per-pixel detail function
+ */
+function blendWithBlur(
   source: ImageData,
-  settings: AdjustmentSettings
+  blurred: ImageData,
+  blend: (original: RGB, blurred: RGB) => RGB
 ): ImageData {
-  const { width, height, data } = source;
-  let output = new ImageData(width, height);
-  let outData = output.data;
+  const { data, width, height } = source;
+  const blurData = blurred.data;
+  const output = new ImageData(width, height);
+  const outData = output.data;
   
-  const { effects, lensCorrection } = settings;
+  for (let i = 0; i < data.length; i += 4) {
+    const result = denormalizeRgb(blend(
+      normalizeRgb(data[i], data[i + 1], data[i + 2]),
+      normalizeRgb(blurData[i], blurData[i + 1], blurData[i + 2])
+    ));
+    outData[i] = result.r;
+    outData[i + 1] = result.g;
+    outData[i + 2] = result.b;
+    outData[i + 3] = data[i + 3];
+  }
+  
+  return output;
+}
+
+/**
+ * Apply noise reduction, clarity and sharpening (in that order)
+ * 
+ * Noise is removed first so sharpening does not amplify it.
+ */
+function applyDetail(
+  source: ImageData,
+  detail: DetailAdjustments,
+  clarityRadius: number
+): ImageData {
+  let result = source;
+  
+  if (detail.noiseReduction > 0) {
+    const blurred = applyGaussianBlur(result, NOISE_REDUCTION_RADIUS);
+    result = blendWithBlur(result, blurred, (original, smooth) =>
+      applyNoiseReduction(original, smooth, detail.noiseReduction)
+    );
+  }
+  
+  if (detail.clarity !== 0) {
+    const blurred = applyGaussianBlur(result, clarityRadius);
+    result = blendWithBlur(result, blurred, (original, smooth) =>
+      applyClarity(original, smooth, detail.clarity)
+    );
+  }
+  
+  if (detail.sharpness > 0) {
+    result = applyUnsharpMask(
+      result,
+      detail.sharpness,
+      Math.max(0.5, detail.sharpnessRadius),
+      SHARPEN_THRESHOLD
+    );
+  }
+  
+  return result;
+}
+
+/**
+ * Pixels of context the detail stage reads around each output pixel
+ * 
+ * Each blur reads ceil(radius * 3) pixels to either side, and the
+ * blurs run one after another, so their reach adds up.
+ */
+function getDetailHalo(detail: DetailAdjustments, clarityRadius: number): number {
+  let halo = 0;
+  if (detail.noiseReduction > 0) halo += Math.ceil(NOISE_REDUCTION_RADIUS * 3);
+  if (detail.clarity !== 0) halo += Math.ceil(clarityRadius * 3);
+  if (detail.sharpness > 0) halo += Math.ceil(Math.max(0.5, detail.sharpnessRadius) * 3);
+  return halo;
+}
+
+// ============================================================================
+// REGION RENDERING
+// ============================================================================
+
+/**
+ * Per-render values shared by every tile of one render
+ */
+interface RenderContext {
+  needsLensCorrection: boolean;
+  caFactors: { r: number; g: number; b: number };
+  needsDetail: boolean;
+  clarityRadius: number;
+  /** Extra pixels rendered around each region for the detail stage */
+  detailHalo: number;
+  /** Color LUT to apply, resolved from its library id */
+  lut: CubeLut | null;
+  /** Calibration & channel mixer matrix, or null when both are neutral */
+  inputMatrix: ColorMatrix | null;
+}
+
+/**
+ * Rectangular region of the image in global pixel coordinates
+ */
+interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Pre-compute values that must be identical across all tiles
+ */
+function createRenderContext(source: ImageData, settings: AdjustmentSettings): RenderContext {
+  const { lensCorrection, detail } = settings;
   
   // Check if lens correction is needed
   const needsLensCorrection = 
@@ -134,45 +328,175 @@ export function processImage(
       lensCorrection.chromaticAberration.blueYellow
     ) : { r: 1, g: 1, b: 1 };
   
-  // Random seed for grain (changes each render for animation effect)
-  const grainSeed = Date.now() % 10000;
+  // Detail radii depend on the full image, never on the tile
+  const needsDetail = hasDetailAdjustments(detail);
+  const clarityRadius = getClarityRadius(source.width, source.height);
+  const detailHalo = needsDetail ? getDetailHalo(detail, clarityRadius) : 0;
   
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
+  // Tables and matrices are built once, not per pixel
+  const lut = resolveLut(settings.lut);
+  const inputMatrix = getInputColorMatrix(settings.calibration, settings.channelMixer);
+  
+  return { needsLensCorrection, caFactors, needsDetail, clarityRadius, detailHalo, lut, inputMatrix };
+}
+
+/**
+ * Grow a region by a margin, clamped to the image bounds
+ */
+function expandRegion(region: Region, margin: number, width: number, height: number): Region {
+  const x = Math.max(0, region.x - margin);
+  const y = Math.max(0, region.y - margin);
+  return {
+    x,
+    y,
+    width: Math.min(width, region.x + region.width + margin) - x,
+    height: Math.min(height, region.y + region.height + margin) - y,
+  };
+}
+
+/**
+ * Read one source pixel (0-255), applying lens correction (step 1)
+ */
+function readSourcePixel(
+  source: ImageData,
+  settings: AdjustmentSettings,
+  context: RenderContext,
+  x: number,
+  y: number
+): RGB {
+  const { width, height, data } = source;
+  
+  if (!context.needsLensCorrection) {
+    const i = (y * width + x) * 4;
+    return { r: data[i], g: data[i + 1], b: data[i + 2] };
+  }
+  
+  const { caFactors } = context;
+  
+  // Normalize coordinates to -1 to 1
+  const nx = (x / width - 0.5) * 2;
+  const ny = (y / height - 0.5) * 2;
+  
+  // Apply distortion correction
+  const corrected = correctDistortion(nx, ny, settings.lensCorrection.distortion);
+  
+  // Sample each channel with CA offset
+  const srcRX = ((corrected.x * caFactors.r) / 2 + 0.5) * width;
+  const srcRY = ((corrected.y * caFactors.r) / 2 + 0.5) * height;
+  const srcGX = ((corrected.x * caFactors.g) / 2 + 0.5) * width;
+  const srcGY = ((corrected.y * caFactors.g) / 2 + 0.5) * height;
+  const srcBX = ((corrected.x * caFactors.b) / 2 + 0.5) * width;
+  const srcBY = ((corrected.y * caFactors.b) / 2 + 0.5) * height;
+  
+  return {
+    r: sampleBilinear(data, width, height, srcRX, srcRY, 0),
+    g: sampleBilinear(data, width, height, srcGX, srcGY, 1),
+    b: sampleBilinear(data, width, height, srcBX, srcBY, 2),
+  };
+}
+
+/**
+ * Run lens correction and the per-pixel adjustments (steps 1-9) for a region
+ */
+function renderBaseRegion(
+  source: ImageData,
+  settings: AdjustmentSettings,
+  context: RenderContext,
+  region: Region
+): ImageData {
+  const { width, data } = source;
+  const output = new ImageData(region.width, region.height);
+  const outData = output.data;
+  
+  for (let ry = 0; ry < region.height; ry++) {
+    const y = region.y + ry;
+    
+    for (let rx = 0; rx < region.width; rx++) {
+      const x = region.x + rx;
       const i = (y * width + x) * 4;
+      const o = (ry * region.width + rx) * 4;
       
-      let r: number, g: number, b: number;
-      
-      if (needsLensCorrection) {
-        // Normalize coordinates to -1 to 1
-        const nx = (x / width - 0.5) * 2;
-        const ny = (y / height - 0.5) * 2;
-        
-        // Apply distortion correction
-        const corrected = correctDistortion(nx, ny, lensCorrection.distortion);
-        
-        // Sample each channel with CA offset
-        const srcRX = ((corrected.x * caFactors.r) / 2 + 0.5) * width;
-        const srcRY = ((corrected.y * caFactors.r) / 2 + 0.5) * height;
-        const srcGX = ((corrected.x * caFactors.g) / 2 + 0.5) * width;
-        const srcGY = ((corrected.y * caFactors.g) / 2 + 0.5) * height;
-        const srcBX = ((corrected.x * caFactors.b) / 2 + 0.5) * width;
-        const srcBY = ((corrected.y * caFactors.b) / 2 + 0.5) * height;
-        
-        r = sampleBilinear(data, width, height, srcRX, srcRY, 0);
-        g = sampleBilinear(data, width, height, srcGX, srcGY, 1);
-        b = sampleBilinear(data, width, height, srcBX, srcBY, 2);
-      } else {
-        r = data[i];
-        g = data[i + 1];
-        b = data[i + 2];
-      }
+      const { r, g, b } = readSourcePixel(source, settings, context, x, y);
       
       // Apply non-position-dependent adjustments
-      const result = processPixel(r, g, b, settings);
+      const result = processPixel(r, g, b, settings, context.lut, context.inputMatrix);
+      outData[o] = result.r;
+      outData[o + 1] = result.g;
+      outData[o + 2] = result.b;
+      outData[o + 3] = data[i + 3]; // Preserve alpha
+    }
+  }
+  
+  return output;
+}
+
+/**
+ * Render one region of the image into a region-sized ImageData
+ * 
+ * Position-dependent stages (lens correction, vignette) are
+ * evaluated at global image coordinates, and the detail stage is fed
+ * a halo of neighboring pixels, so a region renders exactly the same
+ * pixels it would have in a full-frame render.
+ */
+function renderRegion(
+  source: ImageData,
+  settings: AdjustmentSettings,
+  context: RenderContext,
+  region: Region
+): ImageData {
+  if (settings.processingMode === 'linear') {
+    return renderRegionLinear(source, settings, context, region);
+  }
+  
+  const { width, height } = source;
+  const { needsDetail, clarityRadius, detailHalo } = context;
+  
+  // Steps 1-9 over the region plus the detail halo
+  const padded = needsDetail ? expandRegion(region, detailHalo, width, height) : region;
+  let base = renderBaseRegion(source, settings, context, padded);
+  
+  // Step 10: neighborhood detail stage
+  if (needsDetail) {
+    base = applyDetail(base, settings.detail, clarityRadius);
+  }
+  
+  return finishRegion(source, settings, base, padded, region);
+}
+
+/**
+ * Vignette (step 11) for a region
+ * 
+ * @param base - Result of steps 1-10 covering the padded region
+ * @param padded - Region covered by base (region plus any detail halo)
+ * @param region - Region to output
+ */
+function finishRegion(
+  source: ImageData,
+  settings: AdjustmentSettings,
+  base: ImageData,
+  padded: Region,
+  region: Region
+): ImageData {
+  const { width, height } = source;
+  const { effects } = settings;
+  
+  const baseData = base.data;
+  const offsetX = region.x - padded.x;
+  const offsetY = region.y - padded.y;
+  
+  const output = new ImageData(region.width, region.height);
+  const outData = output.data;
+  
+  for (let ry = 0; ry < region.height; ry++) {
+    const y = region.y + ry;
+    
+    for (let rx = 0; rx < region.width; rx++) {
+      const x = region.x + rx;
+      const i = ((ry + offsetY) * padded.width + rx + offsetX) * 4;
+      const o = (ry * region.width + rx) * 4;
       
       // Convert to normalized for remaining adjustments
-      let rgb = normalizeRgb(result.r, result.g, result.b);
+      let rgb = normalizeRgb(baseData[i], baseData[i + 1], baseData[i + 2]);
       
       // Apply vignette (position-dependent)
       if (effects.vignetteAmount !== 0) {
@@ -181,60 +505,573 @@ export function processImage(
         rgb = applyVignette(rgb, luminance, vignetteFactor, effects.vignetteHighlightProtection);
       }
       
-      // Apply grain (position-dependent, last effect)
-      if (effects.grainAmount > 0) {
-        rgb = applyGrain(
-          rgb, x, y, 
-          effects.grainAmount, 
-          effects.grainSize,
-          effects.grainRoughness,
-          effects.grainMonochrome,
-          grainSeed
-        );
+      const final = denormalizeRgb(rgb);
+      outData[o] = final.r;
+      outData[o + 1] = final.g;
+      outData[o + 2] = final.b;
+      outData[o + 3] = baseData[i + 3];
+    }
+  }
+  
+  return output;
+}
+
+// ============================================================================
+// LINEAR-LIGHT REGION RENDERING
+// ============================================================================
+
+/**
+ * RGBA float buffer; RGB in linear light (unclamped), alpha 0-255
+ */
+export interface FloatImage {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+/**
+ * Lens correction and linear per-pixel adjustments (steps 1-9) for a region
+ */
+function renderBaseRegionLinear(
+  source: ImageData,
+  settings: AdjustmentSettings,
+  context: RenderContext,
+  region: Region
+): FloatImage {
+  const { width, data } = source;
+  const output = new Float32Array(region.width * region.height * 4);
+  
+  for (let ry = 0; ry < region.height; ry++) {
+    const y = region.y + ry;
+    
+    for (let rx = 0; rx < region.width; rx++) {
+      const x = region.x + rx;
+      const i = (y * width + x) * 4;
+      const o = (ry * region.width + rx) * 4;
+      
+      const { r, g, b } = readSourcePixel(source, settings, context, x, y);
+      const result = processPixelLinear(r, g, b, settings, context.lut, context.inputMatrix);
+      output[o] = result.r;
+      output[o + 1] = result.g;
+      output[o + 2] = result.b;
+      output[o + 3] = data[i + 3];
+    }
+  }
+  
+  return { width: region.width, height: region.height, data: output };
+}
+
+/**
+ * Blend a float image with a blurred copy using a display-referred detail function
+ */
+function blendWithBlurLinear(
+  source: FloatImage,
+  blurred: Float32Array,
+  blend: (original: RGB, blurred: RGB) => RGB
+): FloatImage {
+  const { data } = source;
+  const output = new Float32Array(data.length);
+  
+  for (let i = 0; i < data.length; i += 4) {
+    const original = { r: data[i], g: data[i + 1], b: data[i + 2] };
+    const smooth = { r: blurred[i], g: blurred[i + 1], b: blurred[i + 2] };
+    
+    // Both pixels share the original's headroom scale
+    const peak = Math.max(original.r, original.g, original.b, 1);
+    const result = withHeadroom(original, encoded => blend(encoded, {
+      r: encodeLinear(Math.max(0, smooth.r / peak)),
+      g: encodeLinear(Math.max(0, smooth.g / peak)),
+      b: encodeLinear(Math.max(0, smooth.b / peak)),
+    }));
+    
+    output[i] = result.r;
+    output[i + 1] = result.g;
+    output[i + 2] = result.b;
+    output[i + 3] = data[i + 3];
+  }
+  
+  return { ...source, data: output };
+}
+
+/**
+ * Detail stage on a linear float image (same order as applyDetail)
+ */
+function applyDetailLinear(
+  source: FloatImage,
+  detail: DetailAdjustments,
+  clarityRadius: number
+): FloatImage {
+  let result = source;
+  
+  if (detail.noiseReduction > 0) {
+    const blurred = blurFloat(result, NOISE_REDUCTION_RADIUS);
+    result = blendWithBlurLinear(result, blurred, (original, smooth) =>
+      applyNoiseReduction(original, smooth, detail.noiseReduction)
+    );
+  }
+  
+  if (detail.clarity !== 0) {
+    const blurred = blurFloat(result, clarityRadius);
+    result = blendWithBlurLinear(result, blurred, (original, smooth) =>
+      applyClarity(original, smooth, detail.clarity)
+    );
+  }
+  
+  if (detail.sharpness > 0) {
+    const blurred = blurFloat(result, Math.max(0.5, detail.sharpnessRadius));
+    result = blendWithBlurLinear(result, blurred, (original, smooth) =>
+      applyUnsharpMaskPixel(original, smooth, detail.sharpness, SHARPEN_THRESHOLD)
+    );
+  }
+  
+  return result;
+}
+
+/**
+ * Linear-light counterpart of renderRegion
+ * 
+ * Vignette multiplies linear values; the result is encoded to sRGB once.
+ */
+function renderRegionLinear(
+  source: ImageData,
+  settings: AdjustmentSettings,
+  context: RenderContext,
+  region: Region
+): ImageData {
+  const { width, height } = source;
+  const { needsDetail, clarityRadius, detailHalo } = context;
+  
+  const padded = needsDetail ? expandRegion(region, detailHalo, width, height) : region;
+  let base = renderBaseRegionLinear(source, settings, context, padded);
+  
+  if (needsDetail) {
+    base = applyDetailLinear(base, settings.detail, clarityRadius);
+  }
+  
+  return finishRegionLinear(source, settings, base, padded, region);
+}
+
+/**
+ * Linear vignette and display encode for a region (see finishRegion)
+ */
+function finishRegionLinear(
+  source: ImageData,
+  settings: AdjustmentSettings,
+  base: FloatImage,
+  padded: Region,
+  region: Region
+): ImageData {
+  const { width, height } = source;
+  const { effects } = settings;
+  
+  const baseData = base.data;
+  const offsetX = region.x - padded.x;
+  const offsetY = region.y - padded.y;
+  
+  const output = new ImageData(region.width, region.height);
+  const outData = output.data;
+  
+  for (let ry = 0; ry < region.height; ry++) {
+    const y = region.y + ry;
+    
+    for (let rx = 0; rx < region.width; rx++) {
+      const x = region.x + rx;
+      const i = ((ry + offsetY) * padded.width + rx + offsetX) * 4;
+      const o = (ry * region.width + rx) * 4;
+      
+      let r = baseData[i];
+      let g = baseData[i + 1];
+      let b = baseData[i + 2];
+      
+      // Vignette as a linear gain
+      if (effects.vignetteAmount !== 0) {
+        const vignetteFactor = calculateVignette(x, y, width, height, effects);
+        let factor = vignetteFactor;
+        if (vignetteFactor < 1 && effects.vignetteHighlightProtection > 0) {
+          const luminance = clamp(0.2126 * r + 0.7152 * g + 0.0722 * b, 0, 1);
+          const protection = (effects.vignetteHighlightProtection / 100) * luminance;
+          factor = vignetteFactor + (1 - vignetteFactor) * protection;
+        }
+        r *= factor;
+        g *= factor;
+        b *= factor;
       }
       
+      // Display encode (values above white clip here, and only here)
+      const rgb: RGB = {
+        r: clamp(encodeLinear(r), 0, 1),
+        g: clamp(encodeLinear(g), 0, 1),
+        b: clamp(encodeLinear(b), 0, 1),
+      };
+      
       const final = denormalizeRgb(rgb);
-      outData[i] = final.r;
-      outData[i + 1] = final.g;
-      outData[i + 2] = final.b;
-      outData[i + 3] = data[i + 3]; // Preserve alpha
+      outData[o] = final.r;
+      outData[o + 1] = final.g;
+      outData[o + 2] = final.b;
+      outData[o + 3] = baseData[i + 3];
     }
   }
   
   return output;
 }
 
+// ============================================================================
+// MASKED RENDERING
+// ============================================================================
+
 /**
- * Process image in tiles for large images
- * Note: This simple tiled version doesn't apply position-dependent effects like vignette correctly
- * For full accuracy with all effects, use processImage instead
+ * One local adjustment pass: the mask and the settings it renders with
  */
-export function processImageTiled(
+interface MaskPass {
+  mask: Mask;
+  settings: AdjustmentSettings;
+  context: RenderContext;
+}
+
+function createMaskPasses(source: ImageData, settings: AdjustmentSettings): MaskPass[] {
+  return getActiveMasks(settings).map(mask => {
+    const maskSettings = getMaskSettings(settings, mask);
+    return { mask, settings: maskSettings, context: createRenderContext(source, maskSettings) };
+  });
+}
+
+/**
+ * Render a region and blend each mask pass over it (step 12)
+ */
+function renderMaskedRegion(
   source: ImageData,
   settings: AdjustmentSettings,
-  _tileSize: number = 256,
-  onProgress?: (progress: number) => void
+  context: RenderContext,
+  passes: MaskPass[],
+  space: MaskSpace,
+  region: Region
 ): ImageData {
-  // For now, delegate to the full processImage since we have position-dependent effects
-  // TODO: Implement proper tiled processing with vignette/grain coordinate tracking
-  onProgress?.(0);
-  const result = processImage(source, settings);
-  onProgress?.(1);
-  return result;
+  const output = renderRegion(source, settings, context, region);
+  
+  for (const pass of passes) {
+    const local = renderRegion(source, pass.settings, pass.context, region);
+    blendMaskRegion(output, local, pass.mask, source, region, space);
+  }
+  
+  return output;
 }
 
+// ============================================================================
+// FILM GRAIN
+// ============================================================================
+
 /**
- * Apply gaussian blur for clarity/sharpening
+ * Add film grain (step 14) to a region of a finished render
+ * 
+ * Grain cells are laid out on the original image at full resolution,
+ * so the pattern stays put when the crop, rotation or flips change, and
+ * a proxy render shows the same grain as the export, sampled once per
+ * proxy pixel. Runs once on the composite: mask and layer passes
+ * render without grain.
+ * 
+ * @param target - Region-sized render (modified in place)
+ * @param effects - Grain settings
+ * @param source - Frame being rendered (after geometry)
+ * @param region - Region covered by target (global pixels)
+ * @param space - Geometry that produced the rendered frame
+ * @param scale - Frame scale relative to the original (1 at full resolution)
  */
-export function applyGaussianBlur(
+export function applyGrainRegion(
+  target: ImageData,
+  effects: EffectAdjustments,
+  source: { width: number; height: number },
+  region: Region,
+  space: MaskSpace,
+  scale: number = 1
+): void {
+  if (effects.grainAmount <= 0) return;
+  
+  const map = getOriginalPixelMap(source, space);
+  const data = target.data;
+  
+  for (let ry = 0; ry < region.height; ry++) {
+    const py = region.y + ry + 0.5;
+    
+    for (let rx = 0; rx < region.width; rx++) {
+      const px = region.x + rx + 0.5;
+      const i = (ry * region.width + rx) * 4;
+      
+      // Full-resolution original pixel under this pixel's center
+      const x = Math.floor((map.xx * px + map.xy * py + map.x0) / scale);
+      const y = Math.floor((map.yx * px + map.yy * py + map.y0) / scale);
+      
+      const rgb = applyGrain(
+        normalizeRgb(data[i], data[i + 1], data[i + 2]),
+        x, y,
+        effects.grainAmount,
+        effects.grainSize,
+        effects.grainRoughness,
+        effects.grainMonochrome,
+        effects.grainSeed
+      );
+      
+      const final = denormalizeRgb(rgb);
+      data[i] = final.r;
+      data[i + 1] = final.g;
+      data[i + 2] = final.b;
+    }
+  }
+}
+
+// ============================================================================
+// STAGED RENDERING
+// ============================================================================
+
+/**
+ * Full-frame result of a pipeline stage: 8-bit, or float in linear mode
+ */
+export type StageBuffer = ImageData | FloatImage;
+
+function isFloatImage(buffer: StageBuffer): buffer is FloatImage {
+  return buffer.data instanceof Float32Array;
+}
+
+function getFullRegion(source: ImageData): Region {
+  return { x: 0, y: 0, width: source.width, height: source.height };
+}
+
+/**
+ * Lens correction and per-pixel adjustments (steps 1-9) for the whole frame
+ * 
+ * Reads every setting except transform, detail and the vignette/grain effects.
+ */
+export function renderBaseStage(source: ImageData, settings: AdjustmentSettings): StageBuffer {
+  const context = createRenderContext(source, settings);
+  const region = getFullRegion(source);
+  return settings.processingMode === 'linear'
+    ? renderBaseRegionLinear(source, settings, context, region)
+    : renderBaseRegion(source, settings, context, region);
+}
+
+/**
+ * Detail stage (step 10) on a full-frame base buffer
+ * 
+ * Reads settings.detail; the base buffer is not modified.
+ */
+export function renderDetailStage(
+  base: StageBuffer,
   source: ImageData,
-  radius: number
+  settings: AdjustmentSettings
+): StageBuffer {
+  const clarityRadius = getClarityRadius(source.width, source.height);
+  return isFloatImage(base)
+    ? applyDetailLinear(base, settings.detail, clarityRadius)
+    : applyDetail(base, settings.detail, clarityRadius);
+}
+
+/**
+ * Vignette (step 11) into a new 8-bit image
+ * 
+ * Together with the stages above this gives exactly processImage's output
+ * for settings without masks or grain (see compositeMasks in masks.ts
+ * and applyGrainRegion).
+ */
+export function renderFinishStage(
+  buffer: StageBuffer,
+  source: ImageData,
+  settings: AdjustmentSettings
 ): ImageData {
-  const { data, width, height } = source;
+  const region = getFullRegion(source);
+  return isFloatImage(buffer)
+    ? finishRegionLinear(source, settings, buffer, region, region)
+    : finishRegion(source, settings, buffer, region, region);
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Process entire image with all adjustments
+ * 
+ * @param source - Full-resolution frame after spot removal and geometry
+ * @param settings - Adjustment settings
+ * @param originalSize - Image size before geometry, which mask geometry
+ *   refers to (defaults to the source size, right when nothing is rotated or cropped)
+ */
+export function processImage(
+  source: ImageData,
+  settings: AdjustmentSettings,
+  originalSize: { width: number; height: number } = source
+): ImageData {
+  const context = createRenderContext(source, settings);
+  const passes = createMaskPasses(source, settings);
+  const space = { transform: settings.transform, width: originalSize.width, height: originalSize.height };
+  const region = getFullRegion(source);
+  
+  const output = renderMaskedRegion(source, settings, context, passes, space, region);
+  applyGrainRegion(output, settings.effects, source, region, space);
+  return output;
+}
+
+/**
+ * Render a frame and its mask passes tile by tile (steps 1-12)
+ * 
+ * @param onProgress - Called after each tile with completed fraction (0-1)
+ */
+function renderTiles(
+  source: ImageData,
+  settings: AdjustmentSettings,
+  space: MaskSpace,
+  tileSize: number,
+  onProgress: (progress: number) => void
+): ImageData {
+  const { width, height } = source;
   const output = new ImageData(width, height);
   const outData = output.data;
   
-  // Generate gaussian kernel
+  // Shared across tiles so CA and detail stay continuous at tile seams
+  const context = createRenderContext(source, settings);
+  const passes = createMaskPasses(source, settings);
+  
+  const size = Math.max(1, Math.floor(tileSize));
+  const columns = Math.ceil(width / size);
+  const rows = Math.ceil(height / size);
+  const totalTiles = columns * rows;
+  let completed = 0;
+  
+  for (let ty = 0; ty < rows; ty++) {
+    for (let tx = 0; tx < columns; tx++) {
+      const region: Region = {
+        x: tx * size,
+        y: ty * size,
+        width: Math.min(size, width - tx * size),
+        height: Math.min(size, height - ty * size),
+      };
+      
+      const tile = renderMaskedRegion(source, settings, context, passes, space, region);
+      
+      // Copy tile rows into place
+      const rowLength = region.width * 4;
+      for (let row = 0; row < region.height; row++) {
+        const srcStart = row * rowLength;
+        const dstStart = ((region.y + row) * width + region.x) * 4;
+        outData.set(tile.data.subarray(srcStart, srcStart + rowLength), dstStart);
+      }
+      
+      completed++;
+      onProgress(completed / totalTiles);
+    }
+  }
+  
+  return output;
+}
+
+/**
+ * Process image in tiles for large images
+ * 
+ * Only one tile-sized working buffer exists at a time, which keeps
+ * peak memory close to source + output even for 50MP+ exports.
+ * Layers are composited over the result; each adjustment layer renders
+ * the composite below it in tiles into one more frame-sized buffer.
+ * For settings without layers the output is identical to processImage.
+ * 
+ * Export renders through here in the processing worker, where the
+ * color LUT registry is filled.
+ * 
+ * @param source - Full-resolution frame after spot removal and geometry
+ * @param settings - Adjustment settings
+ * @param tileSize - Tile edge length in pixels
+ * @param onProgress - Called after each tile with completed fraction (0-1)
+ * @param originalSize - Image size before geometry (see processImage)
+ * @param getLayerFrame - Pixels of an image layer in the output frame,
+ *   or null when not loaded (such layers are skipped)
+ * @returns Processed ImageData
+ */
+export function processImageTiled(
+  source: ImageData,
+  settings: AdjustmentSettings,
+  tileSize: number = 256,
+  onProgress?: (progress: number) => void,
+  originalSize: { width: number; height: number } = source,
+  getLayerFrame: (layer: ImageLayer) => ImageData | null = () => null
+): ImageData {
+  const space = { transform: settings.transform, width: originalSize.width, height: originalSize.height };
+  
+  // The base render and each adjustment layer are one pass over all tiles
+  const totalPasses = 1 + getActiveLayers(settings).filter(layer => layer.type === 'adjustment').length;
+  let pass = 0;
+  const report = (progress: number) => onProgress?.((pass + progress) / totalPasses);
+  
+  onProgress?.(0);
+  
+  const output = renderTiles(source, settings, space, tileSize, report);
+  compositeLayers(output, source, settings, space, getLayerFrame, (image, layerSettings) => {
+    pass++;
+    return renderTiles(image, layerSettings, space, tileSize, report);
+  });
+  
+  applyGrainRegion(output, settings.effects, source, getFullRegion(source), space);
+  return output;
+}
+
+/**
+ * Bake the color part of the settings into a 3D LUT
+ * 
+ * Every lattice point of an identity cube runs through steps 0-9 of
+ * processColor (calibration & channel mixer, white balance, tone, curves,
+ * HSL or the black & white conversion, the color LUT, vibrance, saturation
+ * and color grading) in the settings' processing mode.
+ * Position-dependent steps and dehaze are not part of the look and are
+ * left out, so the result can grade other footage.
+ * 
+ * The color LUT is passed in rather than resolved from the registry,
+ * which is only filled inside the processing worker.
+ * 
+ * @param settings - Adjustment settings
+ * @param lut - Table selected by settings.lut (null when none is applied)
+ * @param size - Lattice points per axis (e.g. 17, 33 or 65)
+ * @param title - Title stored in the LUT
+ * @returns 3D LUT over the 0-1 domain
+ */
+export function bakeColorLut(
+  settings: AdjustmentSettings,
+  lut: CubeLut | null,
+  size: number,
+  title: string
+): CubeLut {
+  const look: AdjustmentSettings = { ...settings, effects: { ...settings.effects, dehaze: 0 } };
+  const inputMatrix = getInputColorMatrix(look.calibration, look.channelMixer);
+  const table = new Float32Array(size * size * size * 3);
+  
+  // Red varies fastest, as in .cube files
+  let o = 0;
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const input = { r: r / (size - 1), g: g / (size - 1), b: b / (size - 1) };
+        let result: RGB;
+        
+        if (look.processingMode === 'linear') {
+          const linear = processPixelLinear(input.r * 255, input.g * 255, input.b * 255, look, lut, inputMatrix);
+          result = {
+            r: clamp(encodeLinear(linear.r), 0, 1),
+            g: clamp(encodeLinear(linear.g), 0, 1),
+            b: clamp(encodeLinear(linear.b), 0, 1),
+          };
+        } else {
+          result = processColor(input, look, lut, inputMatrix);
+        }
+        
+        table[o++] = result.r;
+        table[o++] = result.g;
+        table[o++] = result.b;
+      }
+    }
+  }
+  
+  return { title, kind: '3d', size, domainMin: [0, 0, 0], domainMax: [1, 1, 1], table };
+}
+
+/**
+ * Normalized 1D gaussian kernel reaching ceil(radius * 3) pixels each side
+ */
+function createGaussianKernel(radius: number): number[] {
   const size = Math.ceil(radius * 3) * 2 + 1;
   const kernel: number[] = [];
   const sigma = radius / 3;
@@ -252,6 +1089,78 @@ export function applyGaussianBlur(
     kernel[i] /= sum;
   }
   
+  return kernel;
+}
+
+/**
+ * Gaussian blur of a float image's RGB channels (alpha is not blurred)
+ */
+function blurFloat(source: FloatImage, radius: number): Float32Array {
+  const { data, width, height } = source;
+  const kernel = createGaussianKernel(radius);
+  const size = kernel.length;
+  const halfSize = Math.floor(size / 2);
+  const temp = new Float32Array(data.length);
+  const output = new Float32Array(data.length);
+  
+  // Horizontal pass
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0;
+      
+      for (let k = 0; k < size; k++) {
+        const sx = clamp(x + k - halfSize, 0, width - 1);
+        const i = (y * width + sx) * 4;
+        r += data[i] * kernel[k];
+        g += data[i + 1] * kernel[k];
+        b += data[i + 2] * kernel[k];
+      }
+      
+      const i = (y * width + x) * 4;
+      temp[i] = r;
+      temp[i + 1] = g;
+      temp[i + 2] = b;
+    }
+  }
+  
+  // Vertical pass
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0;
+      
+      for (let k = 0; k < size; k++) {
+        const sy = clamp(y + k - halfSize, 0, height - 1);
+        const i = (sy * width + x) * 4;
+        r += temp[i] * kernel[k];
+        g += temp[i + 1] * kernel[k];
+        b += temp[i + 2] * kernel[k];
+      }
+      
+      const i = (y * width + x) * 4;
+      output[i] = r;
+      output[i + 1] = g;
+      output[i + 2] = b;
+      output[i + 3] = data[i + 3];
+    }
+  }
+  
+  return output;
+}
+
+/**
+ * Apply gaussian blur for clarity/sharpening
+ */
+export function applyGaussianBlur(
+  source: ImageData,
+  radius: number
+): ImageData {
+  const { data, width, height } = source;
+  const output = new ImageData(width, height);
+  const outData = output.data;
+  
+  const kernel = createGaussianKernel(radius);
+  const size = kernel.length;
+  
   // Horizontal pass
   const temp = new Float32Array(data.length);
   const halfSize = Math.floor(size / 2);
@@ -0,0 +1,281 @@
+/**
+ * APEX Photo Studio - Layers
+ * 
+ * Compositing of layers over the rendered original:
+ * - Image layers: a second picture, scaled to cover the original
+ * - Adjustment layers: the composite below, re-rendered with their own settings
+ * - Blend modes: normal, multiply, screen, overlay, soft light,
+ *   luminosity and color (as defined for CSS / PDF compositing)
+ * - Per-layer opacity and optional mask
+ * 
+ * Layers are composited bottom to top in the output frame, after the
+ * original's own render and its local masks. Image layers go through the
+ * same geometry as the original, so a crop or rotation frames the stack.
+ */
+
+import type {
+  AdjustmentLayer,
+  AdjustmentSettings,
+  BlendMode,
+  ImageLayer,
+  Layer,
+  LayerAdjustments,
+  LayerType,
+} from '@/types';
+import { DEFAULT_ADJUSTMENT_SETTINGS } from '@/types';
+import { clamp } from '@/utils/colorspace';
+import { renderMaskWeights, type MaskSpace } from './masks';
+
+const LAYER_NAMES: Record<LayerType, string> = {
+  image: 'Image',
+  adjustment: 'Adjustment',
+};
+
+// ============================================================================
+// LAYER DOCUMENT
+// ============================================================================
+
+/**
+ * Pixel adjustments with default (neutral) values
+ */
+function createLayerAdjustments(): LayerAdjustments {
+  const {
+    basic, color, calibration, channelMixer, detail, hsl, blackAndWhite,
+    curves, effects, colorGrading, lut, lensCorrection, processingMode,
+  } = DEFAULT_ADJUSTMENT_SETTINGS;
+  return JSON.parse(JSON.stringify({
+    basic, color, calibration, channelMixer, detail, hsl, blackAndWhite,
+    curves, effects, colorGrading, lut, lensCorrection, processingMode,
+  }));
+}
+
+/**
+ * Create a visible, unmasked layer at full opacity
+ * 
+ * @param type - Layer type
+ * @param existing - Layers already in the document (used for the name)
+ * @returns New layer
+ */
+export function createLayer(type: LayerType, existing: Layer[]): Layer {
+  const count = existing.filter(layer => layer.type === type).length;
+  const base = {
+    id: crypto.randomUUID(),
+    name: `${LAYER_NAMES[type]} ${count + 1}`,
+    visible: true,
+    opacity: 100,
+    blendMode: 'normal' as BlendMode,
+    mask: null,
+  };
+  
+  return type === 'image'
+    ? { ...base, type }
+    : { ...base, type, adjustments: createLayerAdjustments() };
+}
+
+/**
+ * Layers that change the composite, bottom to top
+ */
+export function getActiveLayers(settings: AdjustmentSettings): Layer[] {
+  return (settings.layers ?? []).filter(layer => layer.visible && layer.opacity > 0);
+}
+
+/**
+ * Full pipeline settings for rendering an adjustment layer
+ */
+export function getLayerSettings(settings: AdjustmentSettings, layer: AdjustmentLayer): AdjustmentSettings {
+  return {
+    ...layer.adjustments,
+    transform: settings.transform,
+    spots: [],
+    masks: [],
+    layers: [],
+  };
+}
+
+// ============================================================================
+// IMAGE LAYER PLACEMENT
+// ============================================================================
+
+/**
+ * Scale an image to cover a size, cropping the overflow evenly
+ * 
+ * @param image - Layer pixels
+ * @param width - Target width (the original's, or its proxy's)
+ * @param height - Target height
+ * @returns Image of exactly width x height (the input when it already fits)
+ */
+export function fitLayerImage(image: ImageData, width: number, height: number): ImageData {
+  if (image.width === width && image.height === height) return image;
+  
+  const scale = Math.max(width / image.width, height / image.height);
+  const offsetX = (image.width - width / scale) / 2;
+  const offsetY = (image.height - height / scale) / 2;
+  const output = new ImageData(width, height);
+  const src = image.data;
+  const out = output.data;
+  
+  for (let y = 0; y < height; y++) {
+    const fy = clamp(offsetY + (y + 0.5) / scale - 0.5, 0, image.height - 1);
+    const y0 = Math.floor(fy);
+    const y1 = Math.min(y0 + 1, image.height - 1);
+    const ty = fy - y0;
+    
+    for (let x = 0; x < width; x++) {
+      const fx = clamp(offsetX + (x + 0.5) / scale - 0.5, 0, image.width - 1);
+      const x0 = Math.floor(fx);
+      const x1 = Math.min(x0 + 1, image.width - 1);
+      const tx = fx - x0;
+      
+      const i00 = (y0 * image.width + x0) * 4;
+      const i10 = (y0 * image.width + x1) * 4;
+      const i01 = (y1 * image.width + x0) * 4;
+      const i11 = (y1 * image.width + x1) * 4;
+      const o = (y * width + x) * 4;
+      
+      for (let c = 0; c < 4; c++) {
+        out[o + c] =
+          (src[i00 + c] * (1 - tx) + src[i10 + c] * tx) * (1 - ty) +
+          (src[i01 + c] * (1 - tx) + src[i11 + c] * tx) * ty;
+      }
+    }
+  }
+  
+  return output;
+}
+
+// ============================================================================
+// BLEND MODES
+// ============================================================================
+
+type Channels = [number, number, number];
+
+function softLight(b: number, s: number): number {
+  if (s <= 0.5) return b - (1 - 2 * s) * b * (1 - b);
+  const d = b <= 0.25 ? ((16 * b - 12) * b + 4) * b : Math.sqrt(b);
+  return b + (2 * s - 1) * (d - b);
+}
+
+function getLum([r, g, b]: Channels): number {
+  return 0.3 * r + 0.59 * g + 0.11 * b;
+}
+
+/**
+ * Give a color another luminance, keeping it inside the 0-1 cube
+ */
+function setLum(color: Channels, lum: number): Channels {
+  const d = lum - getLum(color);
+  const c: Channels = [color[0] + d, color[1] + d, color[2] + d];
+  const l = getLum(c);
+  const min = Math.min(...c);
+  const max = Math.max(...c);
+  
+  if (min < 0) {
+    for (let i = 0; i < 3; i++) c[i] = l + ((c[i] - l) * l) / (l - min);
+  }
+  if (max > 1) {
+    for (let i = 0; i < 3; i++) c[i] = l + ((c[i] - l) * (1 - l)) / (max - l);
+  }
+  return c;
+}
+
+/**
+ * Blend a layer color over a backdrop color (both 0-1)
+ */
+function blendColor(mode: BlendMode, backdrop: Channels, layer: Channels): Channels {
+  switch (mode) {
+    case 'multiply':
+      return [backdrop[0] * layer[0], backdrop[1] * layer[1], backdrop[2] * layer[2]];
+    case 'screen':
+      return backdrop.map((b, i) => b + layer[i] - b * layer[i]) as Channels;
+    case 'overlay':
+      return backdrop.map((b, i) =>
+        b <= 0.5 ? 2 * b * layer[i] : 1 - 2 * (1 - b) * (1 - layer[i])
+      ) as Channels;
+    case 'soft-light':
+      return backdrop.map((b, i) => softLight(b, layer[i])) as Channels;
+    case 'luminosity':
+      return setLum(backdrop, getLum(layer));
+    case 'color':
+      return setLum(layer, getLum(backdrop));
+    default:
+      return layer;
+  }
+}
+
+// ============================================================================
+// COMPOSITING
+// ============================================================================
+
+/**
+ * Blend one layer's pixels into the composite (modified in place)
+ * 
+ * @param target - Composite below the layer
+ * @param top - Layer pixels, same size; their alpha also limits coverage
+ * @param mode - Blend mode
+ * @param opacity - Layer opacity (0-1)
+ * @param weights - Optional mask weight per pixel
+ */
+export function blendLayer(
+  target: ImageData,
+  top: ImageData,
+  mode: BlendMode,
+  opacity: number,
+  weights: Float32Array | null
+): void {
+  const out = target.data;
+  const src = top.data;
+  const backdrop: Channels = [0, 0, 0];
+  const layer: Channels = [0, 0, 0];
+  
+  for (let p = 0; p < target.width * target.height; p++) {
+    const i = p * 4;
+    const alpha = opacity * (src[i + 3] / 255) * (weights ? weights[p] : 1);
+    if (alpha <= 0) continue;
+    
+    for (let c = 0; c < 3; c++) {
+      backdrop[c] = out[i + c] / 255;
+      layer[c] = src[i + c] / 255;
+    }
+    
+    const blended = blendColor(mode, backdrop, layer);
+    for (let c = 0; c < 3; c++) {
+      out[i + c] += (blended[c] * 255 - out[i + c]) * alpha;
+    }
+  }
+}
+
+/**
+ * Composite every active layer of the settings over a full-frame render
+ * 
+ * @param base - Render of the original with its masks (modified in place)
+ * @param source - Frame the original was rendered from (after geometry); layer masks read it
+ * @param settings - Settings including layers
+ * @param space - Geometry that produced the frame (for layer masks)
+ * @param getLayerFrame - Pixels of an image layer in the output frame, or null when not loaded
+ * @param renderPass - Renders an image with other settings (for adjustment layers)
+ * @returns The base image with all layers composited
+ */
+export function compositeLayers(
+  base: ImageData,
+  source: ImageData,
+  settings: AdjustmentSettings,
+  space: MaskSpace,
+  getLayerFrame: (layer: ImageLayer) => ImageData | null,
+  renderPass: (image: ImageData, settings: AdjustmentSettings) => ImageData
+): ImageData {
+  const region = { x: 0, y: 0, width: base.width, height: base.height };
+  
+  for (const layer of getActiveLayers(settings)) {
+    const top = layer.type === 'image'
+      ? getLayerFrame(layer)
+      : renderPass(base, getLayerSettings(settings, layer));
+    if (!top || top.width !== base.width || top.height !== base.height) continue;
+    
+    const weights = layer.mask?.enabled
+      ? renderMaskWeights(layer.mask, source, region, space)
+      : null;
+    blendLayer(base, top, layer.blendMode, clamp(layer.opacity, 0, 100) / 100, weights);
+  }
+  
+  return base;
+}
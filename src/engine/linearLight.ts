@@ -0,0 +1,292 @@
+/**
+ * APEX Photo Studio - Linear-Light Processing
+ * 
+ * Optional scene-linear pipeline (AdjustmentSettings.processingMode = 'linear'):
+ * - Source pixels are decoded from sRGB to linear light once
+ * - Calibration, channel mixer, white balance, exposure, contrast and
+ *   tonal controls work on unclamped linear values, so highlights pushed
+ *   past 1.0 keep their detail until the highlights/whites controls pull
+ *   them back
+ * - Values are encoded back to sRGB only for display and export
+ * 
+ * Curves, HSL, the color LUT, vibrance/saturation, color grading and dehaze are
+ * defined on display values. They run on a temporarily encoded copy
+ * of each pixel; pixels brighter than white are scaled into range
+ * first and keep their extra intensity afterwards (see withHeadroom).
+ */
+
+import type { AdjustmentSettings, BasicAdjustments } from '@/types';
+import { applyGamma, removeGamma, kelvinToRgb, clamp, type RGB } from '@/utils/colorspace';
+import {
+  adjustVibrance,
+  adjustSaturation,
+  applyHSLAdjustments,
+  applyCurveAdjustments,
+  applyColorGrading,
+  applyBlackAndWhite,
+  applyDehaze,
+  applyColorMatrix,
+  type ColorMatrix,
+} from './adjustments';
+import { applyLut, type CubeLut } from './lut';
+
+/** Middle gray in linear light; contrast pivots around it */
+const MIDDLE_GRAY = 0.18;
+
+/**
+ * Gamma-space gains are raised to this power to act the same in linear light
+ */
+const GAIN_TO_LINEAR = 2.2;
+
+/** sRGB decode table for integer 0-255 inputs */
+const DECODE_LUT = (() => {
+  const lut = new Float32Array(256);
+  for (let i = 0; i < 256; i++) {
+    lut[i] = removeGamma(i / 255);
+  }
+  return lut;
+})();
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+/**
+ * Decode a 0-255 sRGB value (possibly fractional) to linear light
+ */
+export function decodeToLinear(value: number): number {
+  return Number.isInteger(value) && value >= 0 && value <= 255
+    ? DECODE_LUT[value]
+    : removeGamma(value / 255);
+}
+
+/**
+ * Encode linear light to sRGB (0-1 for in-range values, unclamped above)
+ */
+export function encodeLinear(value: number): number {
+  return value <= 0 ? 12.92 * value : applyGamma(value);
+}
+
+/**
+ * Decode an sRGB value (0-1, unclamped) to linear light
+ */
+function decodeEncoded(value: number): number {
+  return value <= 0 ? value / 12.92 : removeGamma(value);
+}
+
+/**
+ * Run a display-referred operation on a linear pixel
+ * 
+ * The pixel is scaled so its brightest channel is at most 1.0, encoded,
+ * processed, decoded and scaled back. In-range pixels are unaffected by
+ * the scaling; over-range pixels keep their headroom.
+ * 
+ * @param rgb - Linear RGB (unclamped)
+ * @param operation - Operation on encoded 0-1 RGB
+ * @returns Linear RGB (unclamped)
+ */
+export function withHeadroom(rgb: RGB, operation: (encoded: RGB) => RGB): RGB {
+  const peak = Math.max(rgb.r, rgb.g, rgb.b);
+  const scale = peak > 1 ? peak : 1;
+  
+  const result = operation({
+    r: encodeLinear(Math.max(0, rgb.r / scale)),
+    g: encodeLinear(Math.max(0, rgb.g / scale)),
+    b: encodeLinear(Math.max(0, rgb.b / scale)),
+  });
+  
+  return {
+    r: decodeEncoded(result.r) * scale,
+    g: decodeEncoded(result.g) * scale,
+    b: decodeEncoded(result.b) * scale,
+  };
+}
+
+// ============================================================================
+// SCENE-REFERRED ADJUSTMENTS
+// ============================================================================
+
+/**
+ * Linear luminance (BT.709) of linear RGB
+ */
+function linearLuminance(rgb: RGB): number {
+  return 0.2126 * rgb.r + 0.7152 * rgb.g + 0.0722 * rgb.b;
+}
+
+/**
+ * Per-channel white balance gains in linear light
+ * 
+ * Same correction as adjustTemperature/adjustTint, converted from
+ * gamma-space multipliers so the sliders feel alike in both modes.
+ */
+function getWhiteBalanceGains(temperature: number, tint: number): RGB {
+  let r = 1, g = 1, b = 1;
+  
+  if (temperature !== 6500) {
+    const target = kelvinToRgb(temperature);
+    const reference = kelvinToRgb(6500);
+    r = reference.r / target.r;
+    g = reference.g / target.g;
+    b = reference.b / target.b;
+    const avg = (r + g + b) / 3;
+    r /= avg;
+    g /= avg;
+    b /= avg;
+  }
+  
+  if (tint !== 0) {
+    g *= 1 - (tint / 100) * 0.3;
+  }
+  
+  return {
+    r: Math.pow(r, GAIN_TO_LINEAR),
+    g: Math.pow(g, GAIN_TO_LINEAR),
+    b: Math.pow(b, GAIN_TO_LINEAR),
+  };
+}
+
+/**
+ * Contrast as a power curve around middle gray in linear light
+ * 
+ * Values above white keep rising (no clip), so contrast never
+ * destroys highlight information.
+ */
+function applyContrastLinear(value: number, amount: number): number {
+  if (value <= 0) return value;
+  const power = (amount + 100) / 100;
+  return MIDDLE_GRAY * Math.pow(value / MIDDLE_GRAY, power);
+}
+
+/**
+ * Triangular mask on encoded lightness (matches createTonalMask)
+ */
+function tonalMask(lightness: number, center: number, width: number): number {
+  return Math.max(0, 1 - Math.abs(lightness - center) / width);
+}
+
+/**
+ * Highlights, shadows, whites and blacks on linear luminance
+ * 
+ * Negative highlights apply a shoulder that compresses everything
+ * above a knee: at -100 a value two stops over white (4.0) lands on 1.0.
+ * Negative whites lower the white point by up to half a stop.
+ * Shadows and blacks act on encoded lightness like their gamma versions.
+ * The luminance change is applied as a ratio, so hue is preserved.
+ */
+function applyTonalLinear(rgb: RGB, basic: BasicAdjustments): RGB {
+  const { highlights, shadows, whites, blacks } = basic;
+  if (highlights === 0 && shadows === 0 && whites === 0 && blacks === 0) return rgb;
+  
+  const luminance = linearLuminance(rgb);
+  if (luminance <= 0) return rgb;
+  
+  let target = luminance;
+  
+  // Whites: scale the top of the range (full effect at and above white)
+  if (whites !== 0) {
+    const lightness = encodeLinear(target);
+    const weight = clamp((lightness - 0.5) / 0.5, 0, 1);
+    target *= Math.pow(2, (whites / 100) * 0.5 * weight * weight);
+  }
+  
+  // Highlights
+  if (highlights < 0) {
+    const knee = 0.5;
+    if (target > knee) {
+      const white = 1 + 3 * (-highlights / 100);
+      const u = (target - knee) / (1 - knee);
+      const w = (white - knee) / (1 - knee);
+      const compressed = (u * (1 + u / (w * w))) / (1 + u);
+      target = knee + (1 - knee) * compressed;
+    }
+  } else if (highlights > 0) {
+    const mask = tonalMask(encodeLinear(target), 0.85, 0.3);
+    target *= 1 + (highlights / 100) * mask * 0.5;
+  }
+  
+  // Shadows and blacks: offsets on encoded lightness
+  if (shadows !== 0 || blacks !== 0) {
+    let lightness = encodeLinear(target);
+    if (shadows !== 0) {
+      lightness += (shadows / 100) * tonalMask(lightness, 0.15, 0.3) * 0.3;
+    }
+    if (blacks !== 0) {
+      lightness += (blacks / 100) * tonalMask(lightness, 0.05, 0.15) * 0.15;
+    }
+    target = decodeEncoded(Math.max(0, lightness));
+  }
+  
+  const ratio = target / luminance;
+  return { r: rgb.r * ratio, g: rgb.g * ratio, b: rgb.b * ratio };
+}
+
+// ============================================================================
+// PIXEL PIPELINE
+// ============================================================================
+
+/**
+ * Process one pixel in linear light (steps 2-9 of the pipeline)
+ * 
+ * @param r - Red 0-255 sRGB (may be fractional after lens correction)
+ * @param g - Green 0-255 sRGB
+ * @param b - Blue 0-255 sRGB
+ * @param settings - Adjustment settings
+ * @param lut - Color LUT resolved from settings.lut, or null
+ * @param inputMatrix - Calibration & channel mixer matrix from getInputColorMatrix
+ * @returns Linear RGB, unclamped
+ */
+export function processPixelLinear(
+  r: number, g: number, b: number,
+  settings: AdjustmentSettings,
+  lut: CubeLut | null,
+  inputMatrix: ColorMatrix | null
+): RGB {
+  const { basic, color, hsl, blackAndWhite, curves, effects, colorGrading } = settings;
+  let rgb: RGB = { r: decodeToLinear(r), g: decodeToLinear(g), b: decodeToLinear(b) };
+  
+  // 0. Camera calibration & channel mixer (a true matrix in linear light)
+  if (inputMatrix) {
+    const mixed = applyColorMatrix(rgb, inputMatrix);
+    rgb = { r: Math.max(0, mixed.r), g: Math.max(0, mixed.g), b: Math.max(0, mixed.b) };
+  }
+  
+  // 1-2. White balance
+  if (color.temperature !== 6500 || color.tint !== 0) {
+    const gains = getWhiteBalanceGains(color.temperature, color.tint);
+    rgb = { r: rgb.r * gains.r, g: rgb.g * gains.g, b: rgb.b * gains.b };
+  }
+  
+  // 3. Exposure (a true multiply in linear light)
+  if (basic.exposure !== 0) {
+    const multiplier = Math.pow(2, basic.exposure);
+    rgb = { r: rgb.r * multiplier, g: rgb.g * multiplier, b: rgb.b * multiplier };
+  }
+  
+  // 4. Contrast
+  if (basic.contrast !== 0) {
+    rgb = {
+      r: applyContrastLinear(rgb.r, basic.contrast),
+      g: applyContrastLinear(rgb.g, basic.contrast),
+      b: applyContrastLinear(rgb.b, basic.contrast),
+    };
+  }
+  
+  // 5. Tonal adjustments (highlight recovery)
+  rgb = applyTonalLinear(rgb, basic);
+  
+  // 6-10. Display-referred color stages
+  return withHeadroom(rgb, encoded => {
+    let result = applyCurveAdjustments(encoded, curves);
+    if (blackAndWhite.enabled) {
+      result = applyBlackAndWhite(result, blackAndWhite);
+      if (lut) result = applyLut(result, lut, settings.lut.amount);
+    } else {
+      result = applyHSLAdjustments(result, hsl);
+      if (lut) result = applyLut(result, lut, settings.lut.amount);
+      result = adjustVibrance(result, color.vibrance);
+      result = adjustSaturation(result, color.saturation);
+    }
+    result = applyColorGrading(result, colorGrading);
+    return applyDehaze(result, effects.dehaze);
+  });
+}
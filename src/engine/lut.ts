@@ -0,0 +1,288 @@
+/**
+ * APEX Photo Studio - Color Look-Up Tables
+ * 
+ * Looks delivered as Adobe / Resolve .cube files:
+ * - Parser for 1D and 3D .cube LUTs (TITLE, DOMAIN_MIN/MAX, INPUT_RANGE)
+ * - Tetrahedral interpolation for 3D tables, linear for 1D
+ * - Amount blend between the input and the LUT result
+ * - Writer for .cube files (used to export the current edit as a LUT)
+ * 
+ * Tables are large, so settings refer to a LUT by library id. The render
+ * side registers the tables it has received and resolves ids once per
+ * render (see resolveLut).
+ */
+
+import type { LutAdjustments } from '@/types';
+import { clamp, type RGB } from '@/utils/colorspace';
+
+/**
+ * A parsed .cube table
+ */
+export interface CubeLut {
+  title: string;
+  /** 1D: one curve per channel; 3D: a full color cube */
+  kind: '1d' | '3d';
+  /** Entries per channel (per axis for 3D) */
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  /** RGB triples in file order (red varies fastest in 3D tables) */
+  table: Float32Array;
+}
+
+/** Largest 3D size accepted (65 is the usual maximum in practice) */
+const MAX_3D_SIZE = 256;
+
+/** Largest 1D size accepted */
+const MAX_1D_SIZE = 65536;
+
+/** Lattice sizes offered when exporting an edit as a 3D LUT */
+export const EXPORT_LUT_SIZES = [17, 33, 65] as const;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function parseTriple(parts: string[], line: number): [number, number, number] {
+  const values = parts.slice(0, 3).map(Number);
+  if (parts.length < 3 || values.some(v => !Number.isFinite(v))) {
+    throw new Error(`Invalid .cube file: expected three numbers on line ${line}`);
+  }
+  return values as [number, number, number];
+}
+
+/**
+ * Parse the text of a .cube file
+ * 
+ * @param text - File contents
+ * @param fallbackTitle - Title used when the file has no TITLE line
+ * @returns Parsed LUT
+ * @throws Error describing the first problem found
+ */
+export function parseCubeLut(text: string, fallbackTitle = 'Untitled LUT'): CubeLut {
+  let title = fallbackTitle;
+  let size1D = 0;
+  let size3D = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+  
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+    
+    const number = index + 1;
+    const parts = line.split(/\s+/);
+    const keyword = parts[0].toUpperCase();
+    
+    if (/^[-+.\d]/.test(keyword)) {
+      values.push(...parseTriple(parts, number));
+      return;
+    }
+    
+    switch (keyword) {
+      case 'TITLE': {
+        const match = line.match(/^TITLE\s+"?(.*?)"?\s*$/i);
+        if (match?.[1]) title = match[1];
+        break;
+      }
+      case 'LUT_1D_SIZE':
+        size1D = parseInt(parts[1], 10);
+        break;
+      case 'LUT_3D_SIZE':
+        size3D = parseInt(parts[1], 10);
+        break;
+      case 'DOMAIN_MIN':
+        domainMin = parseTriple(parts.slice(1), number);
+        break;
+      case 'DOMAIN_MAX':
+        domainMax = parseTriple(parts.slice(1), number);
+        break;
+      case 'LUT_1D_INPUT_RANGE':
+      case 'LUT_3D_INPUT_RANGE': {
+        // Resolve's form of the domain: one range for all channels
+        const [min, max] = parts.slice(1, 3).map(Number);
+        if (!Number.isFinite(min) || !Number.isFinite(max)) {
+          throw new Error(`Invalid .cube file: bad input range on line ${number}`);
+        }
+        domainMin = [min, min, min];
+        domainMax = [max, max, max];
+        break;
+      }
+      default:
+        // Other keywords (e.g. LUT_IN_VIDEO_RANGE) do not affect the table
+        break;
+    }
+  });
+  
+  if (size1D && size3D) {
+    throw new Error('Invalid .cube file: combined 1D shaper and 3D LUTs are not supported');
+  }
+  if (!size1D && !size3D) {
+    throw new Error('Invalid .cube file: missing LUT_1D_SIZE or LUT_3D_SIZE');
+  }
+  
+  const kind = size3D ? '3d' : '1d';
+  const size = size3D || size1D;
+  if (!Number.isInteger(size) || size < 2 || size > (size3D ? MAX_3D_SIZE : MAX_1D_SIZE)) {
+    throw new Error(`Invalid .cube file: unsupported size ${size}`);
+  }
+  
+  const expected = (kind === '3d' ? size ** 3 : size) * 3;
+  if (values.length !== expected) {
+    throw new Error(
+      `Invalid .cube file: expected ${expected / 3} entries, found ${values.length / 3}`
+    );
+  }
+  if (domainMin.some((min, c) => min >= domainMax[c])) {
+    throw new Error('Invalid .cube file: DOMAIN_MIN must be below DOMAIN_MAX');
+  }
+  
+  return { title, kind, size, domainMin, domainMax, table: new Float32Array(values) };
+}
+
+/**
+ * Write a LUT as .cube text
+ * 
+ * @param lut - Table to write
+ * @returns File contents, readable by parseCubeLut and common grading tools
+ */
+export function formatCubeLut(lut: CubeLut): string {
+  const lines = [
+    `TITLE "${lut.title.replace(/"/g, "'")}"`,
+    `${lut.kind === '3d' ? 'LUT_3D_SIZE' : 'LUT_1D_SIZE'} ${lut.size}`,
+    `DOMAIN_MIN ${lut.domainMin.join(' ')}`,
+    `DOMAIN_MAX ${lut.domainMax.join(' ')}`,
+    '',
+  ];
+  
+  for (let i = 0; i < lut.table.length; i += 3) {
+    lines.push(`${lut.table[i].toFixed(6)} ${lut.table[i + 1].toFixed(6)} ${lut.table[i + 2].toFixed(6)}`);
+  }
+  
+  return lines.join('\n') + '\n';
+}
+
+// ============================================================================
+// INTERPOLATION
+// ============================================================================
+
+/**
+ * Position of a value on a LUT axis (0 to size - 1)
+ */
+function toLutCoordinate(value: number, min: number, max: number, size: number): number {
+  return clamp((value - min) / (max - min), 0, 1) * (size - 1);
+}
+
+function sample1D(lut: CubeLut, rgb: RGB): RGB {
+  const { size, table, domainMin, domainMax } = lut;
+  const out = [rgb.r, rgb.g, rgb.b].map((value, c) => {
+    const x = toLutCoordinate(value, domainMin[c], domainMax[c], size);
+    const i = Math.min(Math.floor(x), size - 2);
+    const t = x - i;
+    return table[i * 3 + c] * (1 - t) + table[(i + 1) * 3 + c] * t;
+  });
+  return { r: out[0], g: out[1], b: out[2] };
+}
+
+/**
+ * Tetrahedral interpolation in a 3D table
+ * 
+ * The lattice cell around the input is split into six tetrahedra along
+ * its neutral diagonal; the input is interpolated from the four corners
+ * of the one it falls in. Grays stay on the diagonal, unlike trilinear.
+ */
+function sample3D(lut: CubeLut, rgb: RGB): RGB {
+  const { size, table, domainMin, domainMax } = lut;
+  const x = toLutCoordinate(rgb.r, domainMin[0], domainMax[0], size);
+  const y = toLutCoordinate(rgb.g, domainMin[1], domainMax[1], size);
+  const z = toLutCoordinate(rgb.b, domainMin[2], domainMax[2], size);
+  
+  const r0 = Math.min(Math.floor(x), size - 2);
+  const g0 = Math.min(Math.floor(y), size - 2);
+  const b0 = Math.min(Math.floor(z), size - 2);
+  const fr = x - r0;
+  const fg = y - g0;
+  const fb = z - b0;
+  
+  // Offset of lattice point (r0 + dr, g0 + dg, b0 + db); red varies fastest
+  const base = (r0 + g0 * size + b0 * size * size) * 3;
+  const at = (dr: number, dg: number, db: number) => base + (dr + dg * size + db * size * size) * 3;
+  
+  const c000 = at(0, 0, 0);
+  const c111 = at(1, 1, 1);
+  let a: number, b: number, wa: number, wb: number, w0: number, w1: number;
+  
+  // Corners after c000 and their weights for the tetrahedron containing the input
+  if (fr > fg) {
+    if (fg > fb) {
+      a = at(1, 0, 0); b = at(1, 1, 0); w0 = 1 - fr; wa = fr - fg; wb = fg - fb; w1 = fb;
+    } else if (fr > fb) {
+      a = at(1, 0, 0); b = at(1, 0, 1); w0 = 1 - fr; wa = fr - fb; wb = fb - fg; w1 = fg;
+    } else {
+      a = at(0, 0, 1); b = at(1, 0, 1); w0 = 1 - fb; wa = fb - fr; wb = fr - fg; w1 = fg;
+    }
+  } else if (fb > fg) {
+    a = at(0, 0, 1); b = at(0, 1, 1); w0 = 1 - fb; wa = fb - fg; wb = fg - fr; w1 = fr;
+  } else if (fb > fr) {
+    a = at(0, 1, 0); b = at(0, 1, 1); w0 = 1 - fg; wa = fg - fb; wb = fb - fr; w1 = fr;
+  } else {
+    a = at(0, 1, 0); b = at(1, 1, 0); w0 = 1 - fg; wa = fg - fr; wb = fr - fb; w1 = fb;
+  }
+  
+  const channel = (c: number) =>
+    table[c000 + c] * w0 + table[a + c] * wa + table[b + c] * wb + table[c111 + c] * w1;
+  
+  return { r: channel(0), g: channel(1), b: channel(2) };
+}
+
+/**
+ * Look a color up in a LUT and blend with the input
+ * 
+ * @param rgb - Input (0-1)
+ * @param lut - Table
+ * @param amount - Blend with the input (0-100)
+ * @returns Result (0-1)
+ */
+export function applyLut(rgb: RGB, lut: CubeLut, amount: number): RGB {
+  const mapped = lut.kind === '3d' ? sample3D(lut, rgb) : sample1D(lut, rgb);
+  const t = clamp(amount, 0, 100) / 100;
+  return {
+    r: clamp(rgb.r + (mapped.r - rgb.r) * t, 0, 1),
+    g: clamp(rgb.g + (mapped.g - rgb.g) * t, 0, 1),
+    b: clamp(rgb.b + (mapped.b - rgb.b) * t, 0, 1),
+  };
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+/** Tables available to the pipeline, by library id */
+const registry = new Map<string, CubeLut>();
+
+/**
+ * Make a LUT available to renders in this thread (null removes it)
+ */
+export function registerLut(id: string, lut: CubeLut | null): void {
+  if (lut) {
+    registry.set(id, lut);
+  } else {
+    registry.delete(id);
+  }
+}
+
+/**
+ * Check whether the settings ask for a LUT at all
+ */
+export function hasLutAdjustment(settings: LutAdjustments): boolean {
+  return settings.id !== null && settings.amount > 0;
+}
+
+/**
+ * Table to apply for the settings, or null for none (or not registered)
+ */
+export function resolveLut(settings: LutAdjustments): CubeLut | null {
+  if (!hasLutAdjustment(settings)) return null;
+  return registry.get(settings.id!) ?? null;
+}
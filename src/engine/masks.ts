@@ -0,0 +1,638 @@
+/**
+ * APEX Photo Studio - Local Adjustment Masks
+ * 
+ * Masks restrict a set of adjustment offsets to part of the frame:
+ * - Linear gradient: full effect on the start side, none past the end
+ * - Radial gradient: full effect inside an ellipse, feathered at its edge
+ * - Brush: painted strokes, stored as paths and rasterized per render
+ * - Luminance / color range: selected by the image's own pixels
+ * 
+ * Any mask can be narrowed by ranges that intersect with it or are
+ * subtracted from it. Ranges and auto mask read the frame before
+ * adjustments, so a mask does not shift as its own edits change the image.
+ * 
+ * Each active mask is rendered as another pass of the pipeline with its
+ * offsets added to the global settings, then blended over the result by
+ * the mask weight. Mask geometry is normalized to the original image,
+ * like spots, so weights are evaluated through the current rotation,
+ * flips and crop and a mask stays on its subject when they change.
+ */
+
+import type {
+  AdjustmentSettings,
+  BrushStroke,
+  LinearGradientMask,
+  Mask,
+  MaskAdjustments,
+  MaskPoint,
+  MaskType,
+  RadialGradientMask,
+  RangeSelection,
+  TransformAdjustments,
+} from '@/types';
+import { DEFAULT_MASK_ADJUSTMENTS } from '@/types';
+import { applyGamma, clamp, deltaE, getLuminance, rgbToLab, type LAB } from '@/utils/colorspace';
+import { smoothFalloff } from './adjustments';
+import { mapToOriginal, mapToTransformed } from './transforms';
+
+/**
+ * Rectangular block of output pixels (global coordinates)
+ */
+interface PixelRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const MASK_NAMES: Record<MaskType, string> = {
+  linear: 'Linear',
+  radial: 'Radial',
+  brush: 'Brush',
+  luminance: 'Luminance',
+  color: 'Color',
+};
+
+/** Dab spacing along a stroke as a fraction of the brush radius */
+const DAB_SPACING = 0.25;
+
+/** Color distance (deltaE) at which auto mask coverage reaches zero */
+const AUTO_MASK_TOLERANCE = 20;
+
+// ============================================================================
+// MASK DOCUMENT
+// ============================================================================
+
+/**
+ * Create a range selection with default settings
+ * 
+ * Luminance starts on the shadows; color samples the frame center.
+ */
+export function createRange(type: RangeSelection['type']): RangeSelection {
+  return type === 'luminance'
+    ? { type, min: 0, max: 30, smoothness: 20 }
+    : { type, sample: { x: 0.5, y: 0.5 }, tolerance: 20 };
+}
+
+/**
+ * Create a mask with default geometry and no adjustments
+ * 
+ * @param type - Mask type
+ * @param existing - Masks already in the document (used for the name)
+ * @returns New mask
+ */
+export function createMask(type: MaskType, existing: Mask[]): Mask {
+  const count = existing.filter(mask => mask.type === type).length;
+  const base = {
+    id: crypto.randomUUID(),
+    name: `${MASK_NAMES[type]} ${count + 1}`,
+    enabled: true,
+    invert: false,
+    refinements: [],
+    adjustments: JSON.parse(JSON.stringify(DEFAULT_MASK_ADJUSTMENTS)) as MaskAdjustments,
+  };
+  
+  if (type === 'brush') {
+    return { ...base, type, strokes: [] };
+  }
+  
+  if (type === 'luminance' || type === 'color') {
+    return { ...base, ...createRange(type) };
+  }
+  
+  if (type === 'linear') {
+    return {
+      ...base,
+      type,
+      feather: 100,
+      start: { x: 0.5, y: 0.2 },
+      end: { x: 0.5, y: 0.5 },
+    };
+  }
+  
+  return {
+    ...base,
+    type,
+    feather: 50,
+    center: { x: 0.5, y: 0.5 },
+    radiusX: 0.25,
+    radiusY: 0.25,
+    angle: 0,
+  };
+}
+
+/**
+ * Check whether a mask changes anything
+ */
+export function hasMaskAdjustments(adjustments: MaskAdjustments): boolean {
+  return [adjustments.basic, adjustments.color, adjustments.detail, adjustments.effects]
+    .some(group => Object.values(group).some(value => value !== 0));
+}
+
+/**
+ * Masks that need a render pass, in application order
+ */
+export function getActiveMasks(settings: AdjustmentSettings): Mask[] {
+  return (settings.masks ?? []).filter(mask =>
+    mask.enabled &&
+    hasMaskAdjustments(mask.adjustments) &&
+    (mask.type !== 'brush' || mask.strokes.length > 0)
+  );
+}
+
+/**
+ * Global settings with a mask's offsets added, clamped to the slider ranges
+ * 
+ * The result has no masks of its own, so it renders as a plain pass.
+ */
+export function getMaskSettings(settings: AdjustmentSettings, mask: Mask): AdjustmentSettings {
+  const { basic, color, detail, effects } = settings;
+  const local = mask.adjustments;
+  
+  return {
+    ...settings,
+    basic: {
+      exposure: clamp(basic.exposure + local.basic.exposure, -5, 5),
+      contrast: clamp(basic.contrast + local.basic.contrast, -100, 100),
+      highlights: clamp(basic.highlights + local.basic.highlights, -100, 100),
+      shadows: clamp(basic.shadows + local.basic.shadows, -100, 100),
+      whites: clamp(basic.whites + local.basic.whites, -100, 100),
+      blacks: clamp(basic.blacks + local.basic.blacks, -100, 100),
+    },
+    color: {
+      temperature: clamp(color.temperature + local.color.temperature, 2000, 50000),
+      tint: clamp(color.tint + local.color.tint, -100, 100),
+      vibrance: clamp(color.vibrance + local.color.vibrance, -100, 100),
+      saturation: clamp(color.saturation + local.color.saturation, -100, 100),
+    },
+    detail: {
+      ...detail,
+      clarity: clamp(detail.clarity + local.detail.clarity, -100, 100),
+      sharpness: clamp(detail.sharpness + local.detail.sharpness, 0, 150),
+      noiseReduction: clamp(detail.noiseReduction + local.detail.noiseReduction, 0, 100),
+    },
+    effects: {
+      ...effects,
+      dehaze: clamp(effects.dehaze + local.effects.dehaze, -100, 100),
+    },
+    masks: [],
+  };
+}
+
+// ============================================================================
+// MASK SPACE
+// ============================================================================
+
+/**
+ * How a rendered frame was made from the image that masks refer to
+ */
+export interface MaskSpace {
+  /** Geometry that produced the frame */
+  transform: TransformAdjustments;
+  /** Image width before the geometry, at the frame's scale */
+  width: number;
+  /** Image height before the geometry, at the frame's scale */
+  height: number;
+}
+
+/**
+ * Affine map between pixel positions: x' = xx * x + xy * y + x0
+ */
+export interface AffineMap {
+  xx: number;
+  xy: number;
+  x0: number;
+  yx: number;
+  yy: number;
+  y0: number;
+}
+
+function applyAffine(map: AffineMap, x: number, y: number): MaskPoint {
+  return {
+    x: map.xx * x + map.xy * y + map.x0,
+    y: map.yx * x + map.yy * y + map.y0,
+  };
+}
+
+/**
+ * Pixel form of a normalized point mapping that is affine (rotation,
+ * flips and crop are), sampled at three points
+ */
+function createAffineMap(
+  map: (point: MaskPoint) => MaskPoint,
+  fromWidth: number,
+  fromHeight: number,
+  toWidth: number,
+  toHeight: number
+): AffineMap {
+  const origin = map({ x: 0, y: 0 });
+  const unitX = map({ x: 1, y: 0 });
+  const unitY = map({ x: 0, y: 1 });
+  
+  return {
+    xx: ((unitX.x - origin.x) * toWidth) / fromWidth,
+    xy: ((unitY.x - origin.x) * toWidth) / fromHeight,
+    x0: origin.x * toWidth,
+    yx: ((unitX.y - origin.y) * toHeight) / fromWidth,
+    yy: ((unitY.y - origin.y) * toHeight) / fromHeight,
+    y0: origin.y * toHeight,
+  };
+}
+
+// ============================================================================
+// MASK WEIGHTS
+// ============================================================================
+
+/**
+ * Linear gradient weight: 1 before the start, 0 past the end
+ * 
+ * The transition is centered between start and end; feather 100 spans
+ * the whole distance and feather 0 makes a hard edge halfway.
+ */
+function getLinearWeight(mask: LinearGradientMask, px: number, py: number, width: number, height: number): number {
+  const sx = mask.start.x * width;
+  const sy = mask.start.y * height;
+  const dx = mask.end.x * width - sx;
+  const dy = mask.end.y * height - sy;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return 0;
+  
+  const t = ((px - sx) * dx + (py - sy) * dy) / lengthSquared;
+  const feather = clamp(mask.feather, 0, 100) / 100;
+  return 1 - smoothFalloff(t, 0.5 - feather * 0.5, 0.5 + feather * 0.5);
+}
+
+/**
+ * Radial weight: 1 inside the ellipse, fading out towards its edge
+ * 
+ * Uses the same smoothstep falloff as the vignette; feather is the
+ * fraction of the radius over which the effect fades.
+ */
+function getRadialWeight(mask: RadialGradientMask, px: number, py: number, width: number, height: number): number {
+  const rx = mask.radiusX * width;
+  const ry = mask.radiusY * height;
+  if (rx <= 0 || ry <= 0) return 0;
+  
+  const angle = (mask.angle * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = px - mask.center.x * width;
+  const dy = py - mask.center.y * height;
+  
+  // Rotate into the ellipse's own axes
+  const u = (dx * cos + dy * sin) / rx;
+  const v = (-dx * sin + dy * cos) / ry;
+  const distance = Math.sqrt(u * u + v * v);
+  
+  const feather = clamp(mask.feather, 0, 100) / 100;
+  return 1 - smoothFalloff(distance, 1 - feather, 1);
+}
+
+/**
+ * Frame geometry shared by the weight functions: the original image in
+ * pixels of the rendered frame's scale and the maps between the two
+ */
+interface MaskFrame {
+  width: number;
+  height: number;
+  /** Rendered frame pixel to original pixel */
+  toOriginal: AffineMap;
+  /** Original pixel to rendered frame pixel */
+  toFrame: AffineMap;
+}
+
+/**
+ * Map from rendered frame pixels to original image pixels at the frame's scale
+ */
+export function getOriginalPixelMap(source: { width: number; height: number }, space: MaskSpace): AffineMap {
+  const { transform, width, height } = space;
+  return createAffineMap(
+    point => mapToOriginal(point, transform, width, height),
+    source.width, source.height, width, height
+  );
+}
+
+function getMaskFrame(source: ImageData, space: MaskSpace): MaskFrame {
+  const { transform, width, height } = space;
+  return {
+    width,
+    height,
+    toOriginal: getOriginalPixelMap(source, space),
+    toFrame: createAffineMap(
+      point => mapToTransformed(point, transform, width, height),
+      width, height, source.width, source.height
+    ),
+  };
+}
+
+// ============================================================================
+// BRUSH STROKES
+// ============================================================================
+
+/**
+ * Dab positions along a stroke in frame pixels, evenly spaced along the path
+ */
+function getDabs(stroke: BrushStroke, frame: MaskFrame, radius: number): MaskPoint[] {
+  const points = stroke.points.map(p => applyAffine(frame.toFrame, p.x * frame.width, p.y * frame.height));
+  if (points.length === 0) return [];
+  
+  const spacing = Math.max(1, radius * DAB_SPACING);
+  const dabs = [points[0]];
+  let carried = 0;
+  
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const dx = points[i].x - from.x;
+    const dy = points[i].y - from.y;
+    const length = Math.hypot(dx, dy);
+    
+    let distance = spacing - carried;
+    while (distance <= length) {
+      dabs.push({ x: from.x + (dx * distance) / length, y: from.y + (dy * distance) / length });
+      distance += spacing;
+    }
+    carried = length - (distance - spacing);
+  }
+  
+  return dabs;
+}
+
+/**
+ * Lab color of a region pixel (region-local coordinates)
+ */
+type LabLookup = (rx: number, ry: number) => LAB;
+
+/**
+ * Lazily computed Lab colors of the source pixels in a region
+ * 
+ * Buffers are only allocated once a color is requested.
+ */
+function createLabLookup(source: ImageData, region: PixelRegion): LabLookup {
+  let labs: Float32Array | null = null;
+  let ready: Uint8Array | null = null;
+  const { data } = source;
+  
+  return (rx: number, ry: number) => {
+    labs ??= new Float32Array(region.width * region.height * 3);
+    ready ??= new Uint8Array(region.width * region.height);
+    const i = ry * region.width + rx;
+    if (!ready[i]) {
+      const s = ((region.y + ry) * source.width + region.x + rx) * 4;
+      const lab = rgbToLab({ r: data[s] / 255, g: data[s + 1] / 255, b: data[s + 2] / 255 });
+      labs[i * 3] = lab.l;
+      labs[i * 3 + 1] = lab.a;
+      labs[i * 3 + 2] = lab.b;
+      ready[i] = 1;
+    }
+    return { l: labs[i * 3], a: labs[i * 3 + 1], b: labs[i * 3 + 2] };
+  };
+}
+
+/**
+ * Lab color of the source under a point of the original (clamped to the frame)
+ */
+function sampleLab(source: ImageData, point: MaskPoint, frame: MaskFrame): LAB {
+  const p = applyAffine(frame.toFrame, point.x * frame.width, point.y * frame.height);
+  const x = clamp(Math.floor(p.x), 0, source.width - 1);
+  const y = clamp(Math.floor(p.y), 0, source.height - 1);
+  const i = (y * source.width + x) * 4;
+  return rgbToLab({ r: source.data[i] / 255, g: source.data[i + 1] / 255, b: source.data[i + 2] / 255 });
+}
+
+/**
+ * Rasterize brush strokes into a region's weights
+ * 
+ * Within a stroke every dab adds flow-weighted coverage that builds up
+ * where dabs overlap. The stroke then raises the mask towards its
+ * density, or lowers it when erasing. Auto mask scales each dab by the
+ * pixel's color similarity to the start of the stroke.
+ */
+function rasterizeStrokes(
+  weights: Float32Array,
+  strokes: BrushStroke[],
+  source: ImageData,
+  region: PixelRegion,
+  frame: MaskFrame,
+  getLab: LabLookup
+): void {
+  const coverage = new Float32Array(weights.length);
+  const originX = region.x;
+  const originY = region.y;
+  
+  for (const stroke of strokes) {
+    const radius = stroke.radius * Math.max(frame.width, frame.height);
+    if (radius <= 0 || stroke.points.length === 0) continue;
+    
+    const flow = clamp(stroke.flow, 0, 100) / 100;
+    const density = clamp(stroke.density, 0, 100) / 100;
+    const hardness = 1 - clamp(stroke.feather, 0, 100) / 100;
+    const reference = stroke.autoMask ? sampleLab(source, stroke.points[0], frame) : null;
+    coverage.fill(0);
+    
+    for (const dab of getDabs(stroke, frame, radius)) {
+      const x0 = Math.max(0, Math.floor(dab.x - radius - originX));
+      const x1 = Math.min(region.width - 1, Math.ceil(dab.x + radius - originX));
+      const y0 = Math.max(0, Math.floor(dab.y - radius - originY));
+      const y1 = Math.min(region.height - 1, Math.ceil(dab.y + radius - originY));
+      
+      for (let ry = y0; ry <= y1; ry++) {
+        const dy = originY + ry + 0.5 - dab.y;
+        
+        for (let rx = x0; rx <= x1; rx++) {
+          const dx = originX + rx + 0.5 - dab.x;
+          const distance = Math.sqrt(dx * dx + dy * dy) / radius;
+          if (distance >= 1) continue;
+          
+          let amount = flow * (1 - smoothFalloff(distance, hardness, 1));
+          if (reference) {
+            const difference = deltaE(getLab(rx, ry), reference);
+            amount *= 1 - smoothFalloff(difference, AUTO_MASK_TOLERANCE * 0.5, AUTO_MASK_TOLERANCE);
+          }
+          
+          const i = ry * region.width + rx;
+          coverage[i] += (1 - coverage[i]) * amount;
+        }
+      }
+    }
+    
+    for (let i = 0; i < weights.length; i++) {
+      if (coverage[i] === 0) continue;
+      weights[i] = stroke.erase
+        ? weights[i] * (1 - coverage[i] * density)
+        : Math.max(weights[i], weights[i] + (density - weights[i]) * coverage[i]);
+    }
+  }
+}
+
+// ============================================================================
+// RANGES
+// ============================================================================
+
+/**
+ * Selection (0-1) of a range for every pixel of a region
+ */
+function renderRangeWeights(
+  range: RangeSelection,
+  source: ImageData,
+  region: PixelRegion,
+  frame: MaskFrame,
+  getLab: LabLookup
+): Float32Array {
+  const weights = new Float32Array(region.width * region.height);
+  const { data } = source;
+  
+  if (range.type === 'luminance') {
+    const min = Math.min(range.min, range.max);
+    const max = Math.max(range.min, range.max);
+    const smoothness = Math.max(0, range.smoothness);
+    
+    for (let ry = 0; ry < region.height; ry++) {
+      for (let rx = 0; rx < region.width; rx++) {
+        const s = ((region.y + ry) * source.width + region.x + rx) * 4;
+        
+        // Gamma-encoded luminance spaces the band evenly to the eye
+        const luminance = applyGamma(getLuminance({
+          r: data[s] / 255,
+          g: data[s + 1] / 255,
+          b: data[s + 2] / 255,
+        })) * 100;
+        
+        weights[ry * region.width + rx] =
+          smoothFalloff(luminance, min - smoothness, min) *
+          (1 - smoothFalloff(luminance, max, max + smoothness));
+      }
+    }
+    
+    return weights;
+  }
+  
+  const reference = sampleLab(source, range.sample, frame);
+  const tolerance = Math.max(1, range.tolerance);
+  
+  for (let ry = 0; ry < region.height; ry++) {
+    for (let rx = 0; rx < region.width; rx++) {
+      const difference = deltaE(getLab(rx, ry), reference);
+      weights[ry * region.width + rx] = 1 - smoothFalloff(difference, tolerance * 0.5, tolerance);
+    }
+  }
+  
+  return weights;
+}
+
+// ============================================================================
+// BLENDING
+// ============================================================================
+
+/**
+ * Weights (0-1) of a mask over one region of the rendered image
+ * 
+ * @param mask - Mask
+ * @param source - Frame being rendered (after geometry); brush auto mask reads its colors
+ * @param region - Region of the rendered image (global pixels)
+ * @param space - Geometry that produced the rendered frame
+ * @returns One weight per region pixel, row-major
+ */
+export function renderMaskWeights(
+  mask: Mask,
+  source: ImageData,
+  region: PixelRegion,
+  space: MaskSpace
+): Float32Array {
+  const frame = getMaskFrame(source, space);
+  const getLab = createLabLookup(source, region);
+  let weights: Float32Array = new Float32Array(region.width * region.height);
+  
+  if (mask.type === 'brush') {
+    rasterizeStrokes(weights, mask.strokes, source, region, frame, getLab);
+  } else if (mask.type === 'luminance' || mask.type === 'color') {
+    weights = renderRangeWeights(mask, source, region, frame, getLab);
+  } else {
+    const { toOriginal } = frame;
+    for (let ry = 0; ry < region.height; ry++) {
+      const py = region.y + ry + 0.5;
+      
+      for (let rx = 0; rx < region.width; rx++) {
+        const px = region.x + rx + 0.5;
+        const x = toOriginal.xx * px + toOriginal.xy * py + toOriginal.x0;
+        const y = toOriginal.yx * px + toOriginal.yy * py + toOriginal.y0;
+        weights[ry * region.width + rx] = mask.type === 'linear'
+          ? getLinearWeight(mask, x, y, frame.width, frame.height)
+          : getRadialWeight(mask, x, y, frame.width, frame.height);
+      }
+    }
+  }
+  
+  if (mask.invert) {
+    for (let i = 0; i < weights.length; i++) weights[i] = 1 - weights[i];
+  }
+  
+  for (const refinement of mask.refinements) {
+    const range = renderRangeWeights(refinement.range, source, region, frame, getLab);
+    const subtract = refinement.mode === 'subtract';
+    for (let i = 0; i < weights.length; i++) {
+      weights[i] *= subtract ? 1 - range[i] : range[i];
+    }
+  }
+  
+  return weights;
+}
+
+/**
+ * Blend a mask pass into the target over one region
+ * 
+ * @param target - Region-sized result being built (modified in place)
+ * @param local - Same region rendered with the mask's settings
+ * @param mask - Mask providing the weights
+ * @param source - Frame being rendered (after geometry)
+ * @param region - Region covered by target and local (global pixels)
+ * @param space - Geometry that produced the rendered frame
+ */
+export function blendMaskRegion(
+  target: ImageData,
+  local: ImageData,
+  mask: Mask,
+  source: ImageData,
+  region: PixelRegion,
+  space: MaskSpace
+): void {
+  const weights = renderMaskWeights(mask, source, region, space);
+  const outData = target.data;
+  const localData = local.data;
+  
+  for (let p = 0; p < weights.length; p++) {
+    const weight = weights[p];
+    if (weight <= 0) continue;
+    
+    const i = p * 4;
+    outData[i] += (localData[i] - outData[i]) * weight;
+    outData[i + 1] += (localData[i + 1] - outData[i + 1]) * weight;
+    outData[i + 2] += (localData[i + 2] - outData[i + 2]) * weight;
+  }
+}
+
+/**
+ * Apply every active mask of the settings to a full-frame render
+ * 
+ * @param base - Render of the global settings (modified in place)
+ * @param source - Frame that was rendered (after geometry)
+ * @param settings - Settings including masks
+ * @param space - Geometry that produced the frame
+ * @param renderPass - Renders the same source with other settings
+ * @returns The base image with all masks applied
+ */
+export function compositeMasks(
+  base: ImageData,
+  source: ImageData,
+  settings: AdjustmentSettings,
+  space: MaskSpace,
+  renderPass: (settings: AdjustmentSettings) => ImageData
+): ImageData {
+  const region = { x: 0, y: 0, width: base.width, height: base.height };
+  
+  for (const mask of getActiveMasks(settings)) {
+    const local = renderPass(getMaskSettings(settings, mask));
+    blendMaskRegion(base, local, mask, source, region, space);
+  }
+  
+  return base;
+}
@@ -0,0 +1,95 @@
+/**
+ * APEX Photo Studio - Preview Proxy
+ * 
+ * Downscaled copies of the original for interactive editing:
+ * - Proxy scales are powers of two (1/2, 1/4, ...), so zooming only
+ *   rebuilds the proxy when it crosses a level
+ * - The proxy is the smallest level that still covers the viewport
+ *   at the current zoom and device pixel ratio
+ * - Past 100% zoom every pixel is visible and no proxy is used
+ */
+
+/** Smallest proxy scale; bounds the box filter size */
+const MIN_PROXY_SCALE = 1 / 16;
+
+/**
+ * Choose the proxy scale for an image shown in the editor viewport
+ * 
+ * The editor fits the image to the viewport and then applies zoom,
+ * so the displayed size in device pixels is fit * zoom * pixelRatio.
+ * 
+ * @param width - Original width
+ * @param height - Original height
+ * @param viewportWidth - Editor viewport width in CSS pixels (0 when not measured yet)
+ * @param viewportHeight - Editor viewport height in CSS pixels
+ * @param zoom - Editor zoom (1 = fit)
+ * @param pixelRatio - Device pixels per CSS pixel
+ * @returns 1 for full resolution, otherwise a power of two below 1
+ */
+export function getProxyScale(
+  width: number,
+  height: number,
+  viewportWidth: number,
+  viewportHeight: number,
+  zoom: number,
+  pixelRatio = 1
+): number {
+  if (zoom > 1 || viewportWidth <= 0 || viewportHeight <= 0) return 1;
+  
+  const fit = Math.min(1, viewportWidth / width, viewportHeight / height);
+  const needed = fit * zoom * pixelRatio;
+  if (needed >= 1) return 1;
+  
+  // Largest power-of-two reduction that keeps at least the needed resolution
+  const level = Math.floor(Math.log2(1 / needed));
+  return Math.max(MIN_PROXY_SCALE, Math.pow(2, -level));
+}
+
+/**
+ * Downscale an image by a power-of-two scale with a box filter
+ * 
+ * Each output pixel averages the block of source pixels it covers;
+ * partial blocks at the right and bottom edges average what exists.
+ * 
+ * @param source - Original image
+ * @param scale - Scale from getProxyScale (below 1)
+ * @returns Proxy image
+ */
+export function createProxy(source: ImageData, scale: number): ImageData {
+  const { width, height, data } = source;
+  const factor = Math.round(1 / scale);
+  const outWidth = Math.max(1, Math.ceil(width / factor));
+  const outHeight = Math.max(1, Math.ceil(height / factor));
+  const output = new ImageData(outWidth, outHeight);
+  const outData = output.data;
+  
+  for (let oy = 0; oy < outHeight; oy++) {
+    const y0 = oy * factor;
+    const y1 = Math.min(height, y0 + factor);
+    
+    for (let ox = 0; ox < outWidth; ox++) {
+      const x0 = ox * factor;
+      const x1 = Math.min(width, x0 + factor);
+      let r = 0, g = 0, b = 0, a = 0;
+      
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * width + x) * 4;
+          r += data[i];
+          g += data[i + 1];
+          b += data[i + 2];
+          a += data[i + 3];
+        }
+      }
+      
+      const count = (y1 - y0) * (x1 - x0);
+      const o = (oy * outWidth + ox) * 4;
+      outData[o] = r / count;
+      outData[o + 1] = g / count;
+      outData[o + 2] = b / count;
+      outData[o + 3] = a / count;
+    }
+  }
+  
+  return output;
+}
@@ -0,0 +1,253 @@
+/**
+ * APEX Photo Studio - Processing Worker
+ * 
+ * Runs the adjustment pipeline off the main thread.
+ * The source image is cached here when it is loaded, so each
+ * job only needs to carry the AdjustmentSettings to apply.
+ * 
+ * Jobs render on the GPU (WebGL2 via OffscreenCanvas) when available
+ * and fall back to the CPU pipeline otherwise. CPU renders go through
+ * a stage cache, so late-stage edits skip the earlier stages.
+ * Local adjustment masks are extra passes blended over the global one.
+ * Layers are composited over the result; image layer pixels are sent
+ * once and fitted and transformed per source level. Color LUT tables are
+ * sent once per library entry and looked up by id at render time.
+ * Grain is added last, in full-resolution original image coordinates,
+ * so the proxy shows the pattern the original renders.
+ * 
+ * Exports render the original on the CPU in tiles (processImageTiled),
+ * posting progress after each tile.
+ * 
+ * Spot removal and geometry (rotate, flip, crop) are the first stages:
+ * the retouched, transformed frame is cached per spots and transform, so
+ * slider drags only re-run the adjustment pipeline on pixels that end up
+ * in the output.
+ * 
+ * The original and the preview proxy are cached side by side, each
+ * with its own frame, so switching between them needs no upload.
+ */
+
+import { createRenderCache } from './renderCache';
+import { compositeMasks } from './masks';
+import { compositeLayers, fitLayerImage } from './layers';
+import { createGpuRenderer, type GpuRenderer } from './gpuRenderer';
+import { applyTransforms } from './transforms';
+import { applySpots } from './retouch';
+import { registerLut } from './lut';
+import { applyGrainRegion, processImageTiled } from './imageProcessing';
+import type { AdjustmentSettings, TransformAdjustments } from '@/types';
+import type { RenderLevel, WorkerRequest, WorkerResponse } from './processingService';
+
+interface CachedSource {
+  id: number;
+  image: ImageData;
+  /** Size relative to the original image */
+  scale: number;
+  /** Source after spot removal and geometry, keyed by the settings that made it */
+  frame: { key: string; image: ImageData } | null;
+  /** Image layers fitted to this source and transformed, keyed by transform */
+  layerFrames: Map<string, { key: string; image: ImageData }>;
+}
+
+const sources: Partial<Record<RenderLevel, CachedSource>> = {};
+
+/** Image layer pixels by layer id, shared by both levels */
+const layerImages = new Map<string, ImageData>();
+
+/** Intermediate CPU stage buffers, keyed by frame and settings */
+const cache = createRenderCache();
+
+/** Lazily created GPU renderer; null once known to be unavailable */
+let gpu: GpuRenderer | null | undefined;
+
+/** Tile edge (pixels) for export renders */
+const EXPORT_TILE_SIZE = 256;
+
+function getFrame(source: CachedSource, settings: AdjustmentSettings): ImageData {
+  const { transform, spots } = settings;
+  const key = JSON.stringify({ transform, spots });
+  if (!source.frame || source.frame.key !== key) {
+    if (source.frame) cache.release(source.frame.image);
+    source.frame = { key, image: applyTransforms(applySpots(source.image, spots), transform) };
+  }
+  return source.frame.image;
+}
+
+function getLayerFrame(source: CachedSource, layerId: string, transform: TransformAdjustments): ImageData | null {
+  const image = layerImages.get(layerId);
+  if (!image) return null;
+  
+  const key = JSON.stringify(transform);
+  const cached = source.layerFrames.get(layerId);
+  if (cached?.key === key) return cached.image;
+  
+  const fitted = fitLayerImage(image, source.image.width, source.image.height);
+  const frame = { key, image: applyTransforms(fitted, transform) };
+  source.layerFrames.set(layerId, frame);
+  return frame.image;
+}
+
+/**
+ * Render one pass of the pipeline, ignoring masks
+ */
+function renderPass(image: ImageData, settings: AdjustmentSettings): ImageData {
+  if (gpu === undefined) {
+    gpu = createGpuRenderer();
+  }
+  
+  if (gpu?.canRender(image, settings)) {
+    try {
+      return gpu.render(image, settings);
+    } catch (error) {
+      console.warn('GPU render failed, using CPU pipeline:', error);
+      gpu.dispose();
+      gpu = null;
+    }
+  }
+  
+  return cache.render(image, settings);
+}
+
+function render(source: CachedSource, settings: AdjustmentSettings): ImageData {
+  const frame = getFrame(source, settings);
+  const space = { transform: settings.transform, width: source.image.width, height: source.image.height };
+  
+  // Passes render without masks, so moving a mask never invalidates cached stages
+  const base = renderPass(frame, { ...settings, masks: [] });
+  const masked = compositeMasks(base, frame, settings, space, maskSettings => renderPass(frame, maskSettings));
+  
+  // Adjustment layers render a composite that is new every job, so its stages are not kept
+  const layered = compositeLayers(
+    masked,
+    frame,
+    settings,
+    space,
+    layer => getLayerFrame(source, layer.id, settings.transform),
+    (image, layerSettings) => {
+      const result = renderPass(image, layerSettings);
+      cache.release(image);
+      return result;
+    }
+  );
+  
+  const region = { x: 0, y: 0, width: layered.width, height: layered.height };
+  applyGrainRegion(layered, settings.effects, frame, region, space, source.scale);
+  return layered;
+}
+
+/**
+ * Full-resolution render of the original for export, tile by tile
+ */
+function renderExport(source: CachedSource, settings: AdjustmentSettings, jobId: number): ImageData {
+  const frame = getFrame(source, settings);
+  return processImageTiled(
+    frame,
+    settings,
+    EXPORT_TILE_SIZE,
+    progress => respond({ type: 'progress', jobId, progress }),
+    source.image,
+    layer => getLayerFrame(source, layer.id, settings.transform)
+  );
+}
+
+function respond(message: WorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
+
+function respondResult(jobId: number, level: RenderLevel, source: CachedSource, result: ImageData): void {
+  const buffer = result.data.buffer;
+  respond({
+    type: 'result',
+    jobId,
+    level,
+    sourceId: source.id,
+    width: result.width,
+    height: result.height,
+    buffer,
+  }, [buffer]);
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+  
+  switch (message.type) {
+    case 'source': {
+      // A new original makes every cached stage stale
+      const previous = sources[message.level];
+      if (message.level === 'full') {
+        cache.clear();
+      } else if (previous?.frame) {
+        cache.release(previous.frame.image);
+      }
+      
+      const pixels = new Uint8ClampedArray(message.buffer);
+      sources[message.level] = {
+        id: message.sourceId,
+        image: new ImageData(pixels, message.width, message.height),
+        scale: message.scale,
+        frame: null,
+        layerFrames: new Map(),
+      };
+      break;
+    }
+    
+    case 'layer': {
+      const { layerId, image } = message;
+      if (image) {
+        layerImages.set(layerId, new ImageData(new Uint8ClampedArray(image.buffer), image.width, image.height));
+      } else {
+        layerImages.delete(layerId);
+      }
+      
+      for (const source of Object.values(sources)) {
+        source.layerFrames.delete(layerId);
+      }
+      break;
+    }
+    
+    case 'lut': {
+      registerLut(message.lutId, message.lut);
+      // Stages cached while the id was unresolved rendered without the table
+      cache.clear();
+      break;
+    }
+    
+    case 'process': {
+      const source = sources[message.level];
+      if (!source || message.sourceId !== source.id) {
+        respond({ type: 'error', jobId: message.jobId, message: 'Source image not loaded' });
+        return;
+      }
+      
+      try {
+        respondResult(message.jobId, message.level, source, render(source, message.settings));
+      } catch (error) {
+        respond({
+          type: 'error',
+          jobId: message.jobId,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      break;
+    }
+    
+    case 'export': {
+      const source = sources.full;
+      if (!source || message.sourceId !== source.id) {
+        respond({ type: 'error', jobId: message.jobId, message: 'Source image not loaded' });
+        return;
+      }
+      
+      try {
+        respondResult(message.jobId, 'full', source, renderExport(source, message.settings, message.jobId));
+      } catch (error) {
+        respond({
+          type: 'error',
+          jobId: message.jobId,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      break;
+    }
+  }
+};
@@ -0,0 +1,315 @@
+/**
+ * APEX Photo Studio - Background Processing Service
+ * 
+ * Main-thread side of the worker-backed render pipeline:
+ * - Sends the source pixels to the worker once per loaded image
+ * - Keeps a second, downscaled source for fast interactive renders
+ * - Sends the pixels of image layers once per layer
+ * - Sends color LUT tables once per library entry
+ * - Posts AdjustmentSettings jobs and receives transferable results
+ * - Renders exports from the original in tiles, reporting progress
+ * - Coalesces rapid slider changes so only the newest settings run
+ * - Drops results that belong to a previously loaded image
+ */
+
+import type { AdjustmentSettings } from '@/types';
+import type { CubeLut } from './lut';
+
+// ============================================================================
+// WORKER PROTOCOL
+// ============================================================================
+
+/**
+ * Which cached source a job renders from: the preview proxy or the original
+ */
+export type RenderLevel = 'proxy' | 'full';
+
+/**
+ * Messages sent from the main thread to the processing worker
+ */
+export type WorkerRequest =
+  | {
+      type: 'source';
+      level: RenderLevel;
+      sourceId: number;
+      width: number;
+      height: number;
+      /** Size relative to the original image (1 for the original) */
+      scale: number;
+      /** Transferred copy of the source RGBA pixels */
+      buffer: ArrayBuffer;
+    }
+  | {
+      type: 'layer';
+      layerId: string;
+      /** Layer pixels, or null when the layer was removed */
+      image: { width: number; height: number; buffer: ArrayBuffer } | null;
+    }
+  | {
+      type: 'lut';
+      lutId: string;
+      /** Parsed table, or null when the LUT was deleted */
+      lut: CubeLut | null;
+    }
+  | {
+      type: 'process';
+      jobId: number;
+      level: RenderLevel;
+      sourceId: number;
+      settings: AdjustmentSettings;
+    }
+  | {
+      /** Tiled full-resolution render of the original */
+      type: 'export';
+      jobId: number;
+      sourceId: number;
+      settings: AdjustmentSettings;
+    };
+
+/**
+ * Messages sent from the processing worker back to the main thread
+ */
+export type WorkerResponse =
+  | {
+      type: 'result';
+      jobId: number;
+      level: RenderLevel;
+      sourceId: number;
+      width: number;
+      height: number;
+      /** Transferred processed RGBA pixels */
+      buffer: ArrayBuffer;
+    }
+  | {
+      type: 'progress';
+      jobId: number;
+      /** Completed fraction of an export (0-1) */
+      progress: number;
+    }
+  | {
+      type: 'error';
+      jobId: number;
+      message: string;
+    };
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+/**
+ * Export waiting for its result
+ */
+interface ExportJob {
+  resolve: (image: ImageData) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+}
+
+export interface ProcessingService {
+  /** Replace the image that subsequent jobs at this level are rendered from */
+  setSource: (image: ImageData, level?: RenderLevel, scale?: number) => void;
+  /** Replace (or with null, drop) the pixels of an image layer */
+  setLayerSource: (layerId: string, image: ImageData | null) => void;
+  /** Replace (or with null, drop) a color LUT of the library */
+  setLut: (lutId: string, lut: CubeLut | null) => void;
+  /** Request a render; supersedes any job that has not started yet */
+  process: (settings: AdjustmentSettings, level?: RenderLevel) => void;
+  /** Render the original at full resolution in tiles; never superseded */
+  exportImage: (settings: AdjustmentSettings, onProgress?: (progress: number) => void) => Promise<ImageData>;
+  /** Terminate the worker and ignore any outstanding results */
+  dispose: () => void;
+}
+
+/**
+ * Create a processing service backed by a dedicated Web Worker
+ * 
+ * The worker runs one job at a time. While a job is running, newer
+ * requests replace each other in a single pending slot, so a fast
+ * slider drag never builds up a backlog of stale renders.
+ * 
+ * A job that fails, or a worker error while a job runs, is reported
+ * through onError and frees the worker for the pending job.
+ * 
+ * Export jobs are queued in the worker behind the job that is running
+ * and settle their own promise; a failed export rejects it instead of
+ * calling onError.
+ * 
+ * @param onResult - Called with each processed image for the current source
+ * @param onError - Called with the message of each failed render
+ * @returns Service handle
+ */
+export function createProcessingService(
+  onResult: (image: ImageData, level: RenderLevel) => void,
+  onError?: (message: string) => void
+): ProcessingService {
+  const worker = new Worker(
+    new URL('./processing.worker.ts', import.meta.url),
+    { type: 'module' }
+  );
+  
+  const sourceIds: Record<RenderLevel, number> = { proxy: 0, full: 0 };
+  let nextJobId = 0;
+  let inFlightJobId: number | null = null;
+  let pending: { settings: AdjustmentSettings; level: RenderLevel } | null = null;
+  let disposed = false;
+  
+  /** Exports waiting for their result, by job id */
+  const exportJobs = new Map<number, ExportJob>();
+  
+  const rejectExports = (message: string): void => {
+    for (const job of exportJobs.values()) {
+      job.reject(new Error(message));
+    }
+    exportJobs.clear();
+  };
+  
+  const dispatch = (settings: AdjustmentSettings, level: RenderLevel): void => {
+    const jobId = ++nextJobId;
+    inFlightJobId = jobId;
+    
+    const request: WorkerRequest = {
+      type: 'process',
+      jobId,
+      level,
+      sourceId: sourceIds[level],
+      settings,
+    };
+    worker.postMessage(request);
+  };
+  
+  const dispatchPending = (): void => {
+    if (!pending) return;
+    const next = pending;
+    pending = null;
+    dispatch(next.settings, next.level);
+  };
+  
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    if (disposed) return;
+    
+    const exportJob = exportJobs.get(message.jobId);
+    if (exportJob) {
+      if (message.type === 'progress') {
+        exportJob.onProgress?.(message.progress);
+        return;
+      }
+      
+      exportJobs.delete(message.jobId);
+      if (message.type === 'error') {
+        exportJob.reject(new Error(message.message));
+      } else if (message.sourceId !== sourceIds.full) {
+        exportJob.reject(new Error('The image changed during export'));
+      } else {
+        exportJob.resolve(new ImageData(new Uint8ClampedArray(message.buffer), message.width, message.height));
+      }
+      return;
+    }
+    
+    if (message.type === 'progress' || message.jobId !== inFlightJobId) return;
+    
+    inFlightJobId = null;
+    
+    if (message.type === 'result') {
+      // Results rendered from a previous image are stale
+      if (message.sourceId === sourceIds[message.level]) {
+        const pixels = new Uint8ClampedArray(message.buffer);
+        onResult(new ImageData(pixels, message.width, message.height), message.level);
+      }
+    } else {
+      console.error('Processing failed:', message.message);
+      onError?.(message.message);
+    }
+    
+    dispatchPending();
+  };
+  
+  // An uncaught worker error never answers the running job, so stop
+  // waiting for it; otherwise every later request would queue forever
+  worker.onerror = (event: ErrorEvent) => {
+    event.preventDefault();
+    console.error('Processing worker error:', event.message);
+    if (disposed) return;
+    
+    inFlightJobId = null;
+    onError?.(event.message || 'Processing worker error');
+    
+    // Nor does it answer an export queued behind or running in the worker
+    rejectExports(event.message || 'Processing worker error');
+    dispatchPending();
+  };
+  
+  return {
+    setSource: (image: ImageData, level: RenderLevel = 'full', scale: number = 1) => {
+      if (disposed) return;
+      
+      sourceIds[level]++;
+      if (pending?.level === level) {
+        pending = null;
+      }
+      
+      // Transfer a copy so the store keeps its own original
+      const buffer = image.data.slice().buffer;
+      const request: WorkerRequest = {
+        type: 'source',
+        level,
+        sourceId: sourceIds[level],
+        width: image.width,
+        height: image.height,
+        scale,
+        buffer,
+      };
+      worker.postMessage(request, [buffer]);
+    },
+    
+    setLayerSource: (layerId: string, image: ImageData | null) => {
+      if (disposed) return;
+      
+      const buffer = image?.data.slice().buffer;
+      const request: WorkerRequest = {
+        type: 'layer',
+        layerId,
+        image: image && buffer ? { width: image.width, height: image.height, buffer } : null,
+      };
+      worker.postMessage(request, buffer ? [buffer] : []);
+    },
+    
+    setLut: (lutId: string, lut: CubeLut | null) => {
+      if (disposed) return;
+      
+      // Structured clone copies the table; the store keeps its own
+      const request: WorkerRequest = { type: 'lut', lutId, lut };
+      worker.postMessage(request);
+    },
+    
+    process: (settings: AdjustmentSettings, level: RenderLevel = 'full') => {
+      if (disposed) return;
+      
+      if (inFlightJobId !== null) {
+        pending = { settings, level };
+        return;
+      }
+      
+      dispatch(settings, level);
+    },
+    
+    exportImage: (settings: AdjustmentSettings, onProgress?: (progress: number) => void) => {
+      if (disposed) return Promise.reject(new Error('Processing service disposed'));
+      
+      const jobId = ++nextJobId;
+      const request: WorkerRequest = { type: 'export', jobId, sourceId: sourceIds.full, settings };
+      
+      return new Promise<ImageData>((resolve, reject) => {
+        exportJobs.set(jobId, { resolve, reject, onProgress });
+        worker.postMessage(request);
+      });
+    },
+    
+    dispose: () => {
+      disposed = true;
+      pending = null;
+      rejectExports('Processing service disposed');
+      worker.terminate();
+    },
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * APEX Photo Studio - Stage Render Cache
+ * 
+ * Keeps full-frame intermediate buffers between CPU renders:
+ * - base: lens correction and per-pixel adjustments (steps 1-9)
+ * - detail: noise reduction, clarity and sharpening (step 10)
+ * 
+ * Each buffer is keyed by its source image and by the settings its stage
+ * and every earlier stage read. Moving a vignette slider only re-runs
+ * the finishing pass; sharpening re-runs detail on the cached base.
+ * 
+ * Memory is bounded: buffers are evicted least recently used first
+ * once their total size exceeds the budget.
+ */
+
+import type { AdjustmentSettings } from '@/types';
+import {
+  hasDetailAdjustments,
+  renderBaseStage,
+  renderDetailStage,
+  renderFinishStage,
+  type StageBuffer,
+} from './imageProcessing';
+
+/** Default budget for cached buffers (bytes) */
+const DEFAULT_MAX_BYTES = 256 * 1024 * 1024;
+
+export interface RenderCache {
+  /** Render the full pipeline, reusing cached stages where settings allow */
+  render: (source: ImageData, settings: AdjustmentSettings) => ImageData;
+  /** Drop the buffers rendered from one source image */
+  release: (source: ImageData) => void;
+  /** Drop every buffer */
+  clear: () => void;
+}
+
+interface CacheEntry {
+  source: ImageData;
+  buffer: StageBuffer;
+}
+
+/**
+ * Settings read by the base stage
+ * 
+ * Everything except what later stages read. Transform and spots are
+ * excluded because they are applied to the source before rendering, layers
+ * because they are composited after it, and settings added in the future
+ * invalidate the base by default.
+ */
+function getBaseKey(settings: AdjustmentSettings): string {
+  return JSON.stringify({
+    ...settings,
+    transform: null,
+    spots: null,
+    layers: null,
+    detail: null,
+    effects: { dehaze: settings.effects.dehaze },
+  });
+}
+
+/**
+ * Create a stage cache for the CPU pipeline
+ * 
+ * @param maxBytes - Budget for cached buffers; larger buffers are not cached
+ * @returns Cache handle
+ */
+export function createRenderCache(maxBytes: number = DEFAULT_MAX_BYTES): RenderCache {
+  // Map iteration order doubles as recency order (oldest first)
+  const entries = new Map<string, CacheEntry>();
+  const sourceIds = new WeakMap<ImageData, number>();
+  let nextSourceId = 0;
+  let totalBytes = 0;
+  
+  const getSourceId = (source: ImageData): number => {
+    let id = sourceIds.get(source);
+    if (id === undefined) {
+      id = ++nextSourceId;
+      sourceIds.set(source, id);
+    }
+    return id;
+  };
+  
+  const remove = (key: string): void => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    totalBytes -= entry.buffer.data.byteLength;
+    entries.delete(key);
+  };
+  
+  const getStage = (key: string, source: ImageData, compute: () => StageBuffer): StageBuffer => {
+    const cached = entries.get(key);
+    if (cached) {
+      // Move to the most recently used end
+      entries.delete(key);
+      entries.set(key, cached);
+      return cached.buffer;
+    }
+    
+    const buffer = compute();
+    const bytes = buffer.data.byteLength;
+    if (bytes > maxBytes) return buffer;
+    
+    entries.set(key, { source, buffer });
+    totalBytes += bytes;
+    
+    for (const oldest of entries.keys()) {
+      if (totalBytes <= maxBytes) break;
+      remove(oldest);
+    }
+    
+    return buffer;
+  };
+  
+  return {
+    render: (source: ImageData, settings: AdjustmentSettings) => {
+      const prefix = `${getSourceId(source)}:${getBaseKey(settings)}`;
+      
+      const getBase = () => getStage(`base:${prefix}`, source, () =>
+        renderBaseStage(source, settings)
+      );
+      
+      const buffer = hasDetailAdjustments(settings.detail)
+        ? getStage(`detail:${prefix}:${JSON.stringify(settings.detail)}`, source, () =>
+            renderDetailStage(getBase(), source, settings)
+          )
+        : getBase();
+      
+      return renderFinishStage(buffer, source, settings);
+    },
+    
+    release: (source: ImageData) => {
+      for (const [key, entry] of entries) {
+        if (entry.source === source) remove(key);
+      }
+    },
+    
+    clear: () => {
+      entries.clear();
+      totalBytes = 0;
+    },
+  };
+}
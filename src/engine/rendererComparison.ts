@@ -0,0 +1,219 @@
+/**
+ * APEX Photo Studio - Renderer Comparison Harness
+ * 
+ * Checks that the GPU pipeline agrees with the CPU reference:
+ * - Renders the same image and settings through both paths
+ * - Reports max/mean per-channel difference and mismatched pixels
+ * - Ships a set of cases that exercise every pipeline stage
+ * 
+ * Film grain is not part of either pass: it is added afterwards on the
+ * CPU (applyGrainRegion), so there is no grain case.
+ */
+
+import type { AdjustmentSettings } from '@/types';
+import { DEFAULT_ADJUSTMENT_SETTINGS } from '@/types';
+import { processImage } from './imageProcessing';
+import { createGpuRenderer, type GpuRenderer } from './gpuRenderer';
+
+export interface RendererComparison {
+  name: string;
+  /** Largest absolute difference of any channel (0-255) */
+  maxDifference: number;
+  /** Mean absolute difference across all RGB channels */
+  meanDifference: number;
+  /** Pixels with any channel differing by more than the tolerance */
+  mismatchedPixels: number;
+  passed: boolean;
+}
+
+export interface ComparisonCase {
+  name: string;
+  settings: AdjustmentSettings;
+}
+
+/**
+ * Build full settings from defaults plus a partial override
+ */
+function withSettings(overrides: Partial<AdjustmentSettings>): AdjustmentSettings {
+  const base: AdjustmentSettings = JSON.parse(JSON.stringify(DEFAULT_ADJUSTMENT_SETTINGS));
+  return { ...base, ...overrides };
+}
+
+const defaults = DEFAULT_ADJUSTMENT_SETTINGS;
+
+/**
+ * Representative settings covering each stage of the pipeline
+ */
+export const COMPARISON_CASES: ComparisonCase[] = [
+  { name: 'identity', settings: withSettings({}) },
+  {
+    name: 'lens correction',
+    settings: withSettings({
+      lensCorrection: { distortion: 40, chromaticAberration: { redCyan: 30, blueYellow: -20 } },
+    }),
+  },
+  {
+    name: 'calibration & channel mixer',
+    settings: withSettings({
+      calibration: {
+        red: { hue: 30, saturation: -20 },
+        green: { hue: -15, saturation: 25 },
+        blue: { hue: 40, saturation: 10 },
+      },
+      channelMixer: {
+        red: { red: 90, green: 20, blue: -10, constant: 3 },
+        green: { red: 5, green: 95, blue: 0, constant: 0 },
+        blue: { red: 0, green: -10, blue: 115, constant: -4 },
+        monochrome: false,
+      },
+    }),
+  },
+  {
+    name: 'temperature & tint',
+    settings: withSettings({ color: { ...defaults.color, temperature: 4200, tint: 25 } }),
+  },
+  {
+    name: 'exposure & contrast',
+    settings: withSettings({ basic: { ...defaults.basic, exposure: 0.7, contrast: 35 } }),
+  },
+  {
+    name: 'tonal',
+    settings: withSettings({
+      basic: { ...defaults.basic, highlights: -60, shadows: 45, whites: 20, blacks: -30 },
+    }),
+  },
+  {
+    name: 'curves',
+    settings: withSettings({
+      curves: {
+        ...defaults.curves,
+        rgb: [{ x: 0, y: 10 }, { x: 64, y: 50 }, { x: 192, y: 210 }, { x: 255, y: 245 }],
+        blue: [{ x: 0, y: 0 }, { x: 128, y: 140 }, { x: 255, y: 255 }],
+      },
+    }),
+  },
+  {
+    name: 'hsl',
+    settings: withSettings({
+      hsl: {
+        ...defaults.hsl,
+        orange: { hue: 20, saturation: -30, luminance: 15 },
+        blue: { hue: -40, saturation: 50, luminance: -25 },
+        green: { hue: 10, saturation: 40, luminance: 0 },
+      },
+    }),
+  },
+  {
+    name: 'black & white',
+    settings: withSettings({
+      blackAndWhite: {
+        enabled: true,
+        mix: { red: 40, orange: 20, yellow: -10, green: -30, cyan: 10, blue: -50, purple: 0, magenta: 25 },
+        toningHue: 35,
+        toningSaturation: 30,
+      },
+    }),
+  },
+  {
+    name: 'vibrance & saturation',
+    settings: withSettings({ color: { ...defaults.color, vibrance: 60, saturation: -25 } }),
+  },
+  {
+    name: 'color grading',
+    settings: withSettings({
+      colorGrading: {
+        shadows: { hue: 210, saturation: 60, luminance: -20 },
+        midtones: { hue: 120, saturation: 25, luminance: 10 },
+        highlights: { hue: 40, saturation: 50, luminance: 15 },
+        global: { hue: 300, saturation: 10, luminance: 0 },
+        blending: 70,
+        balance: 20,
+      },
+    }),
+  },
+  {
+    name: 'dehaze',
+    settings: withSettings({ effects: { ...defaults.effects, dehaze: 45 } }),
+  },
+  {
+    name: 'vignette',
+    settings: withSettings({
+      effects: { ...defaults.effects, vignetteAmount: 60, vignetteRoundness: -40, vignetteHighlightProtection: 30 },
+    }),
+  },
+];
+
+/**
+ * Compare the GPU and CPU renderers for one set of settings
+ * 
+ * @param source - Source image
+ * @param settings - Adjustment settings
+ * @param tolerance - Allowed per-channel difference in 8-bit code values
+ * @param renderer - GPU renderer to reuse (created on demand if omitted)
+ * @returns Comparison result, or null if WebGL2 is unavailable
+ */
+export function compareRenderers(
+  source: ImageData,
+  settings: AdjustmentSettings,
+  tolerance: number = 2,
+  renderer?: GpuRenderer | null,
+  name: string = 'custom'
+): RendererComparison | null {
+  const gpu = renderer ?? createGpuRenderer();
+  if (!gpu || !gpu.canRender(source, settings)) return null;
+  
+  const cpuResult = processImage(source, settings).data;
+  const gpuResult = gpu.render(source, settings).data;
+  
+  let maxDifference = 0;
+  let totalDifference = 0;
+  let mismatchedPixels = 0;
+  
+  for (let i = 0; i < cpuResult.length; i += 4) {
+    let pixelMax = 0;
+    for (let c = 0; c < 3; c++) {
+      const diff = Math.abs(cpuResult[i + c] - gpuResult[i + c]);
+      totalDifference += diff;
+      pixelMax = Math.max(pixelMax, diff);
+    }
+    maxDifference = Math.max(maxDifference, pixelMax);
+    if (pixelMax > tolerance) mismatchedPixels++;
+  }
+  
+  if (!renderer) gpu.dispose();
+  
+  return {
+    name,
+    maxDifference,
+    meanDifference: totalDifference / ((cpuResult.length / 4) * 3),
+    mismatchedPixels,
+    passed: mismatchedPixels === 0,
+  };
+}
+
+/**
+ * Run every comparison case against one source image
+ * 
+ * Run by compare.html (npm run compare, headless) to validate shader
+ * changes; also usable from the browser console.
+ * 
+ * @param source - Source image (a colorful, varied photo works best)
+ * @param tolerance - Allowed per-channel difference in 8-bit code values
+ * @returns One result per case; empty if WebGL2 is unavailable
+ */
+export function runRendererComparison(
+  source: ImageData,
+  tolerance: number = 2
+): RendererComparison[] {
+  const renderer = createGpuRenderer();
+  if (!renderer) return [];
+  
+  const results: RendererComparison[] = [];
+  for (const { name, settings } of COMPARISON_CASES) {
+    const result = compareRenderers(source, settings, tolerance, renderer, name);
+    if (result) results.push(result);
+  }
+  
+  renderer.dispose();
+  return results;
+}
@@ -0,0 +1,363 @@
+/**
+ * APEX Photo Studio - Spot Removal
+ * 
+ * Retouching of dust and blemishes:
+ * - Clone: copies a patch from elsewhere in the image
+ * - Heal: copies the patch's texture and matches it to the color and
+ *   tone around the spot
+ * - Clicked spots are circles; brushed spots follow their path
+ * - Automatic choice of a source patch with similar surroundings
+ * 
+ * Spots are applied in order to the original image, before geometry and
+ * adjustments, in normalized coordinates. They render the same at any
+ * resolution and follow crop, rotation and flips.
+ */
+
+import type { MaskPoint, Spot, SpotMode } from '@/types';
+import { clamp } from '@/utils/colorspace';
+import { smoothFalloff } from './adjustments';
+
+/** Boundary samples around each path point */
+const RING_SAMPLES = 16;
+
+/** Most boundary samples used per spot (long paths are subsampled) */
+const MAX_BOUNDARY_SAMPLES = 96;
+
+/** Distance of the boundary ring from the path, relative to the radius */
+const RING_DISTANCE = 1.15;
+
+/** Directions tried when searching for a source patch */
+const SEARCH_ANGLES = 24;
+
+/** Search distances, relative to the size of the spot */
+const SEARCH_DISTANCES = [1.1, 1.5, 2];
+
+/**
+ * Rectangle of pixels (inclusive bounds)
+ */
+interface PixelBounds {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+/**
+ * Copy of part of an image, for sampling pixels a spot may overwrite
+ */
+interface Patch {
+  data: Uint8ClampedArray;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// ============================================================================
+// SPOT DOCUMENT
+// ============================================================================
+
+/**
+ * Create a spot with default feather and full opacity
+ * 
+ * @param mode - Heal or clone
+ * @param points - Retouched path (normalized to the original)
+ * @param radius - Radius as a fraction of the original's longer side
+ * @param offset - Source position relative to the path (normalized)
+ * @returns New spot
+ */
+export function createSpot(mode: SpotMode, points: MaskPoint[], radius: number, offset: MaskPoint): Spot {
+  return {
+    id: crypto.randomUUID(),
+    mode,
+    points,
+    offset,
+    radius,
+    feather: 50,
+    opacity: 100,
+  };
+}
+
+// ============================================================================
+// GEOMETRY
+// ============================================================================
+
+/**
+ * Spot path in pixel coordinates of an image
+ */
+function toPixelPath(points: MaskPoint[], width: number, height: number): MaskPoint[] {
+  return points.map(p => ({ x: p.x * width, y: p.y * height }));
+}
+
+/**
+ * Distance from a point to the closest point of a polyline
+ */
+function distanceToPath(x: number, y: number, path: MaskPoint[]): number {
+  if (path.length === 1) return Math.hypot(x - path[0].x, y - path[0].y);
+  
+  let closest = Infinity;
+  for (let i = 1; i < path.length; i++) {
+    const a = path[i - 1];
+    const b = path[i];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : clamp(((x - a.x) * dx + (y - a.y) * dy) / lengthSquared, 0, 1);
+    closest = Math.min(closest, Math.hypot(x - (a.x + t * dx), y - (a.y + t * dy)));
+  }
+  return closest;
+}
+
+/**
+ * Bounds of a path widened by a margin (not clamped to the image)
+ */
+function getPathBounds(path: MaskPoint[], margin: number): PixelBounds {
+  const xs = path.map(p => p.x);
+  const ys = path.map(p => p.y);
+  return {
+    x0: Math.floor(Math.min(...xs) - margin),
+    y0: Math.floor(Math.min(...ys) - margin),
+    x1: Math.ceil(Math.max(...xs) + margin),
+    y1: Math.ceil(Math.max(...ys) + margin),
+  };
+}
+
+function clampBounds(bounds: PixelBounds, width: number, height: number): PixelBounds {
+  return {
+    x0: clamp(bounds.x0, 0, width - 1),
+    y0: clamp(bounds.y0, 0, height - 1),
+    x1: clamp(bounds.x1, 0, width - 1),
+    y1: clamp(bounds.y1, 0, height - 1),
+  };
+}
+
+/**
+ * Points just outside the spot, used to compare and match surroundings
+ */
+function getBoundary(path: MaskPoint[], radius: number, width: number, height: number): MaskPoint[] {
+  const distance = radius * RING_DISTANCE;
+  const boundary: MaskPoint[] = [];
+  
+  for (const center of path) {
+    for (let i = 0; i < RING_SAMPLES; i++) {
+      const angle = (i / RING_SAMPLES) * Math.PI * 2;
+      const x = center.x + Math.cos(angle) * distance;
+      const y = center.y + Math.sin(angle) * distance;
+      
+      // Keep samples outside the whole path and inside the image
+      if (x < 0 || y < 0 || x >= width || y >= height) continue;
+      if (distanceToPath(x, y, path) < radius) continue;
+      boundary.push({ x, y });
+    }
+  }
+  
+  if (boundary.length <= MAX_BOUNDARY_SAMPLES) return boundary;
+  const step = boundary.length / MAX_BOUNDARY_SAMPLES;
+  return Array.from({ length: MAX_BOUNDARY_SAMPLES }, (_, i) => boundary[Math.floor(i * step)]);
+}
+
+// ============================================================================
+// SAMPLING
+// ============================================================================
+
+function copyPatch(image: ImageData, bounds: PixelBounds): Patch {
+  const width = bounds.x1 - bounds.x0 + 1;
+  const height = bounds.y1 - bounds.y0 + 1;
+  const data = new Uint8ClampedArray(width * height * 4);
+  
+  for (let y = 0; y < height; y++) {
+    const start = ((bounds.y0 + y) * image.width + bounds.x0) * 4;
+    data.set(image.data.subarray(start, start + width * 4), y * width * 4);
+  }
+  
+  return { data, left: bounds.x0, top: bounds.y0, width, height };
+}
+
+function wholeImage(image: ImageData): Patch {
+  return { data: image.data, left: 0, top: 0, width: image.width, height: image.height };
+}
+
+/**
+ * Bilinear RGB sample at a continuous position (pixel centers at +0.5)
+ */
+function sample(patch: Patch, x: number, y: number, out: number[]): void {
+  const fx = clamp(x - 0.5 - patch.left, 0, patch.width - 1);
+  const fy = clamp(y - 0.5 - patch.top, 0, patch.height - 1);
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(x0 + 1, patch.width - 1);
+  const y1 = Math.min(y0 + 1, patch.height - 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+  
+  const i00 = (y0 * patch.width + x0) * 4;
+  const i10 = (y0 * patch.width + x1) * 4;
+  const i01 = (y1 * patch.width + x0) * 4;
+  const i11 = (y1 * patch.width + x1) * 4;
+  const { data } = patch;
+  
+  for (let c = 0; c < 3; c++) {
+    out[c] =
+      (data[i00 + c] * (1 - tx) + data[i10 + c] * tx) * (1 - ty) +
+      (data[i01 + c] * (1 - tx) + data[i11 + c] * tx) * ty;
+  }
+}
+
+// ============================================================================
+// SOURCE SELECTION
+// ============================================================================
+
+/**
+ * Choose where to copy a spot from
+ * 
+ * Tries positions around the spot and keeps the one whose surroundings
+ * best match the spot's own surroundings, preferring closer patches.
+ * 
+ * @param image - Original image (or a proxy of it)
+ * @param points - Retouched path (normalized)
+ * @param radius - Radius as a fraction of the longer side
+ * @returns Source offset (normalized)
+ */
+export function findSpotSource(image: ImageData, points: MaskPoint[], radius: number): MaskPoint {
+  const { width, height } = image;
+  const path = toPixelPath(points, width, height);
+  const r = radius * Math.max(width, height);
+  const boundary = getBoundary(path, r, width, height);
+  const bounds = getPathBounds(path, r * RING_DISTANCE);
+  const extent = Math.max(bounds.x1 - bounds.x0, bounds.y1 - bounds.y0);
+  const patch = wholeImage(image);
+  const target = [0, 0, 0];
+  const candidate = [0, 0, 0];
+  
+  let best = { cost: Infinity, x: extent, y: 0 };
+  
+  SEARCH_DISTANCES.forEach((scale, level) => {
+    for (let i = 0; i < SEARCH_ANGLES; i++) {
+      const angle = (i / SEARCH_ANGLES) * Math.PI * 2;
+      const ox = Math.round(Math.cos(angle) * extent * scale);
+      const oy = Math.round(Math.sin(angle) * extent * scale);
+      
+      // The source must lie inside the image and not overlap the spot
+      if (bounds.x0 + ox < 0 || bounds.y0 + oy < 0) continue;
+      if (bounds.x1 + ox >= width || bounds.y1 + oy >= height) continue;
+      if (Math.abs(ox) <= bounds.x1 - bounds.x0 && Math.abs(oy) <= bounds.y1 - bounds.y0) continue;
+      
+      let cost = 0;
+      for (const point of boundary) {
+        sample(patch, point.x, point.y, target);
+        sample(patch, point.x + ox, point.y + oy, candidate);
+        cost +=
+          (target[0] - candidate[0]) ** 2 +
+          (target[1] - candidate[1]) ** 2 +
+          (target[2] - candidate[2]) ** 2;
+      }
+      cost = (cost / Math.max(1, boundary.length)) * (1 + level * 0.1);
+      
+      if (cost < best.cost) best = { cost, x: ox, y: oy };
+    }
+  });
+  
+  return { x: best.x / width, y: best.y / height };
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Retouch one spot into the image (modified in place)
+ */
+function applySpot(image: ImageData, spot: Spot): void {
+  const { width, height, data } = image;
+  const path = toPixelPath(spot.points, width, height);
+  const radius = spot.radius * Math.max(width, height);
+  if (radius <= 0 || path.length === 0) return;
+  
+  const ox = spot.offset.x * width;
+  const oy = spot.offset.y * height;
+  const hardness = 1 - clamp(spot.feather, 0, 100) / 100;
+  const opacity = clamp(spot.opacity, 0, 100) / 100;
+  const target = clampBounds(getPathBounds(path, radius), width, height);
+  
+  // Snapshot the source area (with the heal ring) before writing
+  const reach = getPathBounds(path, radius * RING_DISTANCE + 1);
+  const source = copyPatch(image, clampBounds({
+    x0: Math.floor(reach.x0 + ox),
+    y0: Math.floor(reach.y0 + oy),
+    x1: Math.ceil(reach.x1 + ox),
+    y1: Math.ceil(reach.y1 + oy),
+  }, width, height));
+  
+  // Heal: color difference between the surroundings of spot and source,
+  // interpolated across the spot so the copied texture blends in
+  const boundary = spot.mode === 'heal' ? getBoundary(path, radius, width, height) : [];
+  const differences = new Float32Array(boundary.length * 3);
+  const around = [0, 0, 0];
+  const copied = [0, 0, 0];
+  const whole = wholeImage(image);
+  
+  boundary.forEach((point, k) => {
+    sample(whole, point.x, point.y, around);
+    sample(source, point.x + ox, point.y + oy, copied);
+    differences[k * 3] = around[0] - copied[0];
+    differences[k * 3 + 1] = around[1] - copied[1];
+    differences[k * 3 + 2] = around[2] - copied[2];
+  });
+  
+  for (let y = target.y0; y <= target.y1; y++) {
+    const cy = y + 0.5;
+    
+    for (let x = target.x0; x <= target.x1; x++) {
+      const cx = x + 0.5;
+      const distance = distanceToPath(cx, cy, path) / radius;
+      if (distance >= 1) continue;
+      
+      const weight = (1 - smoothFalloff(distance, hardness, 1)) * opacity;
+      if (weight <= 0) continue;
+      
+      sample(source, cx + ox, cy + oy, copied);
+      
+      if (boundary.length > 0) {
+        // Inverse distance weighting of the boundary differences
+        let total = 0, r = 0, g = 0, b = 0;
+        for (let k = 0; k < boundary.length; k++) {
+          const dx = boundary[k].x - cx;
+          const dy = boundary[k].y - cy;
+          const w = 1 / (dx * dx + dy * dy + 1);
+          total += w;
+          r += differences[k * 3] * w;
+          g += differences[k * 3 + 1] * w;
+          b += differences[k * 3 + 2] * w;
+        }
+        copied[0] += r / total;
+        copied[1] += g / total;
+        copied[2] += b / total;
+      }
+      
+      const i = (y * width + x) * 4;
+      data[i] += (copied[0] - data[i]) * weight;
+      data[i + 1] += (copied[1] - data[i + 1]) * weight;
+      data[i + 2] += (copied[2] - data[i + 2]) * weight;
+    }
+  }
+}
+
+/**
+ * Apply spot removal to an image
+ * 
+ * @param source - Original image (or a proxy of it)
+ * @param spots - Spots in application order
+ * @returns Retouched copy, or the source itself when there are no spots
+ */
+export function applySpots(source: ImageData, spots: Spot[]): ImageData {
+  if (spots.length === 0) return source;
+  
+  const output = new ImageData(source.width, source.height);
+  output.data.set(source.data);
+  
+  for (const spot of spots) {
+    applySpot(output, spot);
+  }
+  
+  return output;
+}
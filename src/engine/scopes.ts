@@ -0,0 +1,541 @@
+/**
+ * APEX Photo Studio - Video Scopes Engine
+ * 
+ * Waveform and vectorscope analysis for exposure and color work:
+ * - Luma waveform (Rec. 709 luminance per image column)
+ * - RGB parade (red, green and blue waveforms side by side)
+ * - RGB overlay (the three channels additively in one plot)
+ * - Graticule in IRE / percent (0 = black, 100 = white)
+ * - Vectorscope (Rec. 709 U/V chroma) with 75% target boxes,
+ *   skin-tone line and zoom
+ * - Pixel masks for a chroma region and for skin tones
+ * 
+ * Counts are gathered from a sampled grid of pixels so the scopes stay
+ * interactive on full-size images and live video.
+ */
+
+import type { ChromaSelection, ScopeMode, VectorscopeData, WaveformData } from '@/types';
+import { clamp, rgbToHsl } from '@/utils/colorspace';
+import { isSkinTone } from './adjustments';
+
+/** Upper bound on sampled pixels per scope */
+const SCOPE_MAX_SAMPLES = 200000;
+
+/** Trace gain at intensity 50; a flat column then shows at about 30% */
+const BASE_TRACE_GAIN = 0.35;
+
+/** Padding above 100 IRE and below 0 IRE, in CSS pixels */
+const GRATICULE_PADDING = 6;
+
+/** Vectorscope trace gain at intensity 50, relative to an even spread */
+const VECTOR_TRACE_GAIN = 0.05;
+
+/**
+ * Direction of the skin-tone line in degrees from +U, counter-clockwise
+ * Skin of any complexion falls close to this hue; only saturation varies.
+ */
+const SKIN_TONE_ANGLE = 123;
+
+/** Neutrals report hue 0, so the skin mask needs a little saturation */
+const SKIN_MIN_SATURATION = 0.1;
+
+/** Color bar targets at 75% amplitude */
+const VECTOR_TARGETS: { label: string; rgb: [number, number, number] }[] = [
+  { label: 'R', rgb: [191, 0, 0] },
+  { label: 'Mg', rgb: [191, 0, 191] },
+  { label: 'B', rgb: [0, 0, 191] },
+  { label: 'Cy', rgb: [0, 191, 191] },
+  { label: 'G', rgb: [0, 191, 0] },
+  { label: 'Yl', rgb: [191, 191, 0] },
+];
+
+/**
+ * Grid step that keeps the number of sampled pixels under the limit
+ */
+function getSampleStep(width: number, height: number): number {
+  return Math.max(1, Math.ceil(Math.sqrt((width * height) / SCOPE_MAX_SAMPLES)));
+}
+
+/**
+ * Trace brightness multiplier for an intensity setting (doubles every 12.5)
+ */
+function getIntensityGain(intensity: number): number {
+  return Math.pow(2, (intensity - 50) / 12.5);
+}
+
+// ============================================================================
+// WAVEFORM
+// ============================================================================
+
+/**
+ * Count pixel levels per column for luma and each RGB channel
+ * 
+ * @param imageData - Image to analyze
+ * @param maxColumns - Horizontal resolution of the scope
+ * @returns Waveform counts
+ */
+export function calculateWaveform(imageData: ImageData, maxColumns: number = 256): WaveformData {
+  const { data, width, height } = imageData;
+  const columns = Math.max(1, Math.min(width, maxColumns));
+  const step = getSampleStep(width, height);
+  
+  const luma = new Uint32Array(columns * 256);
+  const red = new Uint32Array(columns * 256);
+  const green = new Uint32Array(columns * 256);
+  const blue = new Uint32Array(columns * 256);
+  
+  // Column of each sampled x, computed once
+  const columnOffsets: number[] = [];
+  for (let x = 0; x < width; x += step) {
+    columnOffsets.push(Math.min(columns - 1, Math.floor((x * columns) / width)) * 256);
+  }
+  
+  let samples = 0;
+  for (let y = 0; y < height; y += step) {
+    const row = y * width;
+    for (let i = 0; i < columnOffsets.length; i++) {
+      const index = (row + i * step) * 4;
+      const r = data[index];
+      const g = data[index + 1];
+      const b = data[index + 2];
+      const offset = columnOffsets[i];
+      
+      red[offset + r]++;
+      green[offset + g]++;
+      blue[offset + b]++;
+      luma[offset + Math.min(255, Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b))]++;
+      samples++;
+    }
+  }
+  
+  return { columns, samplesPerColumn: samples / columns, luma, red, green, blue };
+}
+
+/**
+ * Build the waveform trace image (one pixel per column and level)
+ * 
+ * Brightness follows 1 - e^(-count · gain), so sparse levels stay
+ * visible while dense ones saturate instead of clipping abruptly.
+ * Parade places the red, green and blue plots side by side.
+ * 
+ * @param waveform - Waveform counts
+ * @param mode - Scope display
+ * @param intensity - Trace brightness (0-100, 50 = default)
+ * @returns Image with level 255 at the top row
+ */
+export function createWaveformImage(
+  waveform: WaveformData,
+  mode: ScopeMode,
+  intensity: number
+): ImageData {
+  const { columns, samplesPerColumn } = waveform;
+  const plotWidth = mode === 'parade' ? columns * 3 : columns;
+  const output = new ImageData(plotWidth, 256);
+  const out = output.data;
+  
+  const gain = (256 * BASE_TRACE_GAIN * getIntensityGain(intensity)) / Math.max(1, samplesPerColumn);
+  const trace = (count: number) => (count === 0 ? 0 : 255 * (1 - Math.exp(-count * gain)));
+  
+  for (let column = 0; column < columns; column++) {
+    for (let level = 0; level < 256; level++) {
+      const bin = column * 256 + level;
+      const row = 255 - level;
+      
+      if (mode === 'luma') {
+        const v = trace(waveform.luma[bin]);
+        const index = (row * plotWidth + column) * 4;
+        out[index] = v * 0.85;
+        out[index + 1] = v;
+        out[index + 2] = v * 0.9;
+        out[index + 3] = 255;
+      } else if (mode === 'overlay') {
+        const index = (row * plotWidth + column) * 4;
+        out[index] = trace(waveform.red[bin]);
+        out[index + 1] = trace(waveform.green[bin]);
+        out[index + 2] = trace(waveform.blue[bin]);
+        out[index + 3] = 255;
+      } else {
+        const channels = [waveform.red, waveform.green, waveform.blue];
+        for (let c = 0; c < 3; c++) {
+          const v = trace(channels[c][bin]);
+          const index = (row * plotWidth + c * columns + column) * 4;
+          out[index] = c === 0 ? v : v * 0.3;
+          out[index + 1] = c === 1 ? v : v * 0.3;
+          out[index + 2] = c === 2 ? v : v * 0.3;
+          out[index + 3] = 255;
+        }
+      }
+    }
+  }
+  
+  return output;
+}
+
+/**
+ * Draw the IRE graticule: a line every 10 IRE, labels every 20
+ */
+function drawGraticule(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  mode: ScopeMode
+): void {
+  const plotHeight = height - GRATICULE_PADDING * 2;
+  
+  ctx.save();
+  ctx.font = '8px ui-monospace, monospace';
+  ctx.textBaseline = 'middle';
+  
+  for (let ire = 0; ire <= 100; ire += 10) {
+    const y = Math.round(GRATICULE_PADDING + plotHeight * (1 - ire / 100)) + 0.5;
+    const major = ire === 0 || ire === 50 || ire === 100;
+    ctx.strokeStyle = major ? 'rgba(255, 255, 255, 0.25)' : 'rgba(255, 255, 255, 0.1)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+    ctx.stroke();
+    
+    if (ire % 20 === 0 || ire === 50) {
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.45)';
+      ctx.fillText(String(ire), 2, y);
+    }
+  }
+  
+  // Separators between the parade plots
+  if (mode === 'parade') {
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
+    for (const fraction of [1 / 3, 2 / 3]) {
+      const x = Math.round(width * fraction) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height);
+      ctx.stroke();
+    }
+  }
+  
+  ctx.restore();
+}
+
+/**
+ * Render a waveform scope with its graticule
+ * 
+ * @param ctx - Target context (already scaled to CSS pixels)
+ * @param waveform - Waveform counts
+ * @param width - Width in CSS pixels
+ * @param height - Height in CSS pixels
+ * @param options - Display mode and trace intensity
+ */
+export function renderWaveform(
+  ctx: CanvasRenderingContext2D,
+  waveform: WaveformData,
+  width: number,
+  height: number,
+  options: { mode: ScopeMode; intensity: number }
+): void {
+  const trace = createWaveformImage(waveform, options.mode, options.intensity);
+  const traceCanvas = document.createElement('canvas');
+  traceCanvas.width = trace.width;
+  traceCanvas.height = trace.height;
+  traceCanvas.getContext('2d')?.putImageData(trace, 0, 0);
+  
+  ctx.clearRect(0, 0, width, height);
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(traceCanvas, 0, GRATICULE_PADDING, width, height - GRATICULE_PADDING * 2);
+  drawGraticule(ctx, width, height, options.mode);
+}
+
+// ============================================================================
+// VECTORSCOPE
+// ============================================================================
+
+/**
+ * Rec. 709 chroma of an 8-bit color
+ * 
+ * @returns U (blue difference) and V (red difference), each in -0.5..0.5
+ */
+export function rgbToChroma(r: number, g: number, b: number): { u: number; v: number } {
+  const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  return {
+    u: (b - y) / (255 * 1.8556),
+    v: (r - y) / (255 * 1.5748),
+  };
+}
+
+/**
+ * Count sampled pixels per chroma cell
+ * 
+ * @param imageData - Image to analyze
+ * @param zoom - Magnification; chroma beyond 0.5 / zoom is left out
+ * @param size - Grid resolution
+ * @returns Vectorscope counts
+ */
+export function calculateVectorscope(
+  imageData: ImageData,
+  zoom: number = 1,
+  size: number = 256
+): VectorscopeData {
+  const { data, width, height } = imageData;
+  const step = getSampleStep(width, height);
+  const counts = new Uint32Array(size * size);
+  
+  let samples = 0;
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      const index = (y * width + x) * 4;
+      const { u, v } = rgbToChroma(data[index], data[index + 1], data[index + 2]);
+      samples++;
+      
+      const fx = (u * zoom + 0.5) * size;
+      const fy = (0.5 - v * zoom) * size;
+      if (fx < 0 || fx > size || fy < 0 || fy > size) continue;
+      
+      const cellX = Math.min(size - 1, Math.floor(fx));
+      const cellY = Math.min(size - 1, Math.floor(fy));
+      counts[cellY * size + cellX]++;
+    }
+  }
+  
+  return { size, zoom, samples, counts };
+}
+
+/**
+ * Build the vectorscope trace image (one pixel per chroma cell)
+ * 
+ * Each cell is tinted with the hue it represents, so a cast reads at a
+ * glance; brightness uses the same exponential response as the waveform.
+ * 
+ * @param vectorscope - Vectorscope counts
+ * @param intensity - Trace brightness (0-100, 50 = default)
+ * @returns Image with +V at the top and +U to the right
+ */
+export function createVectorscopeImage(vectorscope: VectorscopeData, intensity: number): ImageData {
+  const { size, zoom, samples, counts } = vectorscope;
+  const output = new ImageData(size, size);
+  const out = output.data;
+  
+  const gain = (VECTOR_TRACE_GAIN * size * size * getIntensityGain(intensity)) / Math.max(1, samples);
+  
+  for (let cellY = 0; cellY < size; cellY++) {
+    const v = (0.5 - (cellY + 0.5) / size) / zoom;
+    for (let cellX = 0; cellX < size; cellX++) {
+      const cell = cellY * size + cellX;
+      const count = counts[cell];
+      const index = cell * 4;
+      out[index + 3] = 255;
+      if (count === 0) continue;
+      
+      // Hue of the cell at mid luma, mixed with white so the trace stays bright
+      const u = ((cellX + 0.5) / size - 0.5) / zoom;
+      const r = clamp(0.5 + 1.5748 * v, 0, 1);
+      const b = clamp(0.5 + 1.8556 * u, 0, 1);
+      const g = clamp((0.5 - 0.2126 * r - 0.0722 * b) / 0.7152, 0, 1);
+      
+      const brightness = 255 * (1 - Math.exp(-count * gain));
+      out[index] = brightness * (0.4 + 0.6 * r);
+      out[index + 1] = brightness * (0.4 + 0.6 * g);
+      out[index + 2] = brightness * (0.4 + 0.6 * b);
+    }
+  }
+  
+  return output;
+}
+
+/**
+ * Square plot area of a vectorscope, centered in the canvas
+ */
+function getVectorscopeLayout(width: number, height: number) {
+  const plotSize = Math.min(width, height);
+  return {
+    left: (width - plotSize) / 2,
+    top: (height - plotSize) / 2,
+    plotSize,
+    centerX: width / 2,
+    centerY: height / 2,
+    radius: plotSize / 2,
+  };
+}
+
+/**
+ * Map a point on a rendered vectorscope back to chroma
+ * 
+ * @param x - Horizontal position in CSS pixels
+ * @param y - Vertical position in CSS pixels
+ * @param width - Scope width in CSS pixels
+ * @param height - Scope height in CSS pixels
+ * @param zoom - Vectorscope magnification
+ * @returns Chroma at the point, or null outside the plot circle
+ */
+export function getVectorscopeChroma(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  zoom: number
+): { u: number; v: number } | null {
+  const { centerX, centerY, radius } = getVectorscopeLayout(width, height);
+  const dx = (x - centerX) / radius;
+  const dy = (centerY - y) / radius;
+  if (dx * dx + dy * dy > 1) return null;
+  
+  return { u: (dx * 0.5) / zoom, v: (dy * 0.5) / zoom };
+}
+
+/**
+ * Draw the vectorscope graticule: boundary circle, crosshair, 75% color
+ * targets and the skin-tone line
+ */
+function drawVectorscopeGraticule(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  zoom: number,
+  selection: ChromaSelection | null
+): void {
+  const { centerX, centerY, radius } = getVectorscopeLayout(width, height);
+  const scale = (radius * zoom) / 0.5;
+  
+  ctx.save();
+  ctx.lineWidth = 1;
+  
+  // Boundary and crosshair
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, radius - 0.5, 0, Math.PI * 2);
+  ctx.moveTo(centerX - radius, centerY);
+  ctx.lineTo(centerX + radius, centerY);
+  ctx.moveTo(centerX, centerY - radius);
+  ctx.lineTo(centerX, centerY + radius);
+  ctx.stroke();
+  
+  // Skin-tone line
+  const angle = (SKIN_TONE_ANGLE * Math.PI) / 180;
+  ctx.strokeStyle = 'rgba(251, 191, 36, 0.5)';
+  ctx.beginPath();
+  ctx.moveTo(centerX, centerY);
+  ctx.lineTo(centerX + Math.cos(angle) * radius, centerY - Math.sin(angle) * radius);
+  ctx.stroke();
+  
+  // Color targets (hidden once zoomed past the plot edge)
+  ctx.font = '8px ui-monospace, monospace';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  for (const { label, rgb } of VECTOR_TARGETS) {
+    const { u, v } = rgbToChroma(rgb[0], rgb[1], rgb[2]);
+    const x = centerX + u * scale;
+    const y = centerY - v * scale;
+    const distance = Math.hypot(x - centerX, y - centerY);
+    if (distance > radius - 6) continue;
+    
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+    ctx.strokeRect(Math.round(x - 4) + 0.5, Math.round(y - 4) + 0.5, 8, 8);
+    
+    // Label just outside the box, away from the center
+    const labelOffset = 11 / Math.max(1, distance);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.45)';
+    ctx.fillText(label, x + (x - centerX) * labelOffset, y + (y - centerY) * labelOffset);
+  }
+  
+  // Selected chroma region
+  if (selection) {
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.setLineDash([3, 2]);
+    ctx.beginPath();
+    ctx.arc(
+      centerX + selection.u * scale,
+      centerY - selection.v * scale,
+      Math.max(2, selection.radius * scale),
+      0,
+      Math.PI * 2
+    );
+    ctx.stroke();
+  }
+  
+  ctx.restore();
+}
+
+/**
+ * Render a vectorscope with its graticule
+ * 
+ * @param ctx - Target context (already scaled to CSS pixels)
+ * @param vectorscope - Vectorscope counts
+ * @param width - Width in CSS pixels
+ * @param height - Height in CSS pixels
+ * @param options - Trace intensity and the highlighted chroma region
+ */
+export function renderVectorscope(
+  ctx: CanvasRenderingContext2D,
+  vectorscope: VectorscopeData,
+  width: number,
+  height: number,
+  options: { intensity: number; selection: ChromaSelection | null }
+): void {
+  const trace = createVectorscopeImage(vectorscope, options.intensity);
+  const traceCanvas = document.createElement('canvas');
+  traceCanvas.width = trace.width;
+  traceCanvas.height = trace.height;
+  traceCanvas.getContext('2d')?.putImageData(trace, 0, 0);
+  
+  const { left, top, plotSize, centerX, centerY, radius } = getVectorscopeLayout(width, height);
+  
+  ctx.clearRect(0, 0, width, height);
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+  ctx.clip();
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(traceCanvas, left, top, plotSize, plotSize);
+  ctx.restore();
+  
+  drawVectorscopeGraticule(ctx, width, height, vectorscope.zoom, options.selection);
+}
+
+// ============================================================================
+// PIXEL MASKS
+// ============================================================================
+
+/**
+ * Mark pixels whose chroma falls inside a vectorscope selection
+ * 
+ * @param imageData - Image to test
+ * @param selection - Chroma center and radius
+ * @returns One byte per pixel: 1 inside the selection, 0 outside
+ */
+export function createChromaSelectionMask(imageData: ImageData, selection: ChromaSelection): Uint8Array {
+  const { data, width, height } = imageData;
+  const mask = new Uint8Array(width * height);
+  const radiusSq = selection.radius * selection.radius;
+  
+  for (let i = 0; i < mask.length; i++) {
+    const index = i * 4;
+    const { u, v } = rgbToChroma(data[index], data[index + 1], data[index + 2]);
+    const du = u - selection.u;
+    const dv = v - selection.v;
+    if (du * du + dv * dv <= radiusSq) mask[i] = 1;
+  }
+  
+  return mask;
+}
+
+/**
+ * Mark pixels in the skin-tone range used by skin protection
+ * 
+ * @param imageData - Image to test
+ * @returns One byte per pixel: 1 for skin tones, 0 otherwise
+ */
+export function createSkinToneMask(imageData: ImageData): Uint8Array {
+  const { data, width, height } = imageData;
+  const mask = new Uint8Array(width * height);
+  
+  for (let i = 0; i < mask.length; i++) {
+    const index = i * 4;
+    const { h, s } = rgbToHsl({
+      r: data[index] / 255,
+      g: data[index + 1] / 255,
+      b: data[index + 2] / 255,
+    });
+    if (s >= SKIN_MIN_SATURATION && isSkinTone(h, s)) mask[i] = 1;
+  }
+  
+  return mask;
+}
@@ -5,9 +5,11 @@
  * - Crop with normalized coordinates
  * - Rotation with bilinear interpolation
  * - Flip horizontal/vertical
+ * - Crop box geometry for the interactive crop tool
+ * - Point mapping between the original and the transformed frame
  */
 
-import type { TransformAdjustments } from '@/types';
+import type { MaskPoint, TransformAdjustments } from '@/types';
 import { clamp } from '@/utils/colorspace';
 
 /**
@@ -185,6 +187,25 @@ export function flipVertical(source: ImageData): ImageData {
   return output;
 }
 
+/**
+ * Wrap an angle into the -180 to 180 degree range used by TransformAdjustments
+ */
+export function normalizeRotation(degrees: number): number {
+  const wrapped = ((((degrees + 180) % 360) + 360) % 360) - 180;
+  return wrapped === -180 ? 180 : wrapped;
+}
+
+/**
+ * Check whether a transform leaves the image untouched
+ */
+export function isIdentityTransform(transform: TransformAdjustments): boolean {
+  const { crop } = transform;
+  return transform.rotation === 0 &&
+    !transform.flipHorizontal &&
+    !transform.flipVertical &&
+    crop.x === 0 && crop.y === 0 && crop.width === 1 && crop.height === 1;
+}
+
 /**
  * Apply all transforms to an image
  */
@@ -216,6 +237,256 @@ export function applyTransforms(
   return result;
 }
 
+// ============================================================================
+// POINT MAPPING
+// ============================================================================
+
+/**
+ * Pixel geometry of applyTransforms for an image size
+ */
+function getTransformGeometry(transform: TransformAdjustments, width: number, height: number) {
+  const radians = (transform.rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  
+  // Same sizes and rounding as rotateImage and cropImage
+  const rotatedWidth = transform.rotation === 0
+    ? width
+    : Math.ceil(width * Math.abs(cos) + height * Math.abs(sin));
+  const rotatedHeight = transform.rotation === 0
+    ? height
+    : Math.ceil(width * Math.abs(sin) + height * Math.abs(cos));
+  
+  const { crop } = transform;
+  const cropX = clamp(Math.round(crop.x * rotatedWidth), 0, rotatedWidth);
+  const cropY = clamp(Math.round(crop.y * rotatedHeight), 0, rotatedHeight);
+  const cropWidth = clamp(Math.round(crop.width * rotatedWidth), 1, rotatedWidth - cropX);
+  const cropHeight = clamp(Math.round(crop.height * rotatedHeight), 1, rotatedHeight - cropY);
+  
+  return { cos, sin, rotatedWidth, rotatedHeight, cropX, cropY, cropWidth, cropHeight };
+}
+
+/**
+ * Map a point of the original image to the transformed output
+ * 
+ * @param point - Normalized (0-1) position in the original
+ * @param transform - Geometry applied by applyTransforms
+ * @param width - Original width in pixels
+ * @param height - Original height in pixels
+ * @returns Normalized position in the output (outside 0-1 when cropped away)
+ */
+export function mapToTransformed(
+  point: MaskPoint,
+  transform: TransformAdjustments,
+  width: number,
+  height: number
+): MaskPoint {
+  const g = getTransformGeometry(transform, width, height);
+  const dx = point.x * width - width / 2;
+  const dy = point.y * height - height / 2;
+  
+  let x = g.cos * dx - g.sin * dy + g.rotatedWidth / 2;
+  let y = g.sin * dx + g.cos * dy + g.rotatedHeight / 2;
+  if (transform.flipHorizontal) x = g.rotatedWidth - x;
+  if (transform.flipVertical) y = g.rotatedHeight - y;
+  
+  return {
+    x: (x - g.cropX) / g.cropWidth,
+    y: (y - g.cropY) / g.cropHeight,
+  };
+}
+
+/**
+ * Map a point of the transformed output back to the original image
+ * 
+ * Inverse of mapToTransformed.
+ */
+export function mapToOriginal(
+  point: MaskPoint,
+  transform: TransformAdjustments,
+  width: number,
+  height: number
+): MaskPoint {
+  const g = getTransformGeometry(transform, width, height);
+  let x = g.cropX + point.x * g.cropWidth;
+  let y = g.cropY + point.y * g.cropHeight;
+  if (transform.flipHorizontal) x = g.rotatedWidth - x;
+  if (transform.flipVertical) y = g.rotatedHeight - y;
+  
+  const dx = x - g.rotatedWidth / 2;
+  const dy = y - g.rotatedHeight / 2;
+  return {
+    x: (g.cos * dx + g.sin * dy + width / 2) / width,
+    y: (-g.sin * dx + g.cos * dy + height / 2) / height,
+  };
+}
+
+// ============================================================================
+// CROP GEOMETRY (interactive crop tool)
+// ============================================================================
+
+/** Crop rectangle in normalized frame coordinates (0-1) */
+export type CropRect = Omit<TransformAdjustments['crop'], 'aspectRatio'>;
+
+/** Part of the crop box being dragged */
+export type CropHandle = 'move' | 'n' | 's' | 'e' | 'w' | 'nw' | 'ne' | 'sw' | 'se';
+
+/** Smallest crop edge, as a fraction of the frame */
+const MIN_CROP_SIZE = 0.05;
+
+/**
+ * Convert a pixel aspect ratio (width / height) to normalized units
+ * 
+ * @param ratio - Pixel aspect ratio
+ * @param frameWidth - Frame width in pixels
+ * @param frameHeight - Frame height in pixels
+ * @returns Ratio of normalized width to normalized height
+ */
+export function toNormalizedAspect(ratio: number, frameWidth: number, frameHeight: number): number {
+  return ratio * frameHeight / frameWidth;
+}
+
+/**
+ * Largest crop with the given aspect that fits the frame,
+ * centered on the current crop where possible
+ * 
+ * @param crop - Current crop
+ * @param aspect - Normalized aspect (see toNormalizedAspect)
+ * @returns Crop with the requested aspect
+ */
+export function fitCropToAspect(crop: CropRect, aspect: number): CropRect {
+  let width = 1;
+  let height = 1 / aspect;
+  if (height > 1) {
+    height = 1;
+    width = aspect;
+  }
+  
+  const cx = crop.x + crop.width / 2;
+  const cy = crop.y + crop.height / 2;
+  
+  return {
+    x: clamp(cx - width / 2, 0, 1 - width),
+    y: clamp(cy - height / 2, 0, 1 - height),
+    width,
+    height,
+  };
+}
+
+/**
+ * Move or resize a crop by a pointer delta
+ * 
+ * Edges are clamped to the frame. With an aspect lock, corner drags
+ * keep the opposite corner fixed, and edge drags grow the other
+ * dimension symmetrically around the box center.
+ * 
+ * @param start - Crop when the drag started
+ * @param handle - Handle being dragged
+ * @param dx - Horizontal pointer delta (normalized)
+ * @param dy - Vertical pointer delta (normalized)
+ * @param aspect - Normalized aspect to keep, or null for free
+ * @returns Updated crop
+ */
+export function adjustCrop(
+  start: CropRect,
+  handle: CropHandle,
+  dx: number,
+  dy: number,
+  aspect: number | null
+): CropRect {
+  if (handle === 'move') {
+    return {
+      ...start,
+      x: clamp(start.x + dx, 0, 1 - start.width),
+      y: clamp(start.y + dy, 0, 1 - start.height),
+    };
+  }
+  
+  let left = start.x;
+  let top = start.y;
+  let right = start.x + start.width;
+  let bottom = start.y + start.height;
+  
+  if (handle.includes('w')) left = clamp(left + dx, 0, right - MIN_CROP_SIZE);
+  if (handle.includes('e')) right = clamp(right + dx, left + MIN_CROP_SIZE, 1);
+  if (handle.includes('n')) top = clamp(top + dy, 0, bottom - MIN_CROP_SIZE);
+  if (handle.includes('s')) bottom = clamp(bottom + dy, top + MIN_CROP_SIZE, 1);
+  
+  if (aspect === null) {
+    return { x: left, y: top, width: right - left, height: bottom - top };
+  }
+  
+  let width = right - left;
+  let height = bottom - top;
+  
+  if (handle.length === 2) {
+    // Corner: shrink whichever side is too long, anchored at the opposite corner
+    if (width / height > aspect) {
+      width = height * aspect;
+    } else {
+      height = width / aspect;
+    }
+    return {
+      x: handle.includes('w') ? right - width : left,
+      y: handle.includes('n') ? bottom - height : top,
+      width,
+      height,
+    };
+  }
+  
+  if (handle === 'e' || handle === 'w') {
+    // Horizontal edge drag: height follows, centered vertically
+    const cy = start.y + start.height / 2;
+    const maxHeight = 2 * Math.min(cy, 1 - cy);
+    height = Math.min(width / aspect, maxHeight);
+    width = height * aspect;
+    return {
+      x: handle === 'w' ? right - width : left,
+      y: cy - height / 2,
+      width,
+      height,
+    };
+  }
+  
+  // Vertical edge drag: width follows, centered horizontally
+  const cx = start.x + start.width / 2;
+  const maxWidth = 2 * Math.min(cx, 1 - cx);
+  width = Math.min(height * aspect, maxWidth);
+  height = width / aspect;
+  return {
+    x: cx - width / 2,
+    y: handle === 'n' ? bottom - height : top,
+    width,
+    height,
+  };
+}
+
+/**
+ * Rotation change that levels a line drawn on the displayed frame
+ * 
+ * Lines closer to vertical are made vertical, others horizontal.
+ * Flips are applied after rotation, so each flip mirrors the angle.
+ * 
+ * @param dx - Line horizontal extent in pixels
+ * @param dy - Line vertical extent in pixels (down is positive)
+ * @param transform - Current transform (for flip state)
+ * @returns Degrees to add to transform.rotation
+ */
+export function getStraightenCorrection(
+  dx: number,
+  dy: number,
+  transform: TransformAdjustments
+): number {
+  let angle = (Math.atan2(dy, dx) * 180) / Math.PI;
+  
+  // Fold into -45..45 around the nearest horizontal or vertical axis
+  angle = ((angle % 90) + 90) % 90;
+  if (angle > 45) angle -= 90;
+  
+  const mirrored = transform.flipHorizontal !== transform.flipVertical;
+  return mirrored ? angle : -angle;
+}
+
 /**
  * Clone ImageData
  */
@@ -0,0 +1,152 @@
+/**
+ * APEX Photo Studio - Image Processor Hook
+ * 
+ * Connects the global store to the background processing service:
+ * - Uploads the original image to the worker when it changes
+ * - Uploads image layer pixels when layers are added or removed
+ * - Uploads color LUT tables when the library changes
+ * - Requests a render whenever adjustments change
+ * - Writes finished renders back with setProcessedImage
+ * - Returns the last render error until a render succeeds again
+ * 
+ * When the store has a preview proxy, each change renders the proxy
+ * first and the original once edits pause for REFINE_DELAY ms.
+ * 
+ * With fullFrame set, the crop is ignored so the crop tool can show
+ * the whole (rotated and flipped) frame around the crop box.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useImageStore } from '@/hooks/useImageStore';
+import { createProcessingService, type ProcessingService } from '@/engine/processingService';
+import type { CubeLut } from '@/engine/lut';
+import { DEFAULT_TRANSFORM_ADJUSTMENTS, type AdjustmentSettings } from '@/types';
+
+/** Pause (ms) after the last change before rendering at full resolution */
+const REFINE_DELAY = 300;
+
+interface ImageProcessorOptions {
+  /** Render without the crop (rotation and flips still apply) */
+  fullFrame?: boolean;
+}
+
+export function useImageProcessor({ fullFrame = false }: ImageProcessorOptions = {}): string | null {
+  const serviceRef = useRef<ProcessingService | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  
+  const proxyScaleRef = useRef(1);
+  /** Layer pixels the worker currently holds */
+  const uploadedLayersRef = useRef<Record<string, ImageData>>({});
+  /** LUT tables the worker currently holds */
+  const uploadedLutsRef = useRef<Record<string, CubeLut>>({});
+  /** Settings last sent for a full-resolution render of the current original */
+  const refinedRef = useRef<AdjustmentSettings | null>(null);
+  
+  const original = useImageStore(state => state.image.original);
+  const proxy = useImageStore(state => state.image.proxy);
+  const proxyScale = useImageStore(state => state.image.proxyScale);
+  const layerImages = useImageStore(state => state.image.layerImages);
+  const luts = useImageStore(state => state.luts);
+  const adjustments = useImageStore(state => state.adjustments);
+  const setProcessedImage = useImageStore(state => state.setProcessedImage);
+  
+  const settings = useMemo(() => {
+    if (!fullFrame) return adjustments;
+    return {
+      ...adjustments,
+      transform: { ...adjustments.transform, crop: DEFAULT_TRANSFORM_ADJUSTMENTS.crop },
+    };
+  }, [adjustments, fullFrame]);
+  
+  // Worker lifetime follows the component using the hook
+  useEffect(() => {
+    const service = createProcessingService((result, level) => {
+      setError(null);
+      if (level === 'full') {
+        setProcessedImage(result, 1);
+      } else if (proxyScaleRef.current < 1) {
+        // Proxy renders that finish after the proxy was dropped are stale
+        setProcessedImage(result, proxyScaleRef.current);
+      }
+    }, setError);
+    serviceRef.current = service;
+    uploadedLayersRef.current = {};
+    uploadedLutsRef.current = {};
+    
+    return () => {
+      service.dispose();
+      serviceRef.current = null;
+    };
+  }, [setProcessedImage]);
+  
+  // Upload new source images
+  useEffect(() => {
+    if (!original) return;
+    refinedRef.current = null;
+    serviceRef.current?.setSource(original);
+  }, [original]);
+  
+  // Upload the preview proxy; results from a previous proxy are dropped
+  useEffect(() => {
+    proxyScaleRef.current = proxy ? proxyScale : 1;
+    if (!proxy) return;
+    serviceRef.current?.setSource(proxy, 'proxy', proxyScale);
+  }, [proxy, proxyScale]);
+  
+  // Upload changed layer pixels; must run before the render request below
+  useEffect(() => {
+    const service = serviceRef.current;
+    if (!service) return;
+    
+    const uploaded = uploadedLayersRef.current;
+    for (const [id, image] of Object.entries(layerImages)) {
+      if (uploaded[id] !== image) service.setLayerSource(id, image);
+    }
+    for (const id of Object.keys(uploaded)) {
+      if (!layerImages[id]) service.setLayerSource(id, null);
+    }
+    uploadedLayersRef.current = layerImages;
+  }, [layerImages]);
+  
+  // Upload changed LUT tables; a LUT the settings already name may only
+  // now become available, so the next render must not be skipped
+  useEffect(() => {
+    const service = serviceRef.current;
+    if (!service) return;
+    
+    const uploaded = uploadedLutsRef.current;
+    for (const [id, lut] of Object.entries(luts)) {
+      if (uploaded[id] !== lut) service.setLut(id, lut);
+    }
+    for (const id of Object.keys(uploaded)) {
+      if (!luts[id]) service.setLut(id, null);
+    }
+    uploadedLutsRef.current = luts;
+    refinedRef.current = null;
+  }, [luts]);
+  
+  // Re-render when adjustments change: proxy now, full resolution on pause
+  useEffect(() => {
+    const service = serviceRef.current;
+    if (!original || !service) return;
+    
+    // A zoom that only swaps the proxy keeps the full render on screen
+    if (settings === refinedRef.current) return;
+    
+    const refine = () => {
+      refinedRef.current = settings;
+      service.process(settings);
+    };
+    
+    if (!proxy) {
+      refine();
+      return;
+    }
+    
+    service.process(settings, 'proxy');
+    const timer = setTimeout(refine, REFINE_DELAY);
+    return () => clearTimeout(timer);
+  }, [settings, original, proxy, luts]);
+  
+  return error;
+}
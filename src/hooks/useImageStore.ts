@@ -2,8 +2,9 @@
  * APEX Photo Studio - Global State Management
  * 
  * Zustand store for managing application state including:
- * - Current image data (original and processed)
+ * - Current image data (original, preview proxy, processed and layer pixels)
  * - Adjustment settings
+ * - Color LUT library (tables referenced by id from the adjustments)
  * - UI state (mode, zoom, overlays)
  * - History for undo/redo
  */
@@ -14,13 +15,27 @@ import type {
   AdjustmentSettings, 
   UIState, 
   CameraSettings,
-  HistogramData
+  ColorGradingAdjustments,
+  HistogramData,
+  Layer,
+  SplitToningAdjustments
 } from '@/types';
+import { getProxyScale, createProxy } from '@/engine/previewProxy';
+import { splitToningToColorGrading } from '@/engine/adjustments';
+import type { CubeLut } from '@/engine/lut';
 
 interface ImageState {
   original: ImageData | null;
   processed: ImageData | null;
   fileName: string | null;
+  /** Downscaled original for interactive renders; null when the original fits the viewport */
+  proxy: ImageData | null;
+  /** Proxy size relative to the original (1 without a proxy) */
+  proxyScale: number;
+  /** Size of processed relative to a full-resolution render (1 = full resolution) */
+  processedScale: number;
+  /** Pixels of image layers, by layer id */
+  layerImages: Record<string, ImageData>;
 }
 
 interface HistoryEntry {
@@ -32,7 +47,8 @@ interface ImageStore {
   // Image state
   image: ImageState;
   setOriginalImage: (data: ImageData, fileName?: string) => void;
-  setProcessedImage: (data: ImageData) => void;
+  setProcessedImage: (data: ImageData, scale?: number) => void;
+  setLayerImage: (layerId: string, data: ImageData | null) => void;
   clearImage: () => void;
   
   // Adjustments
@@ -40,6 +56,12 @@ interface ImageStore {
   setAdjustments: (adjustments: Partial<AdjustmentSettings>) => void;
   resetAdjustments: () => void;
   
+  // LUT library (not part of history; adjustments refer to entries by id)
+  luts: Record<string, CubeLut>;
+  setLuts: (luts: Record<string, CubeLut>) => void;
+  addLut: (id: string, lut: CubeLut) => void;
+  removeLut: (id: string) => void;
+  
   // UI State
   ui: UIState;
   setUIState: (state: Partial<UIState>) => void;
@@ -77,6 +99,17 @@ const defaultAdjustments: AdjustmentSettings = {
     vibrance: 0,
     saturation: 0,
   },
+  calibration: {
+    red: { hue: 0, saturation: 0 },
+    green: { hue: 0, saturation: 0 },
+    blue: { hue: 0, saturation: 0 },
+  },
+  channelMixer: {
+    red: { red: 100, green: 0, blue: 0, constant: 0 },
+    green: { red: 0, green: 100, blue: 0, constant: 0 },
+    blue: { red: 0, green: 0, blue: 100, constant: 0 },
+    monochrome: false,
+  },
   detail: {
     clarity: 0,
     sharpness: 0,
@@ -93,6 +126,12 @@ const defaultAdjustments: AdjustmentSettings = {
     purple: { hue: 0, saturation: 0, luminance: 0 },
     magenta: { hue: 0, saturation: 0, luminance: 0 },
   },
+  blackAndWhite: {
+    enabled: false,
+    mix: { red: 0, orange: 0, yellow: 0, green: 0, cyan: 0, blue: 0, purple: 0, magenta: 0 },
+    toningHue: 0,
+    toningSaturation: 0,
+  },
   curves: {
     rgb: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
     red: [{ x: 0, y: 0 }, { x: 255, y: 255 }],
@@ -109,15 +148,21 @@ const defaultAdjustments: AdjustmentSettings = {
     grainSize: 25,
     grainRoughness: 50,
     grainMonochrome: true,
+    grainSeed: 0,
     dehaze: 0,
   },
-  splitToning: {
-    highlightHue: 0,
-    highlightSaturation: 0,
-    shadowHue: 0,
-    shadowSaturation: 0,
+  colorGrading: {
+    shadows: { hue: 0, saturation: 0, luminance: 0 },
+    midtones: { hue: 0, saturation: 0, luminance: 0 },
+    highlights: { hue: 0, saturation: 0, luminance: 0 },
+    global: { hue: 0, saturation: 0, luminance: 0 },
+    blending: 50,
     balance: 0,
   },
+  lut: {
+    id: null,
+    amount: 100,
+  },
   transform: {
     crop: { x: 0, y: 0, width: 1, height: 1, aspectRatio: null },
     rotation: 0,
@@ -128,6 +173,10 @@ const defaultAdjustments: AdjustmentSettings = {
     distortion: 0,
     chromaticAberration: { redCyan: 0, blueYellow: 0 },
   },
+  processingMode: 'gamma',
+  masks: [],
+  spots: [],
+  layers: [],
 };
 
 const defaultUI: UIState = {
@@ -137,10 +186,39 @@ const defaultUI: UIState = {
   comparisonMode: 'off',
   comparisonPosition: 0.5,
   showHistogram: true,
+  showScopes: false,
+  scopeMode: 'luma',
+  scopeIntensity: 50,
+  scopeZoom: 1,
+  chromaSelection: null,
+  showSkinTones: false,
   showZebras: false,
   zebraThreshold: { high: 250, low: 5 },
+  zebraHighlights: true,
+  zebraShadows: true,
+  showFalseColor: false,
+  falseColorPalette: 'standard',
+  falseColorBands: [],
+  showSharpnessMap: false,
   gridType: 'none',
   activePanel: 'basic',
+  isCropping: false,
+  activeMaskId: null,
+  maskTool: null,
+  brush: {
+    size: 100,
+    feather: 50,
+    flow: 50,
+    density: 100,
+    erase: false,
+    autoMask: false,
+  },
+  showMaskOverlay: false,
+  spotTool: null,
+  spotSize: 40,
+  activeSpotId: null,
+  activeLayerId: null,
+  viewportSize: { width: 0, height: 0 },
 };
 
 const defaultCamera: CameraSettings = {
@@ -151,41 +229,159 @@ const defaultCamera: CameraSettings = {
   whiteBalance: 'auto',
   exposureCompensation: 0,
   focusMode: 'auto',
+  focusPeaking: false,
+  focusPeakingColor: 'red',
+  focusPeakingSensitivity: 50,
   timer: 0,
   burstCount: 1,
   bracketingEV: 0,
 };
 
+const emptyImage: ImageState = {
+  original: null,
+  processed: null,
+  fileName: null,
+  proxy: null,
+  proxyScale: 1,
+  processedScale: 1,
+  layerImages: {},
+};
+
+/** Settings saved before color grading replaced split toning */
+type LegacySettings<T> = T & { splitToning?: Partial<SplitToningAdjustments> };
+
+/** Neutral split toning; fills in fields missing from saved settings */
+const defaultSplitToning: SplitToningAdjustments = {
+  highlightHue: 0,
+  highlightSaturation: 0,
+  shadowHue: 0,
+  shadowSaturation: 0,
+  balance: 0,
+};
+
+/**
+ * Replace legacy split toning with the equivalent color grading
+ * Color grading passed alongside it wins; the split toning is then dropped.
+ */
+function migrateSplitToning<T extends { colorGrading?: ColorGradingAdjustments }>(
+  settings: LegacySettings<T>
+): T {
+  if (!settings.splitToning) return settings;
+  
+  const migrated: LegacySettings<T> = {
+    ...settings,
+    colorGrading: settings.colorGrading
+      ?? splitToningToColorGrading({ ...defaultSplitToning, ...settings.splitToning }),
+  };
+  delete migrated.splitToning;
+  return migrated;
+}
+
+/**
+ * Bring settings from earlier versions (including adjustment layers) up to date
+ */
+function migrateAdjustments(settings: Partial<AdjustmentSettings>): Partial<AdjustmentSettings> {
+  const migrated = migrateSplitToning(settings);
+  if (!migrated.layers?.some(layer => layer.type === 'adjustment' && 'splitToning' in layer.adjustments)) {
+    return migrated;
+  }
+  
+  return {
+    ...migrated,
+    layers: migrated.layers.map((layer): Layer => layer.type === 'adjustment'
+      ? { ...layer, adjustments: migrateSplitToning(layer.adjustments) }
+      : layer),
+  };
+}
+
+/**
+ * Drop image-layer pixels no longer referenced by the adjustments or history
+ * Deleted layers keep their pixels while undo can still bring them back.
+ */
+function pruneLayerImages(
+  layerImages: Record<string, ImageData>,
+  settings: AdjustmentSettings[]
+): Record<string, ImageData> {
+  const referenced = new Set(settings.flatMap(s => s.layers.map(layer => layer.id)));
+  const ids = Object.keys(layerImages);
+  if (ids.every(id => referenced.has(id))) return layerImages;
+  
+  const pruned: Record<string, ImageData> = {};
+  for (const id of ids) {
+    if (referenced.has(id)) pruned[id] = layerImages[id];
+  }
+  return pruned;
+}
+
+/**
+ * Rebuild the preview proxy when the viewport or zoom needs a different level
+ */
+function updateProxy(image: ImageState, ui: UIState): ImageState {
+  if (!image.original) return image;
+  
+  const { width, height } = image.original;
+  const scale = getProxyScale(
+    width,
+    height,
+    ui.viewportSize.width,
+    ui.viewportSize.height,
+    ui.zoom,
+    typeof window === 'undefined' ? 1 : window.devicePixelRatio || 1
+  );
+  
+  if (scale === image.proxyScale && (scale === 1 || image.proxy)) return image;
+  
+  return {
+    ...image,
+    proxy: scale < 1 ? createProxy(image.original, scale) : null,
+    proxyScale: scale,
+  };
+}
+
 export const useImageStore = create<ImageStore>()(
   subscribeWithSelector((set, get) => ({
     // Image state
-    image: {
-      original: null,
-      processed: null,
-      fileName: null,
-    },
+    image: { ...emptyImage },
     
     setOriginalImage: (data: ImageData, fileName?: string) => {
-      set({
-        image: {
+      set((state) => ({
+        image: updateProxy({
+          ...emptyImage,
           original: data,
           processed: data,
           fileName: fileName || null,
-        },
+          // Layers are part of the adjustments, which outlive the original;
+          // deleted layers can't come back once the history is cleared
+          layerImages: pruneLayerImages(state.image.layerImages, [state.adjustments]),
+        }, state.ui),
+        // A crop in progress belongs to the previous image
+        ui: { ...state.ui, isCropping: false },
         history: [],
         historyIndex: -1,
-      });
+      }));
     },
     
-    setProcessedImage: (data: ImageData) => {
+    setProcessedImage: (data: ImageData, scale = 1) => {
       set((state) => ({
-        image: { ...state.image, processed: data },
+        image: { ...state.image, processed: data, processedScale: scale },
       }));
     },
     
+    setLayerImage: (layerId: string, data: ImageData | null) => {
+      set((state) => {
+        const layerImages = { ...state.image.layerImages };
+        if (data) {
+          layerImages[layerId] = data;
+        } else {
+          delete layerImages[layerId];
+        }
+        return { image: { ...state.image, layerImages } };
+      });
+    },
+    
     clearImage: () => {
       set({
-        image: { original: null, processed: null, fileName: null },
+        image: { ...emptyImage },
         adjustments: { ...defaultAdjustments },
         history: [],
         historyIndex: -1,
@@ -195,18 +391,23 @@ export const useImageStore = create<ImageStore>()(
     // Adjustments
     adjustments: { ...defaultAdjustments },
     
-    setAdjustments: (newAdjustments: Partial<AdjustmentSettings>) => {
+    setAdjustments: (changes: Partial<AdjustmentSettings>) => {
+      const newAdjustments = migrateAdjustments(changes);
       set((state) => ({
         adjustments: {
           ...state.adjustments,
           ...newAdjustments,
           basic: { ...state.adjustments.basic, ...newAdjustments.basic },
           color: { ...state.adjustments.color, ...newAdjustments.color },
+          calibration: { ...state.adjustments.calibration, ...newAdjustments.calibration },
+          channelMixer: { ...state.adjustments.channelMixer, ...newAdjustments.channelMixer },
           detail: { ...state.adjustments.detail, ...newAdjustments.detail },
           hsl: { ...state.adjustments.hsl, ...newAdjustments.hsl },
+          blackAndWhite: { ...state.adjustments.blackAndWhite, ...newAdjustments.blackAndWhite },
           curves: { ...state.adjustments.curves, ...newAdjustments.curves },
           effects: { ...state.adjustments.effects, ...newAdjustments.effects },
-          splitToning: { ...state.adjustments.splitToning, ...newAdjustments.splitToning },
+          colorGrading: { ...state.adjustments.colorGrading, ...newAdjustments.colorGrading },
+          lut: { ...state.adjustments.lut, ...newAdjustments.lut },
           transform: { 
             ...state.adjustments.transform, 
             ...newAdjustments.transform,
@@ -231,13 +432,33 @@ export const useImageStore = create<ImageStore>()(
       set({ adjustments: { ...defaultAdjustments } });
     },
     
+    // LUT library
+    luts: {},
+    
+    setLuts: (luts: Record<string, CubeLut>) => {
+      set({ luts });
+    },
+    
+    addLut: (id: string, lut: CubeLut) => {
+      set((state) => ({ luts: { ...state.luts, [id]: lut } }));
+    },
+    
+    removeLut: (id: string) => {
+      set((state) => {
+        const luts = { ...state.luts };
+        delete luts[id];
+        return { luts };
+      });
+    },
+    
     // UI State
     ui: { ...defaultUI },
     
     setUIState: (newState: Partial<UIState>) => {
-      set((state) => ({
-        ui: { ...state.ui, ...newState },
-      }));
+      set((state) => {
+        const ui = { ...state.ui, ...newState };
+        return { ui, image: updateProxy(state.image, ui) };
+      });
     },
     
     // Camera
@@ -261,7 +482,7 @@ export const useImageStore = create<ImageStore>()(
     historyIndex: -1,
     
     pushHistory: () => {
-      const { adjustments, history, historyIndex } = get();
+      const { adjustments, history, historyIndex, image } = get();
       const newHistory = history.slice(0, historyIndex + 1);
       newHistory.push({
         adjustments: JSON.parse(JSON.stringify(adjustments)),
@@ -273,9 +494,16 @@ export const useImageStore = create<ImageStore>()(
         newHistory.shift();
       }
       
+      // Entries past the index and beyond the limit are gone for good
+      const layerImages = pruneLayerImages(
+        image.layerImages,
+        [adjustments, ...newHistory.map(entry => entry.adjustments)]
+      );
+      
       set({
         history: newHistory,
         historyIndex: newHistory.length - 1,
+        image: layerImages === image.layerImages ? image : { ...image, layerImages },
       });
     },
     
@@ -47,6 +47,51 @@ export interface ColorAdjustments {
   saturation: number;
 }
 
+/**
+ * Camera calibration: moves the red, green and blue primaries
+ * 
+ * Each primary's hue turns towards its neighbour (red towards yellow,
+ * green towards cyan, blue towards magenta for positive values) and its
+ * saturation scales; neutrals stay neutral.
+ */
+export interface CalibrationPrimary {
+  hue: number;        // -100 to +100
+  saturation: number; // -100 to +100
+}
+
+export interface CalibrationAdjustments {
+  red: CalibrationPrimary;
+  green: CalibrationPrimary;
+  blue: CalibrationPrimary;
+}
+
+export type RGBChannelName = keyof CalibrationAdjustments;
+
+/**
+ * One output channel of the channel mixer as a weighted sum of the inputs
+ */
+export interface ChannelMixerOutput {
+  /** Input weights in percent (-200 to +200) */
+  red: number;
+  green: number;
+  blue: number;
+  /** Offset added to the output (-100 to +100) */
+  constant: number;
+}
+
+/**
+ * RGB channel mixer
+ * 
+ * With monochrome on, the red output row is used for all three
+ * channels and acts as the gray mix.
+ */
+export interface ChannelMixerAdjustments {
+  red: ChannelMixerOutput;
+  green: ChannelMixerOutput;
+  blue: ChannelMixerOutput;
+  monochrome: boolean;
+}
+
 /**
  * Detail and sharpening adjustments
  */
@@ -82,6 +127,22 @@ export interface HSLAdjustments {
   magenta: HSLChannel;
 }
 
+export type HSLChannelName = keyof HSLAdjustments;
+
+/**
+ * Black & white conversion with a per-hue mix
+ * 
+ * When enabled it replaces the HSL and vibrance/saturation stages.
+ */
+export interface BlackAndWhiteAdjustments {
+  enabled: boolean;
+  /** Brightness of each hue range in the gray result (-100 to +100) */
+  mix: Record<HSLChannelName, number>;
+  /** Tint of the gray result */
+  toningHue: number;        // 0 to 360
+  toningSaturation: number; // 0 to 100
+}
+
 /**
  * Tone curve control point
  */
@@ -149,12 +210,17 @@ export interface EffectAdjustments {
   grainRoughness: number;
   /** Monochrome grain */
   grainMonochrome: boolean;
+  /** Grain pattern seed (unsigned 32-bit integer); same seed, same grain */
+  grainSeed: number;
   /** Dehaze strength (-100 to +100) */
   dehaze: number;
 }
 
 /**
  * Split toning for shadows and highlights
+ * 
+ * Superseded by ColorGradingAdjustments; settings that still carry it
+ * are migrated when they are loaded into the store.
  */
 export interface SplitToningAdjustments {
   highlightHue: number;       // 0 to 360
@@ -164,25 +230,307 @@ export interface SplitToningAdjustments {
   balance: number;            // -100 to +100
 }
 
+/**
+ * One color grading wheel: a tint and a lightness shift
+ */
+export interface GradingWheel {
+  hue: number;        // 0 to 360
+  saturation: number; // 0 to 100
+  luminance: number;  // -100 to +100
+}
+
+export type GradingRange = 'shadows' | 'midtones' | 'highlights' | 'global';
+
+/**
+ * Three-way color grading plus a global wheel
+ */
+export interface ColorGradingAdjustments {
+  shadows: GradingWheel;
+  midtones: GradingWheel;
+  highlights: GradingWheel;
+  /** Applies to all tones */
+  global: GradingWheel;
+  /** Overlap between the tonal ranges (0 to 100, 50 = linear ramps) */
+  blending: number;
+  /** Moves the shadow / highlight split (-100 to +100) */
+  balance: number;
+}
+
+/**
+ * Color look-up table (applied after curves and HSL). The table itself
+ * lives in the LUT library; settings refer to it by id.
+ */
+export interface LutAdjustments {
+  /** Library id, or null for no LUT */
+  id: string | null;
+  /** Blend between the input and the LUT result (0-100) */
+  amount: number;
+}
+
+/**
+ * Working space of the adjustment pipeline
+ * - gamma: display-referred sRGB values, clamped between stages
+ * - linear: scene-linear floating point, unclamped until display/export
+ */
+export type ProcessingMode = 'gamma' | 'linear';
+
+// ============================================================================
+// LOCAL ADJUSTMENT MASKS
+// ============================================================================
+
+/**
+ * Point in mask space: normalized (0-1) coordinates of the original image,
+ * so masks stay on their subject when rotation, flips or crop change
+ */
+export interface MaskPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Adjustments applied inside a mask, as offsets added to the global
+ * settings (0 = no change). Temperature is an offset in Kelvin.
+ */
+export interface MaskAdjustments {
+  basic: BasicAdjustments;
+  color: ColorAdjustments;
+  detail: Pick<DetailAdjustments, 'clarity' | 'sharpness' | 'noiseReduction'>;
+  effects: Pick<EffectAdjustments, 'dehaze'>;
+}
+
+export type MaskType = 'linear' | 'radial' | 'brush' | 'luminance' | 'color';
+
+/**
+ * Pixels whose luminance falls in a band (perceptual 0-100 scale)
+ */
+export interface LuminanceRange {
+  type: 'luminance';
+  /** Lower end of the band */
+  min: number;
+  /** Upper end of the band */
+  max: number;
+  /** Width of the soft edge on each side of the band */
+  smoothness: number;
+}
+
+/**
+ * Pixels close in color to a sampled point of the image
+ */
+export interface ColorRange {
+  type: 'color';
+  /** Where the reference color is sampled, normalized to the original image */
+  sample: MaskPoint;
+  /** Color distance (deltaE) at which selection reaches zero */
+  tolerance: number;
+}
+
+export type RangeSelection = LuminanceRange | ColorRange;
+
+/**
+ * Range that narrows a mask: keep only the overlap, or cut the range out
+ */
+export interface MaskRefinement {
+  mode: 'intersect' | 'subtract';
+  range: RangeSelection;
+}
+
+interface MaskBase {
+  id: string;
+  name: string;
+  /** Disabled masks are kept but not rendered */
+  enabled: boolean;
+  /** Apply the adjustments outside the shape instead of inside */
+  invert: boolean;
+  /** Ranges applied after the shape (and its inversion), in order */
+  refinements: MaskRefinement[];
+  adjustments: MaskAdjustments;
+}
+
+/**
+ * Graduated filter: full effect on the start side, fading to none at the end
+ */
+export interface LinearGradientMask extends MaskBase {
+  type: 'linear';
+  /** Edge softness (0 = hard edge, 100 = widest transition) */
+  feather: number;
+  start: MaskPoint;
+  end: MaskPoint;
+}
+
+/**
+ * Elliptical mask: full effect inside, fading out towards the edge
+ */
+export interface RadialGradientMask extends MaskBase {
+  type: 'radial';
+  /** Edge softness (0 = hard edge, 100 = widest transition) */
+  feather: number;
+  center: MaskPoint;
+  /** Horizontal semi-axis as a fraction of the original image width */
+  radiusX: number;
+  /** Vertical semi-axis as a fraction of the original image height */
+  radiusY: number;
+  /** Rotation of the ellipse in degrees, relative to the original image */
+  angle: number;
+}
+
+/**
+ * One brush stroke, stored as a path so it rasterizes at any resolution
+ */
+export interface BrushStroke {
+  /** Path of the brush center, normalized to the original image */
+  points: MaskPoint[];
+  /** Brush radius as a fraction of the original image's longer side */
+  radius: number;
+  /** Edge softness of the brush tip (0-100) */
+  feather: number;
+  /** Coverage added by each dab (0-100); overlapping dabs build up */
+  flow: number;
+  /** Maximum coverage the stroke reaches (0-100) */
+  density: number;
+  /** Remove coverage instead of adding it */
+  erase: boolean;
+  /** Only cover pixels similar in color to the start of the stroke */
+  autoMask: boolean;
+}
+
+/**
+ * Painted mask built from brush strokes, applied in order
+ */
+export interface BrushMask extends MaskBase {
+  type: 'brush';
+  strokes: BrushStroke[];
+}
+
+/**
+ * Range mask: selects by the image's own luminance or color
+ */
+export type RangeMask = MaskBase & RangeSelection;
+
+export type Mask = LinearGradientMask | RadialGradientMask | BrushMask | RangeMask;
+
+/**
+ * Brush tool options applied to new strokes
+ */
+export interface BrushSettings {
+  /** Brush diameter in image pixels */
+  size: number;
+  feather: number;
+  flow: number;
+  density: number;
+  erase: boolean;
+  autoMask: boolean;
+}
+
+// ============================================================================
+// SPOT REMOVAL
+// ============================================================================
+
+/**
+ * Heal matches the copied texture to the color and tone around the spot;
+ * clone copies the patch as is
+ */
+export type SpotMode = 'heal' | 'clone';
+
+/**
+ * One retouched area. Points are normalized (0-1) to the original image
+ * before any geometry, so spots follow crop, rotation and flips.
+ */
+export interface Spot {
+  id: string;
+  mode: SpotMode;
+  /** Path of the retouched area; a single point for a clicked spot */
+  points: MaskPoint[];
+  /** Where the patch is copied from, relative to the points */
+  offset: MaskPoint;
+  /** Radius as a fraction of the original's longer side */
+  radius: number;
+  /** Edge softness (0-100) */
+  feather: number;
+  /** Strength of the retouch (0-100) */
+  opacity: number;
+}
+
+// ============================================================================
+// LAYERS
+// ============================================================================
+
+/**
+ * How a layer combines with the composite below it
+ */
+export type BlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'soft-light' | 'luminosity' | 'color';
+
+export type LayerType = 'image' | 'adjustment';
+
+/**
+ * Settings of an adjustment layer. Geometry, spots, masks and layers
+ * belong to the document, so a layer holds only the pixel adjustments.
+ */
+export type LayerAdjustments = Omit<AdjustmentSettings, 'transform' | 'spots' | 'masks' | 'layers'>;
+
+interface LayerBase {
+  id: string;
+  name: string;
+  visible: boolean;
+  /** 0-100 */
+  opacity: number;
+  blendMode: BlendMode;
+  /** Where the layer applies; only the mask's shape is used, not its adjustments */
+  mask: Mask | null;
+}
+
+/**
+ * A second picture, scaled to cover the original and transformed with it.
+ * Its pixels are kept outside the settings (see ImageDocument.layerImages).
+ */
+export interface ImageLayer extends LayerBase {
+  type: 'image';
+}
+
+/**
+ * Re-renders the composite below it with its own adjustments
+ */
+export interface AdjustmentLayer extends LayerBase {
+  type: 'adjustment';
+  adjustments: LayerAdjustments;
+}
+
+export type Layer = ImageLayer | AdjustmentLayer;
+
 /**
  * Complete adjustment settings combining all adjustment types
  */
 export interface AdjustmentSettings {
   basic: BasicAdjustments;
   color: ColorAdjustments;
+  calibration: CalibrationAdjustments;
+  channelMixer: ChannelMixerAdjustments;
   detail: DetailAdjustments;
   hsl: HSLAdjustments;
+  blackAndWhite: BlackAndWhiteAdjustments;
   curves: CurveAdjustments;
   effects: EffectAdjustments;
-  splitToning: SplitToningAdjustments;
+  colorGrading: ColorGradingAdjustments;
+  lut: LutAdjustments;
   transform: TransformAdjustments;
   lensCorrection: LensCorrectionAdjustments;
+  processingMode: ProcessingMode;
+  /** Local adjustments, applied in order over the global result */
+  masks: Mask[];
+  /** Spot removal, applied in order to the original before geometry */
+  spots: Spot[];
+  /** Layers composited bottom to top over the rendered original */
+  layers: Layer[];
 }
 
 // ============================================================================
 // CAMERA SETTINGS
 // ============================================================================
 
+/**
+ * Color of focus peaking marks on the live preview
+ */
+export type FocusPeakingColor = 'red' | 'yellow' | 'green' | 'blue' | 'white';
+
 /**
  * Camera capture configuration
  * Note: Some settings are simulated via post-processing
@@ -202,6 +550,11 @@ export interface CameraSettings {
   exposureCompensation: number;
   /** Auto/manual focus mode */
   focusMode: 'auto' | 'manual';
+  /** Edge-contrast focus peaking over the live preview */
+  focusPeaking: boolean;
+  focusPeakingColor: FocusPeakingColor;
+  /** Peaking sensitivity (0-100); higher also marks softer edges */
+  focusPeakingSensitivity: number;
   /** Self-timer delay in seconds (0, 2, 5, 10) */
   timer: number;
   /** Burst mode shots count (1, 3, 5, 10) */
@@ -232,6 +585,86 @@ export interface HistogramData {
   max: number;
 }
 
+/**
+ * Scope display: a waveform (luma only, R/G/B side by side, or R/G/B
+ * overlaid) or the vectorscope
+ */
+export type ScopeMode = 'luma' | 'parade' | 'overlay' | 'vectorscope';
+
+/**
+ * Waveform counts per image column and level
+ * Each channel holds columns × 256 counts, indexed column * 256 + level.
+ */
+export interface WaveformData {
+  columns: number;
+  /** Average number of pixels sampled per column */
+  samplesPerColumn: number;
+  luma: Uint32Array;
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+}
+
+/**
+ * Vectorscope counts on a square grid of chroma (U right, V up)
+ * At zoom 1 the grid spans chroma -0.5 to 0.5 on both axes.
+ */
+export interface VectorscopeData {
+  size: number;
+  zoom: number;
+  /** Number of pixels sampled */
+  samples: number;
+  /** size × size counts, top row first */
+  counts: Uint32Array;
+}
+
+/**
+ * Chroma region picked on the vectorscope (Rec. 709 U/V, -0.5 to 0.5)
+ */
+export interface ChromaSelection {
+  u: number;
+  v: number;
+  radius: number;
+}
+
+/**
+ * False color ramp: a preset IRE ladder or the user's own bands
+ */
+export type FalseColorPalette = 'standard' | 'clipping' | 'spectrum' | 'custom';
+
+/**
+ * One luminance band of a false color ramp
+ * A band covers the levels above the previous band's bound up to its own.
+ */
+export interface FalseColorBand {
+  /** Upper bound in IRE (0-100); the last band ends at 100 */
+  upTo: number;
+  /** Overlay color (0-255 RGB), or null to show the band in gray */
+  color: [number, number, number] | null;
+  label: string;
+}
+
+/**
+ * Edge energy per block of an image, for the sharpness map
+ */
+export interface SharpnessMap {
+  columns: number;
+  rows: number;
+  /** Mean edge strength per block (0-1), top row first */
+  values: Float32Array;
+  /** Sharpness of the best-focused areas (0-100), for comparing frames */
+  score: number;
+}
+
+/**
+ * Percentage of pixels clipped in each channel
+ */
+export interface ChannelClipping {
+  r: number;
+  g: number;
+  b: number;
+}
+
 /**
  * Image statistics for analysis display
  */
@@ -239,8 +672,12 @@ export interface ImageStatistics {
   mean: { r: number; g: number; b: number; l: number };
   median: { r: number; g: number; b: number; l: number };
   stdDev: { r: number; g: number; b: number; l: number };
-  clippedHighlights: number; // Percentage of pixels
-  clippedShadows: number;    // Percentage of pixels
+  clippedHighlights: number; // Percentage of pixels (any channel)
+  clippedShadows: number;    // Percentage of pixels (all channels)
+  /** Highlight clipping of each channel on its own */
+  clippedHighlightChannels: ChannelClipping;
+  /** Shadow clipping of each channel on its own */
+  clippedShadowChannels: ChannelClipping;
 }
 
 // ============================================================================
@@ -324,10 +761,51 @@ export interface UIState {
   comparisonMode: ComparisonMode;
   comparisonPosition: number; // 0-1 for split position
   showHistogram: boolean;
+  /** Waveform scopes below the histogram (and over the live camera feed) */
+  showScopes: boolean;
+  scopeMode: ScopeMode;
+  /** Trace brightness (0-100) */
+  scopeIntensity: number;
+  /** Vectorscope magnification for low-saturation images (1, 2 or 4) */
+  scopeZoom: number;
+  /** Chroma region whose pixels are highlighted on the canvas */
+  chromaSelection: ChromaSelection | null;
+  /** Highlight pixels the skin-tone heuristic matches */
+  showSkinTones: boolean;
   showZebras: boolean;
   zebraThreshold: { high: number; low: number };
+  /** Clipping the zebra overlay marks (toggled from the histogram corners) */
+  zebraHighlights: boolean;
+  zebraShadows: boolean;
+  /** Full-frame false color exposure overlay (editor and live camera) */
+  showFalseColor: boolean;
+  falseColorPalette: FalseColorPalette;
+  /** Bands of the custom palette; seeded from the standard ramp on first use */
+  falseColorBands: FalseColorBand[];
+  /** Heat map of edge sharpness over the image in the editor */
+  showSharpnessMap: boolean;
   gridType: GridType;
   activePanel: string | null;
+  /** Interactive crop & straighten tool is open */
+  isCropping: boolean;
+  /** Mask selected for editing on the canvas */
+  activeMaskId: string | null;
+  /** Mask type drawn by the next drag on the canvas */
+  maskTool: MaskType | null;
+  /** Options for new brush strokes */
+  brush: BrushSettings;
+  /** Tint the selected mask's coverage over the image */
+  showMaskOverlay: boolean;
+  /** Spot removal mode used by the next click or stroke on the canvas */
+  spotTool: SpotMode | null;
+  /** Diameter of new spots in image pixels */
+  spotSize: number;
+  /** Spot selected for editing on the canvas */
+  activeSpotId: string | null;
+  /** Layer selected in the layers panel; mask tools edit its mask */
+  activeLayerId: string | null;
+  /** Editor viewport in CSS pixels; sizes the preview proxy */
+  viewportSize: { width: number; height: number };
 }
 
 // ============================================================================
@@ -363,6 +841,8 @@ export interface ImageDocument {
   processed: ImageData;
   /** Current adjustment settings */
   adjustments: AdjustmentSettings;
+  /** Pixels of image layers, by layer id */
+  layerImages: Record<string, ImageData>;
   /** Image metadata */
   metadata: ImageMetadata;
   /** Undo history stack */
@@ -391,6 +871,24 @@ export const DEFAULT_COLOR_ADJUSTMENTS: ColorAdjustments = {
   saturation: 0,
 };
 
+export const DEFAULT_CALIBRATION_PRIMARY: CalibrationPrimary = {
+  hue: 0,
+  saturation: 0,
+};
+
+export const DEFAULT_CALIBRATION: CalibrationAdjustments = {
+  red: { ...DEFAULT_CALIBRATION_PRIMARY },
+  green: { ...DEFAULT_CALIBRATION_PRIMARY },
+  blue: { ...DEFAULT_CALIBRATION_PRIMARY },
+};
+
+export const DEFAULT_CHANNEL_MIXER: ChannelMixerAdjustments = {
+  red: { red: 100, green: 0, blue: 0, constant: 0 },
+  green: { red: 0, green: 100, blue: 0, constant: 0 },
+  blue: { red: 0, green: 0, blue: 100, constant: 0 },
+  monochrome: false,
+};
+
 export const DEFAULT_DETAIL_ADJUSTMENTS: DetailAdjustments = {
   clarity: 0,
   sharpness: 0,
@@ -415,6 +913,13 @@ export const DEFAULT_HSL_ADJUSTMENTS: HSLAdjustments = {
   magenta: { ...DEFAULT_HSL_CHANNEL },
 };
 
+export const DEFAULT_BLACK_AND_WHITE: BlackAndWhiteAdjustments = {
+  enabled: false,
+  mix: { red: 0, orange: 0, yellow: 0, green: 0, cyan: 0, blue: 0, purple: 0, magenta: 0 },
+  toningHue: 0,
+  toningSaturation: 0,
+};
+
 export const DEFAULT_CURVE_POINTS: CurvePoint[] = [
   { x: 0, y: 0 },
   { x: 255, y: 255 },
@@ -437,17 +942,30 @@ export const DEFAULT_EFFECT_ADJUSTMENTS: EffectAdjustments = {
   grainSize: 25,
   grainRoughness: 50,
   grainMonochrome: true,
+  grainSeed: 0,
   dehaze: 0,
 };
 
-export const DEFAULT_SPLIT_TONING: SplitToningAdjustments = {
-  highlightHue: 0,
-  highlightSaturation: 0,
-  shadowHue: 0,
-  shadowSaturation: 0,
+export const DEFAULT_GRADING_WHEEL: GradingWheel = {
+  hue: 0,
+  saturation: 0,
+  luminance: 0,
+};
+
+export const DEFAULT_COLOR_GRADING: ColorGradingAdjustments = {
+  shadows: DEFAULT_GRADING_WHEEL,
+  midtones: DEFAULT_GRADING_WHEEL,
+  highlights: DEFAULT_GRADING_WHEEL,
+  global: DEFAULT_GRADING_WHEEL,
+  blending: 50,
   balance: 0,
 };
 
+export const DEFAULT_LUT_ADJUSTMENTS: LutAdjustments = {
+  id: null,
+  amount: 100,
+};
+
 export const DEFAULT_TRANSFORM_ADJUSTMENTS: TransformAdjustments = {
   crop: { x: 0, y: 0, width: 1, height: 1, aspectRatio: null },
   rotation: 0,
@@ -460,16 +978,40 @@ export const DEFAULT_LENS_CORRECTION: LensCorrectionAdjustments = {
   chromaticAberration: { redCyan: 0, blueYellow: 0 },
 };
 
+export const DEFAULT_MASK_ADJUSTMENTS: MaskAdjustments = {
+  basic: { exposure: 0, contrast: 0, highlights: 0, shadows: 0, whites: 0, blacks: 0 },
+  color: { temperature: 0, tint: 0, vibrance: 0, saturation: 0 },
+  detail: { clarity: 0, sharpness: 0, noiseReduction: 0 },
+  effects: { dehaze: 0 },
+};
+
+export const DEFAULT_BRUSH_SETTINGS: BrushSettings = {
+  size: 100,
+  feather: 50,
+  flow: 50,
+  density: 100,
+  erase: false,
+  autoMask: false,
+};
+
 export const DEFAULT_ADJUSTMENT_SETTINGS: AdjustmentSettings = {
   basic: DEFAULT_BASIC_ADJUSTMENTS,
   color: DEFAULT_COLOR_ADJUSTMENTS,
+  calibration: DEFAULT_CALIBRATION,
+  channelMixer: DEFAULT_CHANNEL_MIXER,
   detail: DEFAULT_DETAIL_ADJUSTMENTS,
   hsl: DEFAULT_HSL_ADJUSTMENTS,
+  blackAndWhite: DEFAULT_BLACK_AND_WHITE,
   curves: DEFAULT_CURVE_ADJUSTMENTS,
   effects: DEFAULT_EFFECT_ADJUSTMENTS,
-  splitToning: DEFAULT_SPLIT_TONING,
+  colorGrading: DEFAULT_COLOR_GRADING,
+  lut: DEFAULT_LUT_ADJUSTMENTS,
   transform: DEFAULT_TRANSFORM_ADJUSTMENTS,
   lensCorrection: DEFAULT_LENS_CORRECTION,
+  processingMode: 'gamma',
+  masks: [],
+  spots: [],
+  layers: [],
 };
 
 export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
@@ -480,6 +1022,9 @@ export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
   whiteBalance: 'auto',
   exposureCompensation: 0,
   focusMode: 'auto',
+  focusPeaking: false,
+  focusPeakingColor: 'red',
+  focusPeakingSensitivity: 50,
   timer: 0,
   burstCount: 1,
   bracketingEV: 0,
@@ -492,8 +1037,30 @@ export const DEFAULT_UI_STATE: UIState = {
   comparisonMode: 'off',
   comparisonPosition: 0.5,
   showHistogram: true,
+  showScopes: false,
+  scopeMode: 'luma',
+  scopeIntensity: 50,
+  scopeZoom: 1,
+  chromaSelection: null,
+  showSkinTones: false,
   showZebras: false,
   zebraThreshold: { high: 250, low: 5 },
+  zebraHighlights: true,
+  zebraShadows: true,
+  showFalseColor: false,
+  falseColorPalette: 'standard',
+  falseColorBands: [],
+  showSharpnessMap: false,
   gridType: 'none',
   activePanel: 'basic',
+  isCropping: false,
+  activeMaskId: null,
+  maskTool: null,
+  brush: DEFAULT_BRUSH_SETTINGS,
+  showMaskOverlay: false,
+  spotTool: null,
+  spotSize: 40,
+  activeSpotId: null,
+  activeLayerId: null,
+  viewportSize: { width: 0, height: 0 },
 };
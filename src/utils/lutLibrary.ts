@@ -0,0 +1,84 @@
+/**
+ * APEX Photo Studio - LUT Library Storage
+ * 
+ * Keeps imported color LUTs in the browser (IndexedDB), so looks stay
+ * available across sessions:
+ * - One record per LUT, keyed by its library id
+ * - Tables are stored parsed; the .cube text is not kept
+ * 
+ * Storage failures (private browsing, quota) leave the library in
+ * memory only; callers treat them as non-fatal.
+ */
+
+import type { CubeLut } from '@/engine/lut';
+
+const DB_NAME = 'apex-photo-studio';
+const DB_VERSION = 1;
+const STORE_NAME = 'luts';
+
+interface LutRecord {
+  id: string;
+  lut: CubeLut;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run one request in its own transaction and close the database after
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Load every saved LUT
+ * 
+ * @returns LUTs by library id
+ */
+export async function loadLutLibrary(): Promise<Record<string, CubeLut>> {
+  const records = await withStore<LutRecord[]>('readonly', store => store.getAll());
+  return Object.fromEntries(records.map(record => [record.id, record.lut]));
+}
+
+/**
+ * Save (or replace) a LUT under its library id
+ */
+export async function saveLutToLibrary(id: string, lut: CubeLut): Promise<void> {
+  const record: LutRecord = { id, lut };
+  await withStore('readwrite', store => store.put(record));
+}
+
+/**
+ * Remove a LUT from the library
+ */
+export async function deleteLutFromLibrary(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}